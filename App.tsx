@@ -1,39 +1,62 @@
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, PieChart, Pie, Cell, Legend } from 'recharts';
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
 
-import { Agent, AgentStatus, DocumentFile, DocumentType, AnalysisResult, Keyword, Language } from './types';
+import { Agent, AgentStatus, BatchItem, DocumentFile, DocumentMode, DocumentType, DashboardWidget, Keyword, KeywordSet, Language, RunPolicy, ChatMessage, Citation, SourceCitation, TextSpan, RunSnapshot, WorkflowTemplate, AgentTemplate, UsageBudget, PageExtraction, PageExtractionMode, OcrOutputFormat, ReportFormat, ReportTemplate, EvalDataset, EvalCaseResult, RedactionSettings } from './types';
 import { DEFAULT_AGENTS, FLOWER_THEMES, LOCALIZATION, MODEL_OPTIONS } from './constants';
 import {
     PlusIcon, PlayIcon, UploadIcon, FileTextIcon, SettingsIcon, PaletteIcon, LanguageIcon,
-    SunIcon, MoonIcon, KeyIcon, TrashIcon, ChevronLeft, ChevronRight, DocumentIcon
+    SunIcon, MoonIcon, KeyIcon, TrashIcon, ChevronLeft, ChevronRight, DocumentIcon, StopIcon, ClockIcon, PencilIcon, StackIcon, BeakerIcon, ShieldIcon
 } from './components/icons';
+import { RunPolicyFields } from './components/RunPolicyFields';
+import { ChunkProgressGrid, LongDocumentFields } from './components/LongDocumentFields';
+import { RetrievalFields } from './components/RetrievalFields';
+import { SemanticSearch } from './components/SemanticSearch';
+import { ChatPanel } from './components/ChatPanel';
+import { RunHistoryDialog } from './components/RunHistoryDialog';
+import { WorkflowTemplatesPanel } from './components/WorkflowTemplatesPanel';
+import { AgentDraft, CustomAgentBuilder } from './components/CustomAgentBuilder';
+import { VariablesDialog } from './components/VariablesDialog';
+import { ApiKeyDialog } from './components/ApiKeyDialog';
+import { UsageBudgetFields } from './components/UsageBudgetFields';
+import { ExtractionReport } from './components/ExtractionReport';
+import { StructuredDocumentView } from './components/StructuredDocumentView';
+import { DocumentResults, ResultGroup } from './components/DocumentResults';
+import { BatchDialog } from './components/BatchDialog';
+import { EvaluationDialog } from './components/EvaluationDialog';
+import { RedactionDialog } from './components/RedactionDialog';
+import { DashboardLayoutFields } from './components/DashboardLayoutFields';
+import { DashboardWidgetView } from './components/DashboardWidgetView';
+import { HighlightedText } from './components/HighlightedText';
+import { KeywordPanel } from './components/KeywordPanel';
+import { AgentSources } from './components/AgentSources';
+import { ReportDialog } from './components/ReportDialog';
 import { useLocalStorage } from './hooks/useLocalStorage';
-import { performOcr, runAgent, generateFollowUpQuestions } from './services/geminiService';
-
-// Helper to render text with highlighted keywords
-const HighlightedText: React.FC<{ text: string; keywords: Keyword[] }> = ({ text, keywords }) => {
-    if (!keywords.length || !text) {
-        return <>{text}</>;
-    }
-    const regex = new RegExp(`(${keywords.map(k => k.text.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&')).join('|')})`, 'gi');
-    const parts = text.split(regex);
-
-    return (
-        <>
-            {parts.map((part, i) => {
-                const keyword = keywords.find(k => k.text.toLowerCase() === part.toLowerCase());
-                return keyword ? (
-                    <span key={i} style={{ color: keyword.color, fontWeight: 600 }}>{part}</span>
-                ) : (
-                    <span key={i}>{part}</span>
-                );
-            })}
-        </>
-    );
-};
-
+import { generateFollowUpQuestions, askDocument, ASSISTANT_MODEL, OCR_MODEL } from './services/geminiService';
+import { locateQuote, resolveCitation } from './services/citations';
+import { hashText } from './services/hashing';
+import { saveRun } from './services/runHistory';
+import { batchAgents, executeBatch } from './services/batchService';
+import { estimateEvaluationCost, runEvaluation } from './services/evaluation';
+import { DEFAULT_RETRIEVAL_SETTINGS, SearchHit } from './services/semanticSearch';
+import { findKeywordMatches } from './services/keywordMatching';
+import { createTemplate, instantiateDashboard, instantiateTemplate, toAgentConfig } from './services/workflowTemplates';
+import { suggestWidgets, widgetSource } from './services/dashboardWidgets';
+import { extractVariableNames, syncVariables } from './services/promptVariables';
+import { downloadBlob } from './services/download';
+import { buildReport, DEFAULT_REPORT_TEMPLATE, renderReport, REPORT_FORMATS } from './services/reports';
+import { DEFAULT_LONG_DOCUMENT_SETTINGS, getAgentInputs, WorkflowGraphError } from './services/workflowService';
+import { DEFAULT_RUN_POLICY } from './services/runPolicy';
+import { setModelProvider } from './services/modelProvider';
+import { createProvider, DEFAULT_PROVIDER_ID, PROVIDER_IDS, ProviderId } from './services/providers';
+import { createRecordingProvider, parseReplayFixture, RecordingProvider, ReplayFixture } from './services/providers/replay';
+import { createRedactingProvider } from './services/providers/redacting';
+import { createRedactor, DEFAULT_REDACTION_SETTINGS } from './services/redaction';
+import { clearApiKey, loadApiKey, saveApiKey, StoredApiKey } from './services/apiKeyStore';
+import { formatExtractedContent, formatStructuredContent, OCR_CONCURRENCY, ocrPage, readTextLayers, TextLayerPage } from './services/pdfExtraction';
+import { CachedOcrPage, getCachedOcrPages } from './services/ocrCache';
+import { ACCEPTED_EXTENSIONS, detectDocumentType, DocumentLoadError, loadDocument, openPdf } from './services/loaders';
+import { mapWithConcurrency } from './services/concurrency';
+import { BudgetViolation, checkBudget, CostEstimate, DEFAULT_USAGE_BUDGET, estimateFollowUpCost, estimateOcrCost, estimateWorkspaceCost, formatUsd, runCost, totalEstimate, usageCost } from './services/costEstimation';
+import { combineDocuments, COMPARE_GROUP, executeWorkspace, isCompareAgent } from './services/workspaceService';
 
 const App: React.FC = () => {
     // UI State
@@ -45,26 +68,93 @@ const App: React.FC = () => {
     const [isPdfLibReady, setIsPdfLibReady] = useState(false);
 
     // App Logic State
-    const [documentFile, setDocumentFile] = useState<DocumentFile>({ id: 'initial', name: T.noDocument, type: DocumentType.EMPTY, content: '' });
+    const [documents, setDocuments] = useState<DocumentFile[]>([]);
+    const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null);
+    // The documents a run includes; new documents join it.
+    const [runDocumentIds, setRunDocumentIds] = useState<string[]>([]);
+    const documentFile = useMemo<DocumentFile>(
+        () => documents.find(d => d.id === activeDocumentId) ?? { id: 'initial', name: T.noDocument, type: DocumentType.EMPTY, content: '' },
+        [documents, activeDocumentId, T],
+    );
+    const runDocuments = useMemo(() => documents.filter(d => runDocumentIds.includes(d.id) && d.content), [documents, runDocumentIds]);
     const [pastedContent, setPastedContent] = useState('');
     const [agents, setAgents] = useLocalStorage<Agent[]>('agents', []);
-    const [keywords, setKeywords] = useState<Keyword[]>([]);
-    const [newKeyword, setNewKeyword] = useState({ text: '', color: '#f87171' }); // Coral color
+    const [workflowPolicy, setWorkflowPolicy] = useLocalStorage<RunPolicy>('workflowPolicy', DEFAULT_RUN_POLICY);
+    const [workflowTemplates, setWorkflowTemplates] = useLocalStorage<WorkflowTemplate[]>('workflowTemplates', []);
+    const [agentLibrary, setAgentLibrary] = useLocalStorage<AgentTemplate[]>('agentLibrary', []);
+    // null: builder closed; { agentId: null }: creating a new agent; otherwise editing that agent.
+    const [builderTarget, setBuilderTarget] = useState<{ agentId: string | null } | null>(null);
+    // Which run the prompt-variables dialog is collecting values for.
+    const [variablesTarget, setVariablesTarget] = useState<'workflow' | 'batch' | null>(null);
+    // Keywords stay across documents; sets are saved keyword lists to switch between.
+    const [keywords, setKeywords] = useLocalStorage<Keyword[]>('keywords', []);
+    const [keywordSets, setKeywordSets] = useLocalStorage<KeywordSet[]>('keywordSets', []);
+    const [keywordCursor, setKeywordCursor] = useState<{ keywordId: string; index: number } | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
-    const [isOcrProcessing, setIsOcrProcessing] = useState(false);
     const [isLoadingFile, setIsLoadingFile] = useState(false);
-    const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+    const [loadErrors, setLoadErrors] = useState<string[]>([]);
+    // Run state per result group: document ids, plus COMPARE_GROUP for the comparison agents.
+    const [runResults, setRunResults] = useState<Record<string, Agent[]>>({});
+    // The result groups the dashboard shows: those of the last run, or of a run opened from history.
+    const [dashboardGroups, setDashboardGroups] = useState<ResultGroup[]>([]);
+    // Saved with workflow templates; null lets each agent's output schema decide its widgets.
+    const [dashboardLayout, setDashboardLayout] = useLocalStorage<DashboardWidget[] | null>('dashboardLayout', null);
     const [followUpQuestions, setFollowUpQuestions] = useState<string | null>(null);
+    const [reportTemplate, setReportTemplate] = useLocalStorage<ReportTemplate>('reportTemplate', DEFAULT_REPORT_TEMPLATE);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [workflowError, setWorkflowError] = useState<string | null>(null);
+    const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+    const [isAnswering, setIsAnswering] = useState(false);
+    const [activeSpan, setActiveSpan] = useState<TextSpan | null>(null);
+    const [documentHash, setDocumentHash] = useState<string | null>(null);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isBatchOpen, setIsBatchOpen] = useState(false);
+    const [isEvalOpen, setIsEvalOpen] = useState(false);
+    const [isRedactionOpen, setIsRedactionOpen] = useState(false);
+    const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+    const [isBatchRunning, setIsBatchRunning] = useState(false);
+    const [batchError, setBatchError] = useState<string | null>(null);
+    const [batchOcr, setBatchOcr] = useLocalStorage('batchOcr', true);
+    const [providerId, setProviderId] = useLocalStorage<ProviderId>('modelProvider', DEFAULT_PROVIDER_ID);
+    const [replayFixture, setReplayFixture] = useState<ReplayFixture | null>(null);
+    const [isRecording, setIsRecording] = useState(false);
+    const [storedApiKey, setStoredApiKey] = useState<StoredApiKey | null>(null);
+    const [isApiKeyDialogOpen, setIsApiKeyDialogOpen] = useState(false);
+    // A key entered in the settings dialog wins; GEMINI_API_KEY from .env.local is a fallback on the dev server only.
+    const apiKey = storedApiKey?.apiKey || process.env.API_KEY || undefined;
+    const needsApiKey = providerId === 'gemini' && !apiKey;
+    const [usageBudget, setUsageBudget] = useLocalStorage<UsageBudget>('usageBudget', DEFAULT_USAGE_BUDGET);
+    const [redactionSettings, setRedactionSettings] = useLocalStorage<RedactionSettings>('redactionSettings', DEFAULT_REDACTION_SETTINGS);
+    const [dailySpend, setDailySpend] = useLocalStorage('dailySpend', { day: '', cost: 0 });
+    const [costEstimates, setCostEstimates] = useState<Map<string, CostEstimate> | null>(null);
+    const spentToday = dailySpend.day === new Date().toDateString() ? dailySpend.cost : 0;
 
-    // PDF Viewer State
-    const [selectedPages, setSelectedPages] = useState<Set<number>>(new Set());
+    // PDF Viewer State; page selection and modes belong to the document.
+    const selectedPages = useMemo(() => new Set(documentFile.selectedPages ?? []), [documentFile.selectedPages]);
+    const pageModes = documentFile.pageModes ?? {};
     const [currentPage, setCurrentPage] = useState(1);
     const [pdfZoom, setPdfZoom] = useState(1.0);
     const [currentPageDataUrl, setCurrentPageDataUrl] = useState<string | null>(null);
     const [isPageRendering, setIsPageRendering] = useState(false);
+    const [extractionMode, setExtractionMode] = useLocalStorage<PageExtractionMode>('extractionMode', 'auto');
+    const [ocrFormat, setOcrFormat] = useLocalStorage<OcrOutputFormat>('ocrFormat', 'text');
+    const [documentView, setDocumentView] = useState<'text' | 'structured'>('text');
+    // Only pages OCRed in layout format have blocks to render; everything else stays plain text.
+    const hasStructuredView = Boolean(documentFile.pageReport?.some(r => r.blocks));
+    const keywordMatches = useMemo(() => findKeywordMatches(documentFile.content, keywords), [documentFile.content, keywords]);
+    // The keyword occurrence being shown, as long as it is still the active span (a citation or search hit replaces it).
+    const currentKeywordMatch = useMemo(() => {
+        const match = keywordCursor && keywordMatches.byKeyword.get(keywordCursor.keywordId)?.[keywordCursor.index];
+        return match && activeSpan && match.start === activeSpan.start && match.end === activeSpan.end ? keywordCursor : null;
+    }, [keywordCursor, keywordMatches, activeSpan]);
 
 
     const interactiveContentRef = useRef<HTMLDivElement>(null);
+    const workflowAbortRef = useRef<AbortController | null>(null);
+    const batchAbortRef = useRef<AbortController | null>(null);
+    const agentAbortRefs = useRef(new Map<string, AbortController>());
+    // Kept after recording stops, so the last recording can still be downloaded.
+    const recorderRef = useRef<RecordingProvider | null>(null);
 
 
     // Effects
@@ -73,6 +163,44 @@ const App: React.FC = () => {
         document.documentElement.style.setProperty('--color-primary', activeTheme.colors.primary);
     }, [activeTheme]);
 
+    useEffect(() => {
+        loadApiKey().then(setStoredApiKey).catch(console.error);
+    }, []);
+
+    // One mapping for every model call while the settings stay the same, so a value keeps its placeholder
+    // across documents, agents and runs.
+    const redactor = useMemo(() => redactionSettings.enabled ? createRedactor(redactionSettings.detectors) : null, [redactionSettings]);
+
+    // Redaction wraps the recorder, so a recording holds the requests as they left the browser.
+    useEffect(() => {
+        const provider = createProvider(providerId, { apiKey, fixture: replayFixture ?? undefined });
+        if (isRecording) recorderRef.current = createRecordingProvider(provider);
+        const active = isRecording ? recorderRef.current! : provider;
+        setModelProvider(redactor ? createRedactingProvider(active, redactor, redactionSettings.allowOcrImages) : active);
+    }, [providerId, apiKey, replayFixture, isRecording, redactor]);
+
+    // Re-estimated only when something that changes the prompts does, not on every status update during a run.
+    const agentConfigKey = useMemo(() => JSON.stringify(agents.map(toAgentConfig)), [agents]);
+    useEffect(() => {
+        if (needsApiKey || isProcessing || runDocuments.length === 0 || agents.length === 0) {
+            setCostEstimates(null);
+            return;
+        }
+        let isCancelled = false;
+        const timer = setTimeout(() => {
+            estimateWorkspaceCost(agents, runDocuments)
+                .then(estimates => { if (!isCancelled) setCostEstimates(estimates); })
+                .catch(error => {
+                    console.error("Failed to estimate cost:", error);
+                    if (!isCancelled) setCostEstimates(null);
+                });
+        }, 800);
+        return () => {
+            isCancelled = true;
+            clearTimeout(timer);
+        };
+    }, [agentConfigKey, runDocuments, providerId, apiKey, isProcessing]);
+
     useEffect(() => {
         const intervalId = setInterval(() => {
             const pdfjs = (window as any).pdfjsLib;
@@ -85,13 +213,14 @@ const App: React.FC = () => {
         return () => clearInterval(intervalId);
     }, []);
     
+    const viewerPdf = documentFile.pdfDoc;
     useEffect(() => {
-        if (documentFile.type === DocumentType.PDF && documentFile.pdfDoc) {
+        if (viewerPdf) {
             let isCancelled = false;
             const renderPage = async () => {
                 setIsPageRendering(true);
                 try {
-                    const page = await documentFile.pdfDoc.getPage(currentPage);
+                    const page = await viewerPdf.getPage(currentPage);
                     if (isCancelled) return;
                     
                     const viewport = page.getViewport({ scale: pdfZoom });
@@ -118,93 +247,136 @@ const App: React.FC = () => {
         } else {
             setCurrentPageDataUrl(null);
         }
-    }, [documentFile, currentPage, pdfZoom]);
+    }, [viewerPdf, currentPage, pdfZoom]);
+
+    useEffect(() => {
+        if (!documentFile.content) {
+            setDocumentHash(null);
+            return;
+        }
+        let isCancelled = false;
+        hashText(documentFile.content).then(hash => { if (!isCancelled) setDocumentHash(hash); });
+        return () => { isCancelled = true; };
+    }, [documentFile.content]);
+
+    useEffect(() => {
+        if (!activeSpan) return;
+        interactiveContentRef.current?.querySelector('[data-active-span]')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [activeSpan]);
 
     // Handlers
-    const resetDocumentState = () => {
-        setDocumentFile({ id: 'initial', name: T.noDocument, type: DocumentType.EMPTY, content: '' });
-        setAnalysisResult(null);
-        setIsProcessing(false);
-        setIsOcrProcessing(false);
-        setKeywords([]);
-        setSelectedPages(new Set());
+    const updateDocument = (id: string, update: Partial<DocumentFile> | ((doc: DocumentFile) => Partial<DocumentFile>)) =>
+        setDocuments(prev => prev.map(d => d.id === id ? { ...d, ...(typeof update === 'function' ? update(d) : update) } : d));
+
+    // The viewer, chat and highlighted passage all follow the document on screen.
+    const selectDocument = (id: string) => {
+        if (id === activeDocumentId) return;
+        setActiveDocumentId(id);
         setCurrentPage(1);
-        setPdfZoom(1.0);
-        setFollowUpQuestions(null);
+        setChatMessages([]);
+        setActiveSpan(null);
     };
 
+    const addDocument = (doc: DocumentFile) => {
+        setDocuments(prev => [...prev, doc]);
+        setRunDocumentIds(prev => [...prev, doc.id]);
+        selectDocument(doc.id);
+    };
+
+    const removeDocument = (id: string) => {
+        const remaining = documents.filter(d => d.id !== id);
+        setDocuments(remaining);
+        setRunDocumentIds(prev => prev.filter(d => d !== id));
+        setRunResults(({ [id]: _, ...rest }) => rest);
+        setDashboardGroups(prev => prev.filter(g => g.id !== id));
+        if (id === activeDocumentId) {
+            setActiveDocumentId(remaining[0]?.id ?? null);
+            setCurrentPage(1);
+            setChatMessages([]);
+            setActiveSpan(null);
+        }
+    };
+
+    const toggleRunDocument = (id: string) =>
+        setRunDocumentIds(prev => prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id]);
+
     const resetAppState = () => {
-        resetDocumentState();
+        setDocuments([]);
+        setActiveDocumentId(null);
+        setRunDocumentIds([]);
+        setRunResults({});
+        setDashboardGroups([]);
+        setDashboardLayout(null);
+        setIsProcessing(false);
+        setLoadErrors([]);
+        setCurrentPage(1);
+        setPdfZoom(1.0);
+        setFollowUpQuestions(null);
+        setChatMessages([]);
+        setActiveSpan(null);
         setAgents([]);
     };
 
+    // File names are not unique in a workspace (two "proposal.pdf" from different vendors), so ids are generated.
+    const newDocumentId = () => `doc-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+    const loadFile = async (file: File) => {
+        const type = detectDocumentType(file);
+        const id = newDocumentId();
+        if (type === DocumentType.PDF) {
+            const { pdfDoc, fileHash } = await openPdf(file);
+            const allPages = Array.from({ length: pdfDoc.numPages }, (_, i) => i + 1);
+            addDocument({ id, name: file.name, type: DocumentType.PDF, content: '', pdfDoc, file, fileHash, selectedPages: allPages });
+            return;
+        }
+        const { usage, ...loaded } = await loadDocument(file, type, {
+            ocrFormat,
+            confirmOcr: () => {
+                if (needsApiKey) {
+                    setIsApiKeyDialogOpen(true);
+                    return false;
+                }
+                return confirmWithinBudget(estimateOcrCost(1).cost);
+            },
+        });
+        if (usage) addSpend(usageCost(OCR_MODEL, usage));
+        addDocument({ id, name: file.name, file, ...loaded });
+    };
 
+    // Several files can be added at once; each one that fails reports its own error and the rest still load.
     const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
-        
-        resetDocumentState();
+        const files = Array.from<File>(event.target.files ?? []);
+        event.target.value = '';
+        if (files.length === 0) return;
+        setLoadErrors([]);
         setIsLoadingFile(true);
-
-        if (file.type === 'application/pdf') {
-            if (!isPdfLibReady) {
-                alert("The PDF processing library is still loading. Please try again in a moment.");
-                setIsLoadingFile(false);
-                event.target.value = '';
-                return;
-            }
-
-            const pdfjs = (window as any).pdfjsLib;
-            const fileReader = new FileReader();
-            fileReader.onload = async (e) => {
-                const typedarray = new Uint8Array(e.target?.result as ArrayBuffer);
-                try {
-                    const pdf = await pdfjs.getDocument(typedarray).promise;
-                    setDocumentFile({ id: file.name, name: file.name, type: DocumentType.PDF, content: '', pdfDoc: pdf, file });
-                    setCurrentPage(1);
-                    const allPages = new Set<number>();
-                    for (let i = 1; i <= pdf.numPages; i++) allPages.add(i);
-                    setSelectedPages(allPages);
-                } catch (error) {
-                    console.error("Error processing PDF:", error);
-                    alert("Failed to process the PDF file. It might be corrupted or in an unsupported format.");
-                } finally {
-                    setIsLoadingFile(false);
-                }
-            };
-            fileReader.onerror = () => {
-                console.error("Failed to read the file.");
-                alert("An error occurred while reading the file.");
-                setIsLoadingFile(false);
-            };
-            fileReader.readAsArrayBuffer(file);
-        } else {
+        for (const file of files) {
             try {
-                const content = await file.text();
-                setDocumentFile({ id: file.name, name: file.name, type: DocumentType.TXT, content, file });
+                await loadFile(file);
             } catch (error) {
-                console.error("Error reading text file:", error);
-                alert("Failed to read the text file.");
-            } finally {
-                setIsLoadingFile(false);
+                console.error("Error loading document:", error);
+                const message = error instanceof DocumentLoadError ? error.message : `"${file.name}" could not be read.`;
+                setLoadErrors(prev => [...prev, message]);
             }
         }
+        setIsLoadingFile(false);
     };
 
     const handlePasteLoad = () => {
         if (!pastedContent.trim()) return;
-        resetDocumentState();
-        setDocumentFile({
+        addDocument({
             id: `paste-${Date.now()}`,
-            name: 'Pasted Content',
+            name: `Pasted Content ${documents.filter(d => d.type === DocumentType.PASTE).length + 1}`,
             type: DocumentType.PASTE,
             content: pastedContent,
         });
         setPastedContent('');
     };
-    
+
+    const setSelectedPages = (pages: Iterable<number>) => updateDocument(documentFile.id, { selectedPages: Array.from<number>(pages).sort((a, b) => a - b) });
+
     const handlePageSelection = (pageNum: number) => {
-        const newSelection = new Set(selectedPages);
+        const newSelection = new Set<number>(selectedPages);
         if(newSelection.has(pageNum)) {
             newSelection.delete(pageNum);
         } else {
@@ -215,174 +387,576 @@ const App: React.FC = () => {
 
     const handleSelectAllPages = () => {
         if (!documentFile.pdfDoc) return;
-        const allPages = new Set<number>();
-        for (let i = 1; i <= documentFile.pdfDoc.numPages; i++) allPages.add(i);
-        setSelectedPages(allPages);
+        setSelectedPages(Array.from({ length: documentFile.pdfDoc.numPages }, (_, i) => i + 1));
     };
 
-    const handleDeselectAllPages = () => setSelectedPages(new Set());
+    const handleDeselectAllPages = () => setSelectedPages([]);
     const handleZoomIn = () => setPdfZoom(z => Math.min(z + 0.25, 3.0));
     const handleZoomOut = () => setPdfZoom(z => Math.max(z - 0.25, 0.5));
 
-    const handleOcr = async () => {
-        if (!documentFile.pdfDoc || selectedPages.size === 0) return;
-        setIsOcrProcessing(true);
-        const pageTexts = [];
-        const sortedPages = Array.from(selectedPages).sort((a: number, b: number) => a - b);
+    const handleReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            setReplayFixture(parseReplayFixture(await file.text()));
+        } catch (error) {
+            alert(error instanceof Error ? error.message : String(error));
+        }
+    };
+
+    const handleSaveApiKey = async (key: StoredApiKey) => {
+        await saveApiKey(key);
+        setStoredApiKey(key);
+    };
+
+    const handleRemoveApiKey = async () => {
+        await clearApiKey();
+        setStoredApiKey(null);
+    };
+
+    const addSpend = (cost: number) => {
+        const day = new Date().toDateString();
+        setDailySpend(prev => ({ day, cost: (prev.day === day ? prev.cost : 0) + cost }));
+    };
+
+    // Returns whether the action may go ahead; with 'warn' the user decides, with 'block' it never does.
+    const budgetMessage = (violation: BudgetViolation) =>
+        `${violation.limit === 'perRun' ? T.budgetExceededRun : T.budgetExceededDay} (${formatUsd(violation.projected)} > ${formatUsd(violation.allowed)}).`;
+
+    const confirmWithinBudget = (cost: number): boolean => {
+        const violation = checkBudget(cost, usageBudget, spentToday);
+        if (!violation) return true;
+        const message = budgetMessage(violation);
+        if (usageBudget.onExceed === 'block') {
+            alert(message);
+            return false;
+        }
+        return window.confirm(`${message} ${T.continueAnyway}`);
+    };
+
+    // Actual usage once the agent has run, the pre-run estimate (over all run documents) before that.
+    const agentCostLabel = (agent: Agent): string | null => {
+        if (agent.usage) return `${T.actualCost}: ${agent.usage.totalTokens.toLocaleString()} ${T.tokens} · ${formatUsd(runCost([agent]))}`;
+        const estimate = costEstimates?.get(agent.id);
+        if (!estimate) return null;
+        return `${T.estimatedCost}: ~${(estimate.inputTokens + estimate.outputTokens).toLocaleString()} ${T.tokens} · ${formatUsd(estimate.cost)}`;
+    };
+
+    const handleDownloadRecording = () => {
+        if (!recorderRef.current) return;
+        downloadBlob(new Blob([JSON.stringify(recorderRef.current.toFixture(), null, 2)], { type: 'application/json' }), 'model-recording.json');
+    };
+
+    const setPageMode = (page: number, mode: PageExtractionMode | '') => updateDocument(documentFile.id, doc => {
+        const { [page]: _, ...rest } = doc.pageModes ?? {};
+        return { pageModes: mode ? { ...rest, [page]: mode } : rest };
+    });
 
-        for (const pageNum of sortedPages) {
+    // OCRs `pages` with bounded concurrency. A failed page is marked as such and never stops the others.
+    const runOcrPages = async ({ id, pdfDoc, fileHash }: DocumentFile, pages: number[], format: OcrOutputFormat) => {
+        const updatePage = (page: number, partial: Partial<PageExtraction>) => updateDocument(id, doc => ({
+            pageReport: doc.pageReport?.map(r => r.page === page ? { ...r, ...partial } : r),
+        }));
+        let ocrCost = 0;
+        await mapWithConcurrency(pages, OCR_CONCURRENCY, async page => {
+            updatePage(page, { status: 'running', error: undefined });
             try {
-                const page = await documentFile.pdfDoc.getPage(pageNum);
-                const viewport = page.getViewport({ scale: 2.0 });
-                const canvas = document.createElement('canvas');
-                canvas.height = viewport.height;
-                canvas.width = viewport.width;
-                const context = canvas.getContext('2d');
-                await page.render({ canvasContext: context!, viewport }).promise;
-                const base64Data = canvas.toDataURL('image/jpeg').split(',')[1];
-                const ocrText = await performOcr(base64Data);
-                pageTexts.push(`--- Page ${pageNum} ---\n${ocrText}`);
+                const result = await ocrPage(pdfDoc, fileHash!, page, format);
+                if (result.usage) ocrCost += usageCost(OCR_MODEL, result.usage);
+                updatePage(page, { status: 'done', text: result.text, blocks: result.blocks, characters: result.text.length });
             } catch (err) {
-                pageTexts.push(`--- Page ${pageNum} ---\n[OCR Failed]`);
                 console.error(err);
-                break;
+                updatePage(page, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
             }
+        });
+        addSpend(ocrCost);
+        updateDocument(id, doc => doc.pageReport
+            ? { content: formatExtractedContent(doc.pageReport), structuredContent: formatStructuredContent(doc.pageReport) }
+            : {});
+    };
+
+    // The PDF text layer is read first; only pages without usable text (or set to 'ocr') are sent to OCR, and
+    // pages already OCRed for this file come from the cache. The PDF stays loaded next to the extracted text.
+    const handleExtractPages = async () => {
+        if (!documentFile.pdfDoc || !documentFile.fileHash || selectedPages.size === 0) return;
+        const doc = documentFile;
+        const { pdfDoc, fileHash } = doc;
+        const sortedPages = Array.from<number>(selectedPages).sort((a, b) => a - b);
+        setLoadErrors([]);
+        updateDocument(doc.id, { isExtracting: true });
+        try {
+            let layers: TextLayerPage[];
+            let cached: Map<number, CachedOcrPage>;
+            try {
+                layers = await readTextLayers(pdfDoc, sortedPages, page => pageModes[page] ?? extractionMode);
+                cached = await getCachedOcrPages(fileHash, layers.filter(l => l.needsOcr).map(l => l.page), ocrFormat);
+            } catch (error) {
+                console.error("Error reading pages:", error);
+                setLoadErrors([`The pages of "${doc.name}" could not be read: ${error instanceof Error ? error.message : String(error)}`]);
+                return;
+            }
+            const missing = layers.filter(l => l.needsOcr && !cached.has(l.page)).map(l => l.page);
+            if (missing.length > 0 && needsApiKey) {
+                setIsApiKeyDialogOpen(true);
+                return;
+            }
+            if (missing.length > 0 && !confirmWithinBudget(estimateOcrCost(missing.length).cost)) return;
+
+            const report: PageExtraction[] = layers.map((layer): PageExtraction => {
+                if (!layer.needsOcr) return { page: layer.page, method: 'text', status: 'done', text: layer.text, characters: layer.text.length };
+                const hit = cached.get(layer.page);
+                return hit
+                    ? { page: layer.page, method: 'ocr', status: 'done', text: hit.text, blocks: hit.blocks, characters: hit.text.length, cached: true }
+                    : { page: layer.page, method: 'ocr', status: 'queued', text: '', characters: 0 };
+            });
+            updateDocument(doc.id, { content: formatExtractedContent(report), structuredContent: formatStructuredContent(report), pageReport: report });
+            await runOcrPages(doc, missing, ocrFormat);
+        } finally {
+            updateDocument(doc.id, { isExtracting: false });
+        }
+    };
+
+    const handleRetryPage = async (page: number) => {
+        if (!documentFile.pdfDoc || !documentFile.fileHash) return;
+        if (needsApiKey) {
+            setIsApiKeyDialogOpen(true);
+            return;
+        }
+        if (!confirmWithinBudget(estimateOcrCost(1).cost)) return;
+        const doc = documentFile;
+        updateDocument(doc.id, { isExtracting: true });
+        try {
+            await runOcrPages(doc, [page], ocrFormat);
+        } finally {
+            updateDocument(doc.id, { isExtracting: false });
         }
-        setDocumentFile(prev => ({ ...prev, content: pageTexts.join('\n\n'), type: DocumentType.TXT, pdfDoc: null }));
-        setIsOcrProcessing(false);
     };
 
     const updateAgent = (id: string, field: keyof Agent, value: any) => {
         setAgents(prev => prev.map(agent => (agent.id === id ? { ...agent, [field]: value } : agent)));
     };
     
-    const handleAgentTemplateAdd = (template: Omit<Agent, 'id' | 'status' | 'output'| 'error' | 'outputJson' | 'model'>) => {
+    const handleAgentTemplateAdd = (template: AgentTemplate) => {
+      const { libraryId, ...config } = template;
       const newAgent: Agent = {
-        ...template,
+        ...config,
         id: `agent-${Date.now()}`,
         status: AgentStatus.Pending,
         output: null, error: null, outputJson: null,
-        model: MODEL_OPTIONS[0].value,
+        model: template.model ?? MODEL_OPTIONS[0].value,
       };
       setAgents(prev => [...prev, newAgent]);
     }
 
-    const deleteAgent = (id: string) => setAgents(prev => prev.filter(a => a.id !== id));
+    const handleBuilderSubmit = (draft: AgentDraft, saveToLibrary: boolean) => {
+        if (builderTarget?.agentId) {
+            setAgents(prev => prev.map(a => a.id === builderTarget.agentId ? { ...a, ...draft } : a));
+        } else {
+            handleAgentTemplateAdd(draft);
+        }
+        if (saveToLibrary) {
+            setAgentLibrary(prev => [...prev.filter(t => t.name !== draft.name), { ...draft, libraryId: `lib-${Date.now()}` }]);
+        }
+        setBuilderTarget(null);
+    };
+
+    // Workflow-specific settings (id, upstream inputs) stay on the agent and out of the builder and library.
+    const builderInitial = (): AgentDraft | undefined => {
+        const agent = agents.find(a => a.id === builderTarget?.agentId);
+        if (!agent) return undefined;
+        const { id: _id, inputs: _inputs, ...draft } = toAgentConfig(agent);
+        return draft;
+    };
+
+    const updateAgentPrompt = (agent: Agent, prompt: string) => {
+        const variables = syncVariables(agent.variables ?? [], extractVariableNames(agent.systemInstruction, prompt));
+        setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, prompt, variables: variables.length > 0 ? variables : undefined } : a));
+    };
+
+    const deleteAgent = (id: string) => setAgents(prev => prev
+        .filter(a => a.id !== id)
+        .map(a => a.inputs ? { ...a, inputs: { ...a.inputs, upstream: a.inputs.upstream.filter(u => u !== id) } } : a));
+
+    const toggleAgentInput = (agent: Agent, source: 'document' | 'structuredDocument' | string) => {
+        const inputs = getAgentInputs(agent);
+        if (source === 'document') {
+            updateAgent(agent.id, 'inputs', { ...inputs, document: !inputs.document });
+        } else if (source === 'structuredDocument') {
+            updateAgent(agent.id, 'inputs', { ...inputs, structuredDocument: !inputs.structuredDocument });
+        } else {
+            const upstream = inputs.upstream.includes(source) ? inputs.upstream.filter(u => u !== source) : [...inputs.upstream, source];
+            updateAgent(agent.id, 'inputs', { ...inputs, upstream });
+        }
+    };
     
-    const runWorkflow = useCallback(async () => {
-        if (!documentFile.content || agents.length === 0) return;
+    const comparisonName = (docs: DocumentFile[]) => `${T.comparison}: ${docs.map(d => d.name).join(', ')}`;
+
+    // Agent cards show the run state for the document on screen; comparison agents show the comparison.
+    // Without results (e.g. a run opened from history) the agent itself carries its state.
+    const resultFor = (agent: Agent): Agent =>
+        runResults[isCompareAgent(agent) ? COMPARE_GROUP : documentFile.id]?.find(a => a.id === agent.id) ?? agent;
+
+    const resultGroups = useMemo<ResultGroup[]>(() => Object.entries(runResults).map(([id, groupAgents]) => ({
+        id,
+        name: id === COMPARE_GROUP ? T.comparison : documents.find(d => d.id === id)?.name ?? id,
+        agents: groupAgents,
+    })), [runResults, documents, T]);
+
+    // The widgets of each dashboard group that have an agent output to show.
+    const dashboardSections = useMemo(() => dashboardGroups
+        .map(group => ({
+            ...group,
+            widgets: (dashboardLayout ?? group.agents.flatMap(suggestWidgets)).flatMap(widget => {
+                const source = widgetSource(widget, group.agents);
+                return source ? [{ widget, output: source.outputJson, sources: source.sources }] : [];
+            }),
+        }))
+        .filter(group => group.widgets.length > 0), [dashboardGroups, dashboardLayout]);
+
+    const runWorkflow = useCallback(async (workflowAgents: Agent[] = agents) => {
+        if (runDocuments.length === 0 || workflowAgents.length === 0) return;
+        const docs = runDocuments;
+        try {
+            const estimate = totalEstimate([...(await estimateWorkspaceCost(workflowAgents, docs)).values(), await estimateFollowUpCost(workflowAgents, docs)]);
+            if (!confirmWithinBudget(estimate.cost)) return;
+        } catch (error) {
+            // Graph errors are reported by executeWorkspace below; a failed count alone should not block the run.
+            console.error("Failed to estimate cost:", error);
+        }
+        const runStartedAt = Date.now();
         setIsProcessing(true);
-        setAnalysisResult(null);
+        setDashboardGroups([]);
         setFollowUpQuestions(null);
+        setWorkflowError(null);
 
-        const agentsToRun = agents.map(a => ({ ...a, status: AgentStatus.Pending, output: null, error: null, outputJson: null }));
+        const agentsToRun = workflowAgents.map(a => ({ ...a, status: AgentStatus.Pending, output: null, error: null, outputJson: null, chunks: undefined, usage: undefined, embeddedCharacters: undefined, sources: undefined }));
         setAgents(agentsToRun);
+        const perDocumentAgents = agentsToRun.filter(a => !isCompareAgent(a));
+        const compareAgents = agentsToRun.filter(isCompareAgent);
+        setRunResults({
+            ...Object.fromEntries(docs.map(d => [d.id, perDocumentAgents])),
+            ...(compareAgents.length > 0 ? { [COMPARE_GROUP]: compareAgents } : {}),
+        });
 
-        const agentOutputsForFollowup: string[] = [];
-        let finalAgentsState = [...agentsToRun];
+        workflowAbortRef.current = new AbortController();
+        agentAbortRefs.current = new Map(agentsToRun.map(a => [a.id, new AbortController()]));
 
-        for (let i = 0; i < agentsToRun.length; i++) {
-            const agent = agentsToRun[i];
-            
-            setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, status: AgentStatus.Running } : a));
+        try {
+            let results: Map<string, Agent[]>;
+            try {
+                results = await executeWorkspace(agentsToRun, docs, {
+                    policy: workflowPolicy,
+                    onAgentUpdate: (group, id, update) => setRunResults(prev => ({ ...prev, [group]: (prev[group] ?? []).map(a => a.id === id ? { ...a, ...update } : a) })),
+                    signal: workflowAbortRef.current.signal,
+                    agentSignal: id => agentAbortRefs.current.get(id)?.signal,
+                });
+            } finally {
+                workflowAbortRef.current = null;
+            }
+            const groups = Array.from(results.entries()).map(([groupId, groupAgents]) => {
+                const isComparison = groupId === COMPARE_GROUP;
+                const doc = docs.find(d => d.id === groupId);
+                return {
+                    groupId,
+                    agents: groupAgents,
+                    name: isComparison ? comparisonName(docs) : doc!.name,
+                    content: isComparison ? combineDocuments(docs) : doc!.content,
+                };
+            });
+            addSpend(runCost(groups.flatMap(g => g.agents)));
+
+            setDashboardGroups(groups.map(g => ({ id: g.groupId, name: g.name, agents: g.agents })));
 
+            // Outputs are labelled with their document once there is more than one.
+            const agentOutputsForFollowup = groups.flatMap(g => g.agents
+                .filter(a => a.status === AgentStatus.Success)
+                .map(a => `--- Agent: ${a.name}${groups.length > 1 ? ` (${g.name})` : ''} ---\n${a.output}`));
+            let questions: string | null = null;
             try {
-                const output = await runAgent(agent, documentFile.content);
-                agentOutputsForFollowup.push(`--- Agent: ${agent.name} ---\n${output}`);
+                if (agentOutputsForFollowup.length > 0) {
+                    const response = await generateFollowUpQuestions(docs.length === 1 ? docs[0].content : combineDocuments(docs), agentOutputsForFollowup.join('\n\n'));
+                    if (response.usage) addSpend(usageCost(ASSISTANT_MODEL, response.usage));
+                    questions = response.text;
+                    setFollowUpQuestions(questions);
+                }
+            } catch (error) {
+                console.error("Failed to get follow-up questions:", error);
+            }
 
-                let outputJson = null;
+            // One history entry per document (and one for the comparison), so each shows up under its own document.
+            for (const group of groups) {
                 try {
-                    const jsonMatch = output.match(/```json\n([\s\S]*?)\n```/);
-                    if (jsonMatch?.[1]) {
-                        outputJson = JSON.parse(jsonMatch[1]);
-                    }
-                } catch (e) {
-                    console.error("Failed to parse agent JSON output:", e);
+                    await saveRun({
+                        id: `run-${runStartedAt}-${group.groupId}`,
+                        createdAt: runStartedAt,
+                        durationMs: Date.now() - runStartedAt,
+                        documentHash: await hashText(group.content),
+                        documentName: group.name,
+                        agents: group.agents,
+                        dashboard: dashboardLayout,
+                        followUpQuestions: questions,
+                    });
+                } catch (error) {
+                    console.error("Failed to save run to history:", error);
                 }
-                
-                const successfulUpdate = { status: AgentStatus.Success, output, outputJson, error: null };
-                finalAgentsState = finalAgentsState.map(a => a.id === agent.id ? { ...a, ...successfulUpdate } : a);
-                setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, ...successfulUpdate } : a));
-
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-                const errorUpdate = { status: AgentStatus.Error, error: errorMessage };
-                finalAgentsState = finalAgentsState.map(a => a.id === agent.id ? { ...a, ...errorUpdate } : a);
-                setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, ...errorUpdate } : a));
-                break; 
             }
+        } catch (error) {
+            // A graph error (a cycle, an unknown agent) means nothing ran. Anything else must still end the run,
+            // or the app would stay busy with no way to start another one.
+            if (error instanceof WorkflowGraphError) setRunResults({});
+            else console.error("Workflow run failed:", error);
+            setWorkflowError(error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsProcessing(false);
         }
+    }, [agents, runDocuments, workflowPolicy, usageBudget, dailySpend, dashboardLayout, T]);
 
-        const successfulAgents = finalAgentsState.filter(a => a.status === AgentStatus.Success);
-        if (successfulAgents.length > 0) {
-            const sentimentAgent = successfulAgents.find(a => a.name === 'Sentiment Analyzer');
-            const entityAgent = successfulAgents.find(a => a.name === 'Entity Extractor');
-            let newAnalysis: AnalysisResult = { sentiment: null, entities: null };
-
-            if (sentimentAgent?.outputJson?.sentiment) {
-                const s = String(sentimentAgent.outputJson.sentiment).toLowerCase();
-                if (s === 'positive') newAnalysis.sentiment = { positive: 1, negative: 0, neutral: 0 };
-                else if (s === 'negative') newAnalysis.sentiment = { positive: 0, negative: 1, neutral: 0 };
-                else newAnalysis.sentiment = { positive: 0, negative: 0, neutral: 1 };
-            }
-            if (entityAgent?.outputJson && Array.isArray(entityAgent.outputJson)) {
-                newAnalysis.entities = entityAgent.outputJson.filter(e => e && typeof e.name === 'string' && typeof e.type === 'string');
-            }
-            if (newAnalysis.sentiment || (newAnalysis.entities && newAnalysis.entities.length > 0)) {
-                setAnalysisResult(newAnalysis);
-            }
+    // Workflows with prompt variables ask for their values first.
+    const requestRun = () => {
+        if (agents.some(a => a.variables?.length)) {
+            setVariablesTarget('workflow');
+        } else {
+            runWorkflow();
         }
+    };
+
+    const handleVariablesConfirm = (agentsWithValues: Agent[]) => {
+        const target = variablesTarget;
+        setVariablesTarget(null);
+        if (target === 'batch') runBatch(agentsWithValues);
+        else runWorkflow(agentsWithValues);
+    };
 
+    const addBatchFiles = (files: File[]) => setBatchItems(prev => [
+        ...prev,
+        ...files.map((file, i) => ({ id: `batch-${Date.now()}-${i}`, name: file.webkitRelativePath || file.name, file, status: 'queued' as const })),
+    ]);
+
+    // Every file is one run: it gets its own history entry and is checked against the per-run budget. A budget
+    // set to warn asks once, and the answer holds for the rest of the batch.
+    const runBatch = async (workflowAgents: Agent[] = agents) => {
+        if (batchItems.length === 0 || isProcessing) return;
+        const queue: BatchItem[] = batchItems.map(item => ({ ...item, status: 'queued', error: undefined, agents: undefined, cost: undefined }));
+        setBatchItems(queue);
+        setIsBatchRunning(true);
+        setBatchError(null);
+        batchAbortRef.current = new AbortController();
+        const batchStartedAt = Date.now();
+        let spent = spentToday;
+        let overBudgetAnswer: boolean | null = null;
         try {
-            if (agentOutputsForFollowup.length > 0) {
-                const questions = await generateFollowUpQuestions(documentFile.content, agentOutputsForFollowup.join('\n\n'));
-                setFollowUpQuestions(questions);
-            }
+            await executeBatch(workflowAgents, queue, {
+                policy: workflowPolicy,
+                ocr: batchOcr,
+                ocrFormat,
+                signal: batchAbortRef.current.signal,
+                approveCost: cost => {
+                    const violation = checkBudget(cost, usageBudget, spent);
+                    if (!violation) return true;
+                    if (usageBudget.onExceed === 'block') return false;
+                    overBudgetAnswer ??= window.confirm(`${budgetMessage(violation)} ${T.batchBudgetWarning} ${T.continueAnyway}`);
+                    return overBudgetAnswer;
+                },
+                onItemUpdate: (id, update) => {
+                    if (update.cost) {
+                        spent += update.cost;
+                        addSpend(update.cost);
+                    }
+                    setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...update } : item));
+                },
+                onAgentUpdate: (itemId, agentId, update) => setBatchItems(prev => prev.map(item => item.id === itemId
+                    ? { ...item, agents: item.agents?.map(a => a.id === agentId ? { ...a, ...update } : a) }
+                    : item)),
+                onItemFinished: async (item, content) => {
+                    try {
+                        await saveRun({
+                            id: `run-${batchStartedAt}-${item.id}`,
+                            createdAt: batchStartedAt,
+                            durationMs: Date.now() - batchStartedAt,
+                            documentHash: await hashText(content),
+                            documentName: item.name,
+                            agents: item.agents ?? [],
+                            dashboard: dashboardLayout,
+                            followUpQuestions: null,
+                        });
+                    } catch (error) {
+                        console.error("Failed to save run to history:", error);
+                    }
+                },
+            });
         } catch (error) {
-            console.error("Failed to get follow-up questions:", error);
+            if (!(error instanceof WorkflowGraphError)) console.error("Batch run failed:", error);
+            setBatchError(error instanceof Error ? error.message : String(error));
+        } finally {
+            batchAbortRef.current = null;
+            setIsBatchRunning(false);
         }
+    };
 
-        setIsProcessing(false);
-    }, [agents, documentFile.content]);
+    const requestBatchRun = () => {
+        if (needsApiKey) {
+            setIsApiKeyDialogOpen(true);
+        } else if (agents.some(a => a.variables?.length)) {
+            setVariablesTarget('batch');
+        } else {
+            runBatch();
+        }
+    };
 
-    const addKeywordHandler = () => {
-        if (!newKeyword.text.trim()) return;
-        setKeywords(prev => [...prev, { ...newKeyword, id: `kw-${Date.now()}` }]);
-        setNewKeyword(prev => ({ ...prev, text: '' }));
+    // The whole evaluation is checked against the per-run budget; grading by the LLM judge is not estimated.
+    const runAgentEvaluation = async (agent: Agent, dataset: EvalDataset, onResult: (result: EvalCaseResult) => void, signal: AbortSignal) => {
+        if (!confirmWithinBudget(await estimateEvaluationCost(agent, dataset))) return null;
+        return runEvaluation(agent, dataset, {
+            policy: workflowPolicy,
+            signal,
+            onResult: result => {
+                addSpend(result.cost);
+                onResult(result);
+            },
+        });
     };
-    
-    const removeKeyword = (id: string) => {
-        setKeywords(prev => prev.filter(kw => kw.id !== id));
-    };
-
-    const handleDownload = async (type: 'md' | 'pdf') => {
-        if (!interactiveContentRef.current) return;
-        const filename = `${documentFile.name.replace(/\.[^/.]+$/, "")}_processed`;
-        if (type === 'md') {
-            const markdown = documentFile.content;
-            const blob = new Blob([markdown], { type: 'text/markdown' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `${filename}.md`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
-        } else if (type === 'pdf') {
-            const canvas = await html2canvas(interactiveContentRef.current, { scale: 2 });
-            const imgData = canvas.toDataURL('image/png');
-            const pdf = new jsPDF('p', 'mm', 'a4');
-            const pdfWidth = pdf.internal.pageSize.getWidth();
-            const pdfHeight = pdf.internal.pageSize.getHeight();
-            const imgWidth = canvas.width;
-            const imgHeight = canvas.height;
-            const ratio = Math.min(pdfWidth / imgWidth, pdfHeight / imgHeight);
-            const imgX = (pdfWidth - imgWidth * ratio) / 2;
-            const imgY = 10;
-            pdf.addImage(imgData, 'PNG', imgX, imgY, imgWidth * ratio, imgHeight * ratio);
-            pdf.save(`${filename}.pdf`);
+
+    const handleSaveTemplate = (name: string) => {
+        const existing = workflowTemplates.find(t => t.name === name);
+        const template = createTemplate(name, agents, workflowPolicy, dashboardLayout, existing);
+        setWorkflowTemplates(prev => existing ? prev.map(t => t.id === existing.id ? template : t) : [...prev, template]);
+    };
+
+    const handleLoadTemplate = (template: WorkflowTemplate) => {
+        const loaded = instantiateTemplate(template);
+        setAgents(loaded);
+        setDashboardLayout(instantiateDashboard(template, loaded));
+        if (template.runPolicy) setWorkflowPolicy(template.runPolicy);
+        setWorkflowError(null);
+    };
+
+    const handleDuplicateTemplate = (template: WorkflowTemplate) => {
+        setWorkflowTemplates(prev => [...prev, { ...template, id: `template-${Date.now()}`, name: `${template.name} (copy)`, version: 1, updatedAt: Date.now() }]);
+    };
+
+    const handleDeleteTemplate = (id: string) => setWorkflowTemplates(prev => prev.filter(t => t.id !== id));
+
+    // Imported templates never overwrite existing ones; an id clash gets a fresh id instead.
+    const handleImportTemplates = (imported: WorkflowTemplate[]) => {
+        setWorkflowTemplates(prev => {
+            const ids = new Set(prev.map(t => t.id));
+            return [...prev, ...imported.map((t, i) => ids.has(t.id) ? { ...t, id: `template-${Date.now()}-${i}` } : t)];
+        });
+    };
+
+    const handleOpenRun = (run: RunSnapshot) => {
+        setAgents(run.agents);
+        setRunResults({});
+        setDashboardGroups([{ id: run.id, name: run.documentName, agents: run.agents }]);
+        setDashboardLayout(run.dashboard ?? null);
+        setFollowUpQuestions(run.followUpQuestions);
+        setWorkflowError(null);
+        setIsHistoryOpen(false);
+    };
+
+    const stopWorkflow = () => workflowAbortRef.current?.abort();
+    const stopAgent = (id: string) => agentAbortRefs.current.get(id)?.abort();
+
+    const handleAsk = async (question: string) => {
+        if (!documentFile.content || isAnswering) return;
+        const history = chatMessages.filter(m => !m.isError);
+        setChatMessages(prev => [...prev, { id: `msg-${Date.now()}`, role: 'user', text: question }]);
+        setIsAnswering(true);
+        try {
+            const agentOutputs = agents.map(resultFor)
+                .filter(a => a.status === AgentStatus.Success)
+                .map(a => `--- Agent: ${a.name} ---\n${a.output}`)
+                .join('\n\n');
+            const { answer, citations, usage } = await askDocument(documentFile.content, agentOutputs, history, question);
+            if (usage) addSpend(usageCost(ASSISTANT_MODEL, usage));
+            setChatMessages(prev => [...prev, {
+                id: `msg-${Date.now()}`,
+                role: 'model',
+                text: answer,
+                citations: citations.map(c => resolveCitation(documentFile.content, c.page, c.quote)),
+            }]);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            setChatMessages(prev => [...prev, { id: `msg-${Date.now()}`, role: 'model', text: errorMessage, isError: true }]);
+        } finally {
+            setIsAnswering(false);
+        }
+    };
+
+    const handleCitationClick = (citation: Citation) => {
+        if (citation.span) setActiveSpan({ ...citation.span });
+        // The PDF is kept after extraction, so the viewer can show the cited page too.
+        if (citation.page && documentFile.pdfDoc && citation.page <= documentFile.pdfDoc.numPages) setCurrentPage(citation.page);
+    };
+
+    // Source spans are offsets into the plain text. Those of comparison agents point into the combined documents,
+    // so their quote is looked up in the document on screen instead.
+    const handleSourceClick = (citation: SourceCitation, fromComparison: boolean) => {
+        setDocumentView('text');
+        handleCitationClick(fromComparison ? { ...citation, span: locateQuote(documentFile.content, citation.quote) } : citation);
+    };
+
+    // A dashboard value jumps to the verified citation whose claim mentions it, or else to where the value itself
+    // occurs in the document.
+    const handleWidgetSelect = (text: string, sources: SourceCitation[] | undefined, fromComparison: boolean) => {
+        const needle = text.trim().toLowerCase();
+        if (!needle) return;
+        const verified = (sources ?? []).filter(c => c.verified);
+        const citation = verified.find(c => c.claim.trim().toLowerCase() === needle)
+            ?? verified.find(c => c.claim.toLowerCase().includes(needle) || c.quote.toLowerCase().includes(needle));
+        if (citation) {
+            handleSourceClick(citation, fromComparison);
+            return;
         }
+        const span = locateQuote(documentFile.content, text);
+        if (span) handleSourceClick({ claim: text, quote: text, page: null, span, verified: true }, false);
+    };
+
+    // Hits are offsets into the plain text, so the plain-text view is shown.
+    const handleSearchHit = (hit: SearchHit) => {
+        setDocumentView('text');
+        setActiveSpan({ start: hit.start, end: hit.end });
+        if (hit.page && documentFile.pdfDoc && hit.page <= documentFile.pdfDoc.numPages) setCurrentPage(hit.page);
+    };
+
+    // Steps through one keyword's occurrences, wrapping around, by marking the occurrence as the active span.
+    const navigateKeyword = (keywordId: string, step: 1 | -1) => {
+        const occurrences = keywordMatches.byKeyword.get(keywordId) ?? [];
+        if (occurrences.length === 0) return;
+        const from = currentKeywordMatch?.keywordId === keywordId ? currentKeywordMatch.index : step === 1 ? -1 : 0;
+        const index = (from + step + occurrences.length) % occurrences.length;
+        setKeywordCursor({ keywordId, index });
+        setDocumentView('text');
+        setActiveSpan({ start: occurrences[index].start, end: occurrences[index].end });
+    };
+
+    const exportTableCsv = (csv: string, page: number, tableIndex: number) => {
+        const filename = documentFile.name.replace(/\.[^/.]+$/, "");
+        downloadBlob(new Blob([csv], { type: 'text/csv' }), `${filename}_page${page}_table${tableIndex + 1}.csv`);
+    };
+
+    const downloadProcessedMarkdown = () => {
+        // Layout OCR keeps tables and headings as Markdown; plain extraction is already valid Markdown text.
+        const markdown = documentFile.structuredContent ?? documentFile.content;
+        downloadBlob(new Blob([markdown], { type: 'text/markdown' }), `${documentFile.name.replace(/\.[^/.]+$/, "")}_processed.md`);
+    };
+
+    // The report covers the document on screen: its dashboard group and the comparison. A run opened from
+    // history has a single group of its own.
+    const exportReport = async (format: ReportFormat) => {
+        const sections = dashboardSections.filter(s => s.id === documentFile.id || s.id === COMPARE_GROUP);
+        const report = buildReport({
+            document: documentFile,
+            agents: agents.map(resultFor),
+            dashboard: (sections.length > 0 ? sections : dashboardSections).map(({ name, widgets }) => ({ name, widgets })),
+            followUpQuestions,
+            keywords,
+            keywordMatches,
+            generatedAt: new Date(),
+        }, reportTemplate, T);
+        const blob = await renderReport(report, format);
+        downloadBlob(blob, `${documentFile.name.replace(/\.[^/.]+$/, "")}_report.${REPORT_FORMATS[format].extension}`);
     };
 
 
@@ -396,6 +970,11 @@ const App: React.FC = () => {
                         <h1 className="text-xl font-bold">{T.title}</h1>
                     </div>
                     <div className='flex items-center gap-2 md:gap-4'>
+                        <button onClick={() => setIsApiKeyDialogOpen(true)} title={T.apiKeySettings} className={`p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${needsApiKey ? 'animate-pulse' : ''}`}><KeyIcon className={`w-5 h-5 ${needsApiKey ? 'text-red-500' : 'text-gray-600 dark:text-gray-300'}`}/></button>
+                        <button onClick={() => setIsBatchOpen(true)} title={T.batch} className={`p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${isBatchRunning ? 'animate-pulse' : ''}`}><StackIcon className="w-5 h-5 text-gray-600 dark:text-gray-300"/></button>
+                        <button onClick={() => setIsRedactionOpen(true)} title={T.redaction} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"><ShieldIcon className={`w-5 h-5 ${redactionSettings.enabled ? 'text-primary' : 'text-gray-600 dark:text-gray-300'}`}/></button>
+                        <button onClick={() => setIsEvalOpen(true)} title={T.evaluation} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"><BeakerIcon className="w-5 h-5 text-gray-600 dark:text-gray-300"/></button>
+                        <button onClick={() => setIsHistoryOpen(true)} title={T.runHistory} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"><ClockIcon className="w-5 h-5 text-gray-600 dark:text-gray-300"/></button>
                         <div className="relative group">
                            <button className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"><SettingsIcon className="w-5 h-5 text-gray-600 dark:text-gray-300"/></button>
                             <div className="absolute top-full right-0 mt-2 w-64 bg-white dark:bg-gray-800 rounded-lg shadow-xl p-4 border border-gray-200 dark:border-gray-700 opacity-0 group-hover:opacity-100 invisible group-hover:visible transition-all duration-200 transform scale-95 group-hover:scale-100 z-50">
@@ -409,6 +988,23 @@ const App: React.FC = () => {
                                         <LanguageIcon className="w-5 h-5 text-primary"/><span className="flex-grow">{T.language}</span>
                                         <select value={lang} onChange={e => setLang(e.target.value as Language)} className="text-xs bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md p-1"><option value="en">English</option><option value="zh-TW">繁體中文</option></select>
                                     </label>
+                                    <label className="flex items-center gap-2 text-sm">
+                                        <SettingsIcon className="w-5 h-5 text-primary"/><span className="flex-grow">{T.modelProvider}</span>
+                                        <select value={providerId} onChange={e => setProviderId(e.target.value as ProviderId)} className="text-xs bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md p-1">{PROVIDER_IDS.map(id => <option key={id} value={id}>{id === 'mock' ? T.providerMock : T.providerGemini}</option>)}</select>
+                                    </label>
+                                    {providerId === 'mock' && (
+                                        <label className="block text-xs text-primary hover:underline cursor-pointer">
+                                            {replayFixture ? `${T.replayLoaded} (${replayFixture.entries.length})` : T.loadReplayFile}
+                                            <input type="file" accept=".json" onChange={handleReplayFile} className="hidden" />
+                                        </label>
+                                    )}
+                                    <div className="flex items-center justify-between text-xs">
+                                        <label className="flex items-center gap-1">
+                                            <input type="checkbox" checked={isRecording} onChange={e => setIsRecording(e.target.checked)} className="h-3 w-3 rounded text-primary focus:ring-primary" />
+                                            {T.recordResponses}
+                                        </label>
+                                        {recorderRef.current && <button onClick={handleDownloadRecording} className="text-primary hover:underline">{`${T.downloadRecording} (${recorderRef.current.entryCount})`}</button>}
+                                    </div>
                                     <div className="flex items-center justify-between text-sm">
                                         <span className="flex items-center gap-2"><SunIcon className="w-5 h-5 text-primary"/>{T.mode}</span>
                                         <div className="flex items-center p-0.5 bg-gray-200 dark:bg-gray-700 rounded-full">
@@ -429,7 +1025,7 @@ const App: React.FC = () => {
                     <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md">
                         <div className="flex justify-between items-center mb-4">
                             <h2 className="text-lg font-semibold flex items-center gap-2"><FileTextIcon /> {T.documentControl}</h2>
-                            {documentFile.type !== DocumentType.EMPTY && (
+                            {documents.length > 0 && (
                                 <button onClick={resetAppState} className="text-xs text-red-500 hover:underline">{T.clearAndReset}</button>
                             )}
                         </div>
@@ -442,7 +1038,7 @@ const App: React.FC = () => {
                                 ) : (
                                     <p className="mt-1 text-xs text-yellow-500 animate-pulse">PDF library loading...</p>
                                 )}
-                                <input type="file" onChange={handleFileChange} accept=".pdf,.txt,.md,.json,.csv" className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                                <input type="file" multiple onChange={handleFileChange} accept={ACCEPTED_EXTENSIONS} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
                             </div>
                             <div>
                                 <h3 className="text-sm font-medium mb-2">{T.pasteContent}</h3>
@@ -450,18 +1046,29 @@ const App: React.FC = () => {
                                 <button onClick={handlePasteLoad} className="w-full mt-2 px-4 py-2 text-sm bg-primary/10 text-primary font-semibold rounded-lg hover:bg-primary/20">{T.loadPastedContent}</button>
                             </div>
                         </div>
+                        {loadErrors.map((error, i) => <p key={i} className="mt-4 p-3 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 rounded-lg">{error}</p>)}
                         {isLoadingFile && (
                             <div className="mt-4 text-center">
                                 <p className="text-sm animate-pulse text-gray-600 dark:text-gray-400">{T.loadingDocument}</p>
                             </div>
                         )}
-                        {!isLoadingFile && documentFile.type !== DocumentType.EMPTY && (
-                            <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm space-y-1">
-                                <p className="font-medium truncate" title={documentFile.name}>{documentFile.name}</p>
-                                <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
-                                    <span>{T.fileType}: <span className="font-semibold text-gray-700 dark:text-gray-300">{documentFile.type}</span></span>
-                                    {documentFile.file && <span>{T.fileSize}: <span className="font-semibold text-gray-700 dark:text-gray-300">{(documentFile.file.size / 1024).toFixed(2)} KB</span></span>}
-                                </div>
+                        {documents.length > 0 && (
+                            <div className="mt-4">
+                                <h3 className="text-sm font-medium mb-2">{`${T.workspace} (${documents.length})`}</h3>
+                                <ul className="space-y-1">
+                                    {documents.map(doc => (
+                                        <li key={doc.id} className={`flex items-center gap-2 p-2 rounded-lg text-sm ${doc.id === activeDocumentId ? 'bg-primary/10 ring-1 ring-primary' : 'bg-gray-50 dark:bg-gray-700/50'}`}>
+                                            <input type="checkbox" checked={runDocumentIds.includes(doc.id)} onChange={() => toggleRunDocument(doc.id)} title={T.includeInRun} className="h-4 w-4 rounded text-primary focus:ring-primary" />
+                                            <button onClick={() => selectDocument(doc.id)} className="flex-grow min-w-0 text-left">
+                                                <p className="font-medium truncate" title={doc.name}>{doc.name}</p>
+                                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                    {doc.type}{doc.file ? ` · ${(doc.file.size / 1024).toFixed(2)} KB` : ''}{doc.isExtracting ? ` · ${T.extracting}` : !doc.content ? ` · ${T.notExtracted}` : ''}
+                                                </p>
+                                            </button>
+                                            <button onClick={() => removeDocument(doc.id)} disabled={isProcessing} title={T.removeDocument} className="text-gray-400 hover:text-red-500 disabled:opacity-40"><TrashIcon className="w-4 h-4"/></button>
+                                        </li>
+                                    ))}
+                                </ul>
                             </div>
                         )}
                     </div>
@@ -474,8 +1081,29 @@ const App: React.FC = () => {
                                 <span>{template.name}</span>
                               </button>
                           ))}
+                          {agentLibrary.length > 0 && <h3 className="mt-2 text-xs font-medium text-gray-500 dark:text-gray-400">{T.myAgents}</h3>}
+                          {agentLibrary.map(template => (
+                              <div key={template.libraryId} className="flex items-center gap-2 p-2 bg-gray-100 dark:bg-gray-700 hover:bg-primary/10 rounded-md text-sm">
+                                <button onClick={() => handleAgentTemplateAdd(template)} className="flex items-center gap-2 flex-grow text-left">
+                                    <PlusIcon className="w-4 h-4 text-primary flex-shrink-0"/>
+                                    <span>{template.name}</span>
+                                </button>
+                                <button onClick={() => setAgentLibrary(prev => prev.filter(t => t.libraryId !== template.libraryId))} className="text-gray-400 hover:text-red-500"><TrashIcon className="w-4 h-4"/></button>
+                              </div>
+                          ))}
                         </div>
+                        <button onClick={() => setBuilderTarget({ agentId: null })} className="w-full mt-3 px-4 py-2 text-sm bg-primary/10 text-primary font-semibold rounded-lg hover:bg-primary/20">{T.newCustomAgent}</button>
                       </div>
+                    <WorkflowTemplatesPanel
+                        templates={workflowTemplates}
+                        canSave={agents.length > 0}
+                        onSave={handleSaveTemplate}
+                        onLoad={handleLoadTemplate}
+                        onDuplicate={handleDuplicateTemplate}
+                        onDelete={handleDeleteTemplate}
+                        onImport={handleImportTemplates}
+                        labels={T}
+                    />
                 </div>
 
                 <div className="lg:col-span-6 flex flex-col gap-6">
@@ -492,7 +1120,24 @@ const App: React.FC = () => {
                                    <button onClick={handleSelectAllPages} className="px-3 py-1 border rounded-md hover:bg-gray-100 dark:hover:bg-gray-700">Select All</button>
                                    <button onClick={handleDeselectAllPages} className="px-3 py-1 border rounded-md hover:bg-gray-100 dark:hover:bg-gray-700">Deselect All</button>
                                </div>
-                               <button onClick={handleOcr} disabled={isOcrProcessing || selectedPages.size === 0} className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg shadow disabled:bg-gray-400">{isOcrProcessing ? T.ocrProcessing : `${T.ocrSelectedPages} (${selectedPages.size})`}</button>
+                               <label className="flex items-center gap-2 text-xs">
+                                   {T.extractionMode}
+                                   <select value={extractionMode} onChange={e => setExtractionMode(e.target.value as PageExtractionMode)} className="bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md p-1">
+                                       <option value="auto">{T.extractionAuto}</option>
+                                       <option value="text">{T.extractionText}</option>
+                                       <option value="ocr">{T.extractionOcr}</option>
+                                   </select>
+                               </label>
+                               <label className="flex items-center gap-2 text-xs">
+                                   {T.ocrOutput}
+                                   <select value={ocrFormat} onChange={e => setOcrFormat(e.target.value as OcrOutputFormat)} className="bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md p-1">
+                                       <option value="text">{T.ocrOutputText}</option>
+                                       <option value="layout">{T.ocrOutputLayout}</option>
+                                   </select>
+                               </label>
+                               {needsApiKey && extractionMode === 'ocr' ? (
+                                   <button onClick={() => setIsApiKeyDialogOpen(true)} className="flex items-center gap-2 px-4 py-2 border border-red-400 text-red-500 text-xs font-semibold rounded-lg"><KeyIcon className="w-4 h-4"/> {T.apiKeyPrompt}</button>
+                               ) : <button onClick={handleExtractPages} disabled={documentFile.isExtracting || selectedPages.size === 0} className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg shadow disabled:bg-gray-400">{documentFile.isExtracting ? T.extracting : `${T.extractSelectedPages} (${selectedPages.size})`}</button>}
                            </div>
                            <div className="relative bg-gray-100 dark:bg-gray-900 rounded-lg p-4 min-h-[400px] overflow-auto flex justify-center items-center">
                                {isPageRendering && <div className="absolute inset-0 flex items-center justify-center bg-white/80 dark:bg-black/80 z-20"><p>Loading page...</p></div>}
@@ -503,41 +1148,56 @@ const App: React.FC = () => {
                                     <label className="flex items-center gap-2 p-2 bg-white/80 dark:bg-gray-800/80 rounded-full shadow cursor-pointer">
                                         <input type="checkbox" checked={selectedPages.has(currentPage)} onChange={() => handlePageSelection(currentPage)} className="h-4 w-4 rounded text-primary focus:ring-primary" />
                                         <span className="text-xs font-medium">{currentPage} / {documentFile.pdfDoc.numPages}</span>
+                                        <select value={pageModes[currentPage] ?? ''} onChange={e => setPageMode(currentPage, e.target.value as PageExtractionMode | '')} title={T.extractionMode} className="text-xs bg-transparent border border-gray-300 dark:border-gray-600 rounded-md p-0.5">
+                                            <option value="">{T.extractionDefault}</option>
+                                            <option value="auto">{T.extractionAuto}</option>
+                                            <option value="text">{T.extractionText}</option>
+                                            <option value="ocr">{T.extractionOcr}</option>
+                                        </select>
                                     </label>
                                 </div>
                                 {currentPage > 1 && <button onClick={() => setCurrentPage(p => p-1)} className="absolute left-2 top-1/2 -translate-y-1/2 p-1 bg-white/50 dark:bg-gray-800/50 rounded-full shadow hover:bg-white z-10"><ChevronLeft className="w-6 h-6"/></button>}
                                 {currentPage < documentFile.pdfDoc.numPages && <button onClick={() => setCurrentPage(p => p+1)} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 bg-white/50 dark:bg-gray-800/50 rounded-full shadow hover:bg-white z-10"><ChevronRight className="w-6 h-6"/></button>}
                            </div>
+                           {documentFile.pageReport && <ExtractionReport report={documentFile.pageReport} onSelectPage={setCurrentPage} onRetryPage={handleRetryPage} canRetry={!documentFile.isExtracting} labels={T} />}
                         </div>
                     )}
                     {documentFile.content && (
                          <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md">
                             <div className="flex justify-between items-center mb-4">
                                 <h2 className="text-lg font-semibold">{T.processedDocument}</h2>
+                                {hasStructuredView && (
+                                    <div className="flex text-xs border border-gray-300 dark:border-gray-600 rounded-md overflow-hidden">
+                                        <button onClick={() => setDocumentView('text')} className={`px-2 py-1 ${documentView === 'text' ? 'bg-primary text-white' : ''}`}>{T.documentViewText}</button>
+                                        <button onClick={() => setDocumentView('structured')} className={`px-2 py-1 ${documentView === 'structured' ? 'bg-primary text-white' : ''}`}>{T.documentViewStructured}</button>
+                                    </div>
+                                )}
                                 <div className="relative group">
                                     <button className="px-4 py-2 border border-primary text-primary text-sm font-semibold rounded-lg">{T.download}</button>
-                                    <div className="absolute top-full right-0 mt-1 w-32 bg-white dark:bg-gray-700 rounded-md shadow-lg border border-gray-200 dark:border-gray-600 opacity-0 group-hover:opacity-100 invisible group-hover:visible transition-all duration-200 z-10">
-                                        <button onClick={() => handleDownload('md')} className="block w-full text-left px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-600">{T.downloadMd}</button>
-                                        <button onClick={() => handleDownload('pdf')} className="block w-full text-left px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-600">{T.downloadPdf}</button>
+                                    <div className="absolute top-full right-0 mt-1 w-40 bg-white dark:bg-gray-700 rounded-md shadow-lg border border-gray-200 dark:border-gray-600 opacity-0 group-hover:opacity-100 invisible group-hover:visible transition-all duration-200 z-10">
+                                        <button onClick={downloadProcessedMarkdown} className="block w-full text-left px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-600">{T.downloadMd}</button>
+                                        <button onClick={() => setIsReportOpen(true)} className="block w-full text-left px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-600">{T.exportReport}</button>
                                     </div>
                                 </div>
                             </div>
                             <div className="space-y-4">
-                                <div className="flex items-center gap-2">
-                                    <input type="text" value={newKeyword.text} onChange={e => setNewKeyword(k => ({...k, text: e.target.value}))} placeholder={T.keywordPlaceholder} className="flex-grow p-2 bg-gray-50 dark:bg-gray-700/50 border rounded-md focus:ring-2 focus:ring-primary" />
-                                    <input type="color" value={newKeyword.color} onChange={e => setNewKeyword(k => ({...k, color: e.target.value}))} className="w-10 h-10 p-1 rounded-md cursor-pointer bg-transparent border-none"/>
-                                    <button onClick={addKeywordHandler} className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg">{T.addKeyword}</button>
-                                </div>
-                                <div className="flex flex-wrap gap-2">
-                                    {keywords.map(kw => (
-                                        <div key={kw.id} className="flex items-center gap-1.5 text-xs font-medium px-2 py-1 rounded-full" style={{backgroundColor: kw.color, color: 'white'}}>
-                                            {kw.text}
-                                            <button onClick={() => removeKeyword(kw.id)} className="w-4 h-4 rounded-full bg-black/20 hover:bg-black/40 text-white text-center leading-none">&times;</button>
-                                        </div>
-                                    ))}
-                                </div>
+                                <SemanticSearch content={documentFile.content} onSpend={addSpend} activeStart={activeSpan?.start ?? null} onSelectHit={handleSearchHit} labels={T} />
+                                <KeywordPanel
+                                    content={documentFile.content}
+                                    onSpend={addSpend}
+                                    keywords={keywords}
+                                    onKeywordsChange={setKeywords}
+                                    keywordSets={keywordSets}
+                                    onKeywordSetsChange={setKeywordSets}
+                                    matches={keywordMatches}
+                                    current={currentKeywordMatch}
+                                    onNavigate={navigateKeyword}
+                                    labels={T}
+                                />
                                 <div ref={interactiveContentRef} className="prose prose-sm dark:prose-invert max-w-none h-96 p-4 overflow-y-auto bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-md">
-                                    <HighlightedText text={documentFile.content} keywords={keywords} />
+                                    {hasStructuredView && documentView === 'structured'
+                                        ? <StructuredDocumentView report={documentFile.pageReport!} onExportTable={exportTableCsv} labels={T} />
+                                        : <HighlightedText text={documentFile.content} keywords={keywords} matches={keywordMatches.matches} activeSpan={activeSpan} />}
                                 </div>
                             </div>
                         </div>
@@ -548,67 +1208,210 @@ const App: React.FC = () => {
                     <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md">
                         <div className="flex justify-between items-center mb-4">
                             <h2 className="text-lg font-semibold">{T.agentWorkflow}</h2>
-                            <button onClick={runWorkflow} disabled={isProcessing || agents.length === 0 || !documentFile.content} className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg shadow hover:opacity-90 disabled:bg-gray-400 disabled:cursor-not-allowed">
-                                <PlayIcon className="w-5 h-5"/> {isProcessing ? T.running : T.runWorkflow}
-                            </button>
+                            {isProcessing ? (
+                                <button onClick={stopWorkflow} className="flex items-center gap-2 px-4 py-2 bg-red-500 text-white rounded-lg shadow hover:opacity-90">
+                                    <StopIcon className="w-5 h-5"/> {T.stop}
+                                </button>
+                            ) : needsApiKey ? (
+                                <button onClick={() => setIsApiKeyDialogOpen(true)} title={T.apiKeyPrompt} className="flex items-center gap-2 px-4 py-2 border border-red-400 text-red-500 text-xs font-semibold rounded-lg">
+                                    <KeyIcon className="w-5 h-5"/> {T.apiKeyPrompt}
+                                </button>
+                            ) : (
+                                <button onClick={requestRun} disabled={agents.length === 0 || runDocuments.length === 0 || isBatchRunning} title={runDocuments.length > 1 ? `${T.runDocuments} (${runDocuments.length})` : undefined} className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg shadow hover:opacity-90 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                                    <PlayIcon className="w-5 h-5"/> {T.runWorkflow}
+                                </button>
+                            )}
                         </div>
+                        <details className="mb-3 text-xs">
+                            <summary className="cursor-pointer font-medium text-gray-500 dark:text-gray-400">{T.workflowRunPolicy}</summary>
+                            <div className="mt-2"><RunPolicyFields policy={workflowPolicy} onChange={p => setWorkflowPolicy(p as RunPolicy)} labels={T} /></div>
+                        </details>
+                        <details className="mb-3 text-xs">
+                            <summary className="cursor-pointer font-medium text-gray-500 dark:text-gray-400">
+                                {T.usageBudget}: {costEstimates ? `${T.estimatedCost} ${formatUsd(totalEstimate(costEstimates.values()).cost)} · ` : ''}{T.spentToday} {formatUsd(spentToday)}
+                            </summary>
+                            <div className="mt-2"><UsageBudgetFields budget={usageBudget} onChange={setUsageBudget} labels={T} /></div>
+                        </details>
+                        <details className="mb-3 text-xs">
+                            <summary className="cursor-pointer font-medium text-gray-500 dark:text-gray-400">
+                                {T.dashboardLayout}: {dashboardLayout ? `${T.dashboardWidgets} (${dashboardLayout.length})` : T.dashboardAutomatic}
+                            </summary>
+                            <div className="mt-2"><DashboardLayoutFields widgets={dashboardLayout} agents={agents} onChange={setDashboardLayout} labels={T} /></div>
+                        </details>
+                        {workflowError && <p className="mb-3 text-xs text-red-500 p-2 bg-red-50 dark:bg-red-900/30 rounded">{workflowError}</p>}
                          <div className="space-y-3 max-h-[calc(100vh-250px)] overflow-y-auto pr-2">
                             {agents.length > 0 ? (
-                                agents.map((agent) => (
+                                agents.map((agent) => {
+                                    const state = resultFor(agent);
+                                    return (
                                     <div key={agent.id} className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg shadow-sm">
                                         <div className="flex justify-between items-center gap-2">
                                             <h3 className="font-semibold text-sm">{agent.name}</h3>
-                                            <button onClick={() => deleteAgent(agent.id)} className="text-gray-400 hover:text-red-500"><TrashIcon className="w-4 h-4"/></button>
+                                            <div className="flex items-center gap-2">
+                                                <button onClick={() => setBuilderTarget({ agentId: agent.id })} disabled={isProcessing} title={T.editAgent} className="text-gray-400 hover:text-primary disabled:opacity-40"><PencilIcon className="w-4 h-4"/></button>
+                                                {(state.status === AgentStatus.Running || state.status === AgentStatus.Retrying) && <button onClick={() => stopAgent(agent.id)} title={T.stop} className="text-gray-400 hover:text-red-500"><StopIcon className="w-4 h-4"/></button>}
+                                                <button onClick={() => deleteAgent(agent.id)} disabled={isProcessing} className="text-gray-400 hover:text-red-500 disabled:opacity-40"><TrashIcon className="w-4 h-4"/></button>
+                                            </div>
                                         </div>
                                         <select value={agent.model} onChange={(e) => updateAgent(agent.id, 'model', e.target.value)} className="w-full text-xs mt-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md p-1.5 focus:ring-primary">
                                             {MODEL_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
                                         </select>
-                                        <textarea value={agent.prompt} onChange={(e) => updateAgent(agent.id, 'prompt', e.target.value)} className="w-full mt-2 p-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md text-xs" rows={4}/>
-                                        {agent.status !== AgentStatus.Pending && <div className="mt-2 text-xs">
-                                            {agent.status === AgentStatus.Running && <p className="text-blue-500 animate-pulse">Running...</p>}
-                                            {agent.status === AgentStatus.Success && <pre className="text-xs whitespace-pre-wrap p-2 bg-green-50 dark:bg-green-900/30 rounded font-mono max-h-24 overflow-y-auto">{agent.output}</pre>}
-                                            {agent.status === AgentStatus.Error && <p className="text-xs text-red-500 p-2 bg-red-50 dark:bg-red-900/30 rounded">{agent.error}</p>}
+                                        <label className="flex items-center gap-1 mt-2 text-xs text-gray-500 dark:text-gray-400" title={T.citeSourcesHint}>
+                                            <input type="checkbox" checked={Boolean(agent.citeSources)} onChange={(e) => updateAgent(agent.id, 'citeSources', e.target.checked)} disabled={isProcessing} className="h-3 w-3 rounded text-primary focus:ring-primary" />
+                                            {T.citeSources}
+                                        </label>
+                                        <label className="flex items-center justify-between gap-2 mt-2 text-xs text-gray-500 dark:text-gray-400">
+                                            {T.documentMode}
+                                            <select value={agent.documentMode ?? 'each'} onChange={(e) => updateAgent(agent.id, 'documentMode', e.target.value as DocumentMode)} disabled={isProcessing} className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md p-1 focus:ring-primary disabled:opacity-50">
+                                                <option value="each">{T.documentModeEach}</option>
+                                                <option value="compare">{T.documentModeCompare}</option>
+                                            </select>
+                                        </label>
+                                        <textarea value={agent.prompt} onChange={(e) => updateAgentPrompt(agent, e.target.value)} className="w-full mt-2 p-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md text-xs" rows={4}/>
+                                        <div className="mt-1 text-xs">
+                                            <span className="font-medium text-gray-500 dark:text-gray-400">{T.agentInputs}:</span>
+                                            <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+                                                <label className="flex items-center gap-1"><input type="checkbox" checked={getAgentInputs(agent).document} onChange={() => toggleAgentInput(agent, 'document')} className="h-3 w-3 rounded text-primary focus:ring-primary" />{T.documentInput}</label>
+                                                {hasStructuredView && getAgentInputs(agent).document && (
+                                                    <label className="flex items-center gap-1" title={T.structuredInputHint}><input type="checkbox" checked={Boolean(getAgentInputs(agent).structuredDocument)} onChange={() => toggleAgentInput(agent, 'structuredDocument')} className="h-3 w-3 rounded text-primary focus:ring-primary" />{T.structuredInput}</label>
+                                                )}
+                                                {agents.filter(a => a.id !== agent.id).map(other => (
+                                                    <label key={other.id} className="flex items-center gap-1"><input type="checkbox" checked={getAgentInputs(agent).upstream.includes(other.id)} onChange={() => toggleAgentInput(agent, other.id)} className="h-3 w-3 rounded text-primary focus:ring-primary" />{other.name}</label>
+                                                ))}
+                                            </div>
+                                            <p className="mt-1 text-gray-400">{T.promptPlaceholderHint}</p>
+                                        </div>
+                                        <details className="mt-1 text-xs">
+                                            <summary className="cursor-pointer text-gray-500 dark:text-gray-400">{T.agentRunPolicy}</summary>
+                                            <div className="mt-1"><RunPolicyFields policy={agent.runPolicy ?? {}} onChange={p => updateAgent(agent.id, 'runPolicy', p)} labels={T} inherited={workflowPolicy} /></div>
+                                        </details>
+                                        <details className="mt-1 text-xs">
+                                            <summary className="cursor-pointer text-gray-500 dark:text-gray-400">{T.longDocumentMode}{agent.longDocument?.enabled ? ' ✓' : ''}</summary>
+                                            <div className="mt-1"><LongDocumentFields settings={agent.longDocument ?? DEFAULT_LONG_DOCUMENT_SETTINGS} onChange={s => updateAgent(agent.id, 'longDocument', s)} labels={T} /></div>
+                                        </details>
+                                        <details className="mt-1 text-xs">
+                                            <summary className="cursor-pointer text-gray-500 dark:text-gray-400">{T.retrievalMode}{agent.retrieval?.enabled ? ' ✓' : ''}</summary>
+                                            <div className="mt-1"><RetrievalFields settings={agent.retrieval ?? DEFAULT_RETRIEVAL_SETTINGS} onChange={s => updateAgent(agent.id, 'retrieval', s)} labels={T} /></div>
+                                        </details>
+                                        {agent.outputSchema && (
+                                            <details className="mt-1 text-xs">
+                                                <summary className="cursor-pointer text-gray-500 dark:text-gray-400">{T.outputSchema}</summary>
+                                                <pre className="mt-1 p-2 bg-white dark:bg-gray-800 rounded font-mono max-h-24 overflow-y-auto">{JSON.stringify(agent.outputSchema, null, 2)}</pre>
+                                            </details>
+                                        )}
+                                        {agentCostLabel(state) && <p className="mt-1 text-xs text-gray-400">{agentCostLabel(state)}</p>}
+                                        {state.status !== AgentStatus.Pending && <div className="mt-2 text-xs">
+                                            {state.chunks && state.chunks.length > 1 && <ChunkProgressGrid chunks={state.chunks} label={T.documentParts} />}
+                                            {state.status === AgentStatus.Running && (state.output
+                                                ? <pre className="text-xs whitespace-pre-wrap p-2 bg-blue-50 dark:bg-blue-900/30 rounded font-mono max-h-24 overflow-y-auto">{state.output}<span className="animate-pulse">▍</span></pre>
+                                                : <p className="text-blue-500 animate-pulse">{T.running}</p>)}
+                                            {state.status === AgentStatus.Cancelled && <div className="p-2 bg-gray-100 dark:bg-gray-800 rounded space-y-1">
+                                                <p className="text-gray-500">{T.cancelled}</p>
+                                                {state.output && <pre className="whitespace-pre-wrap font-mono max-h-24 overflow-y-auto">{state.output}</pre>}
+                                            </div>}
+                                            {state.status === AgentStatus.Retrying && <p className="text-blue-500 animate-pulse">{T.retrying} {state.error}</p>}
+                                            {state.status === AgentStatus.TimedOut && <p className="text-xs text-orange-500 p-2 bg-orange-50 dark:bg-orange-900/30 rounded">{T.timedOut}: {state.error}</p>}
+                                            {state.status === AgentStatus.Skipped && <p className="text-xs text-gray-500 p-2 bg-gray-100 dark:bg-gray-800 rounded">{T.skipped}: {state.error}</p>}
+                                            {state.status === AgentStatus.Success && (state.sources
+                                                ? <AgentSources output={state.output ?? ''} sources={state.sources} onSelect={c => handleSourceClick(c, isCompareAgent(agent))} labels={T} />
+                                                : <pre className="text-xs whitespace-pre-wrap p-2 bg-green-50 dark:bg-green-900/30 rounded font-mono max-h-24 overflow-y-auto">{state.output}</pre>)}
+                                            {state.status === AgentStatus.Error && <p className="text-xs text-red-500 p-2 bg-red-50 dark:bg-red-900/30 rounded">{state.error}</p>}
+                                            {state.status === AgentStatus.InvalidOutput && <div className="p-2 bg-amber-50 dark:bg-amber-900/30 rounded space-y-1">
+                                                <p className="font-semibold text-amber-600 dark:text-amber-400">{T.invalidOutput}</p>
+                                                <p className="text-amber-600 dark:text-amber-400">{state.error}</p>
+                                                <pre className="whitespace-pre-wrap font-mono max-h-24 overflow-y-auto">{state.output}</pre>
+                                            </div>}
                                         </div>}
                                     </div>
-                                ))
+                                    );
+                                })
                             ) : (
                                 <div className="text-center py-10 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg"><p className="text-gray-500 text-sm">{T.addAgentToStart}</p></div>
                             )}
                         </div>
                     </div>
-                    {(analysisResult || followUpQuestions) && (
+                    {resultGroups.length > 1 && (
+                        <DocumentResults groups={resultGroups} activeGroupId={activeDocumentId} onSelectGroup={id => id !== COMPARE_GROUP && selectDocument(id)} labels={T} />
+                    )}
+                    {(dashboardSections.length > 0 || followUpQuestions) && (
                         <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md">
                           <h2 className="text-lg font-semibold mb-4">{T.resultsDashboard}</h2>
                           <div className="space-y-4">
-                            {analysisResult?.sentiment && (
-                              <div>
-                                  <h3 className="font-semibold text-sm mb-2">{T.sentimentAnalysis}</h3>
-                                  <div className="h-40 w-full"><ResponsiveContainer>
-                                      <PieChart><Pie data={[{ name: 'Positive', value: analysisResult.sentiment.positive }, { name: 'Negative', value: analysisResult.sentiment.negative }, { name: 'Neutral', value: analysisResult.sentiment.neutral }]} cx="50%" cy="50%" outerRadius={50} dataKey="value" labelLine={false} label={({name, percent}) => `${(percent * 100).toFixed(0)}%`}>
-                                          <Cell key="positive" fill="#22c55e" /><Cell key="negative" fill="#ef4444" /><Cell key="neutral" fill="#6b7280" />
-                                      </Pie><Tooltip /><Legend wrapperStyle={{fontSize: "12px"}}/></PieChart>
-                                  </ResponsiveContainer></div>
+                            {dashboardSections.map(({ id, name, widgets }) => (
+                              <div key={id} className="space-y-4">
+                                {dashboardSections.length > 1 && <h3 className="font-semibold text-sm border-b border-gray-200 dark:border-gray-700 pb-1">{name}</h3>}
+                                {widgets.map(({ widget, output, sources }) => (
+                                    <DashboardWidgetView key={widget.id} widget={widget} output={output} onSelectText={documentFile.content ? text => handleWidgetSelect(text, sources, id === COMPARE_GROUP) : undefined} />
+                                ))}
                               </div>
-                            )}
-                            {analysisResult?.entities && (
-                              <div>
-                                  <h3 className="font-semibold text-sm mb-2">{T.extractedEntities}</h3>
-                                  <ul className="text-xs space-y-1 max-h-32 overflow-y-auto">{analysisResult.entities.map((e, i) => <li key={i}><span className="font-semibold">{e.type}:</span> {e.name}</li>)}</ul>
-                              </div>
-                            )}
+                            ))}
                             {followUpQuestions && (
                               <div>
                                 <h3 className="font-semibold text-sm mb-2">{T.followUpQuestions}</h3>
                                 <ul className="text-xs space-y-1 list-disc list-inside">
-                                    {followUpQuestions.split('\n').filter(q => q.trim()).map((q, i) => <li key={i}>{q.replace(/^- /, '')}</li>)}
+                                    {followUpQuestions.split('\n').filter(q => q.trim()).map((q, i) => (
+                                        <li key={i}><button onClick={() => handleAsk(q.replace(/^- /, ''))} disabled={isAnswering} className="text-left hover:text-primary hover:underline disabled:cursor-not-allowed">{q.replace(/^- /, '')}</button></li>
+                                    ))}
                                 </ul>
                               </div>
                             )}
                           </div>
                         </div>
                     )}
+                    {documentFile.content && (
+                        <ChatPanel
+                            messages={chatMessages}
+                            isAnswering={isAnswering}
+                            onAsk={handleAsk}
+                            onCitationClick={handleCitationClick}
+                            onClear={() => { setChatMessages([]); setActiveSpan(null); }}
+                            labels={T}
+                        />
+                    )}
                 </div>
             </main>
+            {isBatchOpen && (
+                <BatchDialog
+                    items={batchItems}
+                    isRunning={isBatchRunning}
+                    error={batchError}
+                    canStart={!isProcessing && batchAgents(agents).length > 0}
+                    skippedAgentCount={agents.length - batchAgents(agents).length}
+                    ocr={batchOcr}
+                    onOcrChange={setBatchOcr}
+                    onAddFiles={addBatchFiles}
+                    onClear={() => setBatchItems([])}
+                    onStart={requestBatchRun}
+                    onStop={() => batchAbortRef.current?.abort()}
+                    onClose={() => setIsBatchOpen(false)}
+                    labels={T}
+                />
+            )}
+            {isEvalOpen && (
+                <EvaluationDialog
+                    agents={agents.filter(a => !isCompareAgent(a))}
+                    currentDocument={documentFile.content ? { name: documentFile.name, content: documentFile.content } : null}
+                    canRun={!isProcessing && !isBatchRunning && !needsApiKey}
+                    onRun={runAgentEvaluation}
+                    onClose={() => setIsEvalOpen(false)}
+                    labels={T}
+                />
+            )}
+            {isRedactionOpen && (
+                <RedactionDialog
+                    settings={redactionSettings}
+                    onChange={setRedactionSettings}
+                    redactor={redactor}
+                    content={documentFile.content}
+                    onClose={() => setIsRedactionOpen(false)}
+                    labels={T}
+                />
+            )}
+            {builderTarget && <CustomAgentBuilder initial={builderInitial()} isEditing={builderTarget.agentId !== null} onSubmit={handleBuilderSubmit} onClose={() => setBuilderTarget(null)} labels={T} />}
+            {variablesTarget && <VariablesDialog agents={agents} onConfirm={handleVariablesConfirm} onCancel={() => setVariablesTarget(null)} labels={T} />}
+            {isApiKeyDialogOpen && <ApiKeyDialog current={storedApiKey} onSave={handleSaveApiKey} onRemove={handleRemoveApiKey} onClose={() => setIsApiKeyDialogOpen(false)} labels={T} />}
+            {isReportOpen && <ReportDialog template={reportTemplate} onTemplateChange={setReportTemplate} onExport={exportReport} onClose={() => setIsReportOpen(false)} labels={T} />}
+            {isHistoryOpen && <RunHistoryDialog documentHash={documentHash} onOpenRun={handleOpenRun} onClose={() => setIsHistoryOpen(false)} labels={T} />}
         </div>
     );
 };
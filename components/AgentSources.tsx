@@ -0,0 +1,59 @@
+import React from 'react';
+import { SourceCitation } from '../types';
+
+interface AgentSourcesProps {
+    output: string;
+    sources: SourceCitation[];
+    onSelect: (citation: SourceCitation) => void;
+    labels: Record<string, string>;
+}
+
+const REFERENCE = /\[(\d+)\]/g;
+
+const citationTitle = (citation: SourceCitation, labels: Record<string, string>) =>
+    citation.verified ? citation.quote : `${labels.possibleHallucination}: ${citation.quote}`;
+
+// A successful agent's output with its citations: [n] references in the text and the list of cited claims
+// both jump to the quoted passage. Claims whose quote is not in the document are flagged.
+export const AgentSources: React.FC<AgentSourcesProps> = ({ output, sources, onSelect, labels }) => {
+    const unverified = sources.filter(c => !c.verified).length;
+
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of output.matchAll(REFERENCE)) {
+        const citation = sources[Number(match[1]) - 1];
+        if (!citation) continue;
+        parts.push(output.slice(last, match.index));
+        parts.push(
+            <button key={match.index} onClick={() => onSelect(citation)} title={citationTitle(citation, labels)} className={`font-semibold hover:underline ${citation.verified ? 'text-primary' : 'text-red-500'}`}>
+                {match[0]}
+            </button>,
+        );
+        last = match.index! + match[0].length;
+    }
+    parts.push(output.slice(last));
+
+    return (
+        <div className="space-y-1">
+            <pre className="text-xs whitespace-pre-wrap p-2 bg-green-50 dark:bg-green-900/30 rounded font-mono max-h-24 overflow-y-auto">{parts}</pre>
+            {sources.length === 0 ? <p className="text-gray-500">{labels.noSources}</p> : (
+                <details>
+                    <summary className="cursor-pointer text-gray-500 dark:text-gray-400">
+                        {labels.sources} ({sources.length}){unverified > 0 && <span className="text-red-500"> · {unverified} {labels.unverifiedSources}</span>}
+                    </summary>
+                    <ol className="mt-1 space-y-1 max-h-40 overflow-y-auto">
+                        {sources.map((citation, i) => (
+                            <li key={i}>
+                                <button onClick={() => onSelect(citation)} disabled={!citation.span} title={citationTitle(citation, labels)} className={`text-left hover:underline disabled:no-underline disabled:cursor-default ${citation.verified ? '' : 'text-red-500'}`}>
+                                    <span className="font-semibold">[{i + 1}]</span> {citation.claim || citation.quote}
+                                    {citation.page !== null && <span className="text-gray-400"> · p. {citation.page}</span>}
+                                    {!citation.verified && <span> ⚠ {labels.possibleHallucination}</span>}
+                                </button>
+                            </li>
+                        ))}
+                    </ol>
+                </details>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { ApiKeyStorage, StoredApiKey } from '../services/apiKeyStore';
+import { validateGeminiApiKey } from '../services/providers/geminiProvider';
+import { KeyIcon } from './icons';
+
+interface ApiKeyDialogProps {
+    current: StoredApiKey | null;
+    onSave: (key: StoredApiKey) => Promise<void>;
+    onRemove: () => Promise<void>;
+    onClose: () => void;
+    labels: Record<string, string>;
+}
+
+const fieldClass = "w-full p-2 text-xs bg-gray-50 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-primary";
+
+// The key is checked with a test call before it is stored, so a typo shows up here and not mid-workflow.
+export const ApiKeyDialog: React.FC<ApiKeyDialogProps> = ({ current, onSave, onRemove, onClose, labels }) => {
+    const [apiKey, setApiKey] = useState('');
+    const [storage, setStorage] = useState<ApiKeyStorage>(current?.storage ?? 'session');
+    const [isValidating, setIsValidating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const save = async () => {
+        setIsValidating(true);
+        setError(null);
+        try {
+            await validateGeminiApiKey(apiKey.trim());
+        } catch (err) {
+            setError(`${labels.apiKeyInvalid} ${err instanceof Error ? err.message : String(err)}`);
+            setIsValidating(false);
+            return;
+        }
+        try {
+            await onSave({ apiKey: apiKey.trim(), storage });
+        } catch (err) {
+            setError(`${labels.apiKeySaveFailed} ${err instanceof Error ? err.message : String(err)}`);
+            return;
+        } finally {
+            setIsValidating(false);
+        }
+        onClose();
+    };
+
+    const remove = async () => {
+        setError(null);
+        try {
+            await onRemove();
+        } catch (err) {
+            setError(`${labels.apiKeyRemoveFailed} ${err instanceof Error ? err.message : String(err)}`);
+            return;
+        }
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md p-6 space-y-4 text-xs" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h2 className="text-lg font-semibold flex items-center gap-2"><KeyIcon className="w-5 h-5 text-primary" /> {labels.apiKeySettings}</h2>
+                    <button onClick={onClose} className="text-sm text-gray-500 hover:underline">{labels.close}</button>
+                </div>
+                <p className="text-gray-500">{current ? labels.apiKeyIsSet : labels.apiKeyPrompt}</p>
+                <label className="block space-y-1"><span className="font-medium">{labels.apiKey}</span>
+                    <input type="password" autoComplete="off" value={apiKey} onChange={e => setApiKey(e.target.value)} placeholder={labels.apiKeyInputPlaceholder} className={fieldClass} />
+                </label>
+                <div className="space-y-1">
+                    {(['session', 'encrypted'] as ApiKeyStorage[]).map(mode => (
+                        <label key={mode} className="flex items-center gap-1">
+                            <input type="radio" checked={storage === mode} onChange={() => setStorage(mode)} className="h-3 w-3 text-primary focus:ring-primary" />
+                            {mode === 'session' ? labels.apiKeyStorageSession : labels.apiKeyStorageEncrypted}
+                        </label>
+                    ))}
+                </div>
+                {error && <p className="text-red-500">{error}</p>}
+                <div className="flex justify-between items-center">
+                    {current ? <button onClick={remove} className="text-red-500 hover:underline">{labels.removeKey}</button> : <span />}
+                    <button onClick={save} disabled={!apiKey.trim() || isValidating} className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg disabled:bg-gray-400">{isValidating ? labels.apiKeyValidating : labels.saveKey}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { AgentStatus, BatchItem, BatchItemStatus } from '../types';
+import { ACCEPTED_EXTENSIONS, detectDocumentType } from '../services/loaders';
+import { batchResultsToJson, buildResultsTable, resultsTableToCsv, resultsTableToXlsx } from '../services/resultsTable';
+import { formatUsd } from '../services/costEstimation';
+import { downloadBlob } from '../services/download';
+import { StopIcon } from './icons';
+
+interface BatchDialogProps {
+    items: BatchItem[];
+    isRunning: boolean;
+    // Why the last batch could not run or stopped early, e.g. a cycle in the workflow.
+    error: string | null;
+    // False while a normal run is going on or there are no agents to run.
+    canStart: boolean;
+    // Comparison agents, which a batch leaves out.
+    skippedAgentCount: number;
+    ocr: boolean;
+    onOcrChange: (ocr: boolean) => void;
+    onAddFiles: (files: File[]) => void;
+    onClear: () => void;
+    onStart: () => void;
+    onStop: () => void;
+    onClose: () => void;
+    labels: Record<string, string>;
+}
+
+const FINISHED: BatchItemStatus[] = ['done', 'failed', 'cancelled'];
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+    queued: 'text-gray-500',
+    loading: 'text-blue-500 animate-pulse',
+    running: 'text-blue-500 animate-pulse',
+    done: 'text-green-600 dark:text-green-400',
+    failed: 'text-red-500',
+    cancelled: 'text-gray-500',
+};
+
+// The table preview stops here; exports always contain every row.
+const PREVIEW_ROWS = 50;
+
+export const BatchDialog: React.FC<BatchDialogProps> = ({
+    items, isRunning, error, canStart, skippedAgentCount, ocr, onOcrChange, onAddFiles, onClear, onStart, onStop, onClose, labels,
+}) => {
+    const [unsupportedCount, setUnsupportedCount] = useState(0);
+    const table = useMemo(() => buildResultsTable(items), [items]);
+    const finished = items.filter(i => FINISHED.includes(i.status)).length;
+    const failed = items.filter(i => i.status === 'failed').length;
+    const spent = items.reduce((sum, i) => sum + (i.cost ?? 0), 0);
+    const hasResults = items.some(i => i.agents && FINISHED.includes(i.status));
+
+    const statusLabels: Record<BatchItemStatus, string> = {
+        queued: labels.statusQueued,
+        loading: labels.batchLoading,
+        running: labels.running,
+        done: labels.statusDone,
+        failed: labels.statusFailed,
+        cancelled: labels.cancelled,
+    };
+
+    // Folders hold all kinds of files; hidden and unsupported ones are left out instead of failing in the queue.
+    const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(event.target.files ?? []);
+        event.target.value = '';
+        const supported = files.filter(file => {
+            if (file.name.startsWith('.')) return false;
+            try {
+                detectDocumentType(file);
+                return true;
+            } catch {
+                return false;
+            }
+        });
+        setUnsupportedCount(files.length - supported.length);
+        if (supported.length > 0) onAddFiles(supported);
+    };
+
+    const stamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    const exportCsv = () => downloadBlob(new Blob([resultsTableToCsv(table)], { type: 'text/csv;charset=utf-8' }), `batch-results-${stamp()}.csv`);
+    const exportXlsx = () => downloadBlob(resultsTableToXlsx(table), `batch-results-${stamp()}.xlsx`);
+    const exportJson = () => downloadBlob(new Blob([batchResultsToJson(items)], { type: 'application/json' }), `batch-results-${stamp()}.json`);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto p-6 space-y-4" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h2 className="text-lg font-semibold">{labels.batch}</h2>
+                    <button onClick={onClose} className="text-sm text-gray-500 hover:underline">{labels.close}</button>
+                </div>
+                <p className="text-xs text-gray-500">{labels.batchHint}</p>
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <label className={`px-3 py-1.5 border border-primary text-primary rounded-md ${isRunning ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                        {labels.batchAddFiles}
+                        <input type="file" multiple accept={ACCEPTED_EXTENSIONS} onChange={handleFiles} disabled={isRunning} className="hidden" />
+                    </label>
+                    <label className={`px-3 py-1.5 border border-primary text-primary rounded-md ${isRunning ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                        {labels.batchAddFolder}
+                        <input type="file" webkitdirectory="" onChange={handleFiles} disabled={isRunning} className="hidden" />
+                    </label>
+                    <label className="flex items-center gap-1.5 ml-2">
+                        <input type="checkbox" checked={ocr} onChange={e => onOcrChange(e.target.checked)} disabled={isRunning} className="h-3 w-3 rounded text-primary focus:ring-primary" />
+                        {labels.batchOcr}
+                    </label>
+                    <div className="flex-grow" />
+                    <button onClick={onClear} disabled={isRunning || items.length === 0} className="px-3 py-1.5 text-gray-500 hover:underline disabled:opacity-50">{labels.batchClear}</button>
+                    {isRunning ? (
+                        <button onClick={onStop} className="flex items-center gap-1 px-3 py-1.5 bg-red-500 text-white rounded-md"><StopIcon className="w-4 h-4" />{labels.stop}</button>
+                    ) : (
+                        <button onClick={onStart} disabled={items.length === 0 || !canStart} className="px-3 py-1.5 bg-primary text-white rounded-md disabled:opacity-50">{labels.batchStart}</button>
+                    )}
+                </div>
+                {unsupportedCount > 0 && <p className="text-xs text-amber-600 dark:text-amber-400">{`${labels.batchUnsupportedSkipped} (${unsupportedCount})`}</p>}
+                {skippedAgentCount > 0 && <p className="text-xs text-amber-600 dark:text-amber-400">{`${labels.batchCompareSkipped} (${skippedAgentCount})`}</p>}
+                {error && <p className="text-xs text-red-500 p-2 bg-red-50 dark:bg-red-900/30 rounded">{error}</p>}
+
+                {items.length === 0 ? <p className="text-sm text-gray-500">{labels.batchEmpty}</p> : (
+                    <>
+                        <div>
+                            <div className="flex justify-between text-xs mb-1">
+                                <span>{`${labels.batchProgress}: ${finished} / ${items.length}`}{failed > 0 ? ` · ${labels.statusFailed} ${failed}` : ''}</span>
+                                <span>{`${labels.actualCost}: ${formatUsd(spent)}`}</span>
+                            </div>
+                            <div className="h-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                                <div className="h-full bg-primary transition-all" style={{ width: `${(finished / items.length) * 100}%` }} />
+                            </div>
+                        </div>
+                        <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-xs max-h-64 overflow-y-auto">
+                            {items.map(item => {
+                                const succeeded = item.agents?.filter(a => a.status === AgentStatus.Success).length ?? 0;
+                                return (
+                                    <li key={item.id} className="flex items-start gap-3 py-1.5">
+                                        <div className="flex-grow min-w-0">
+                                            <p className="truncate font-medium" title={item.name}>{item.name}</p>
+                                            {item.error && <p className="text-red-500 break-words">{item.error}</p>}
+                                        </div>
+                                        {item.status === 'running' && item.agents && <span className="flex-shrink-0 text-gray-500">{succeeded}/{item.agents.length}</span>}
+                                        <span className={`flex-shrink-0 ${STATUS_CLASSES[item.status]}`}>{statusLabels[item.status]}</span>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </>
+                )}
+
+                {hasResults && (
+                    <div className="space-y-2">
+                        <div className="flex items-center gap-2">
+                            <h3 className="font-semibold text-sm flex-grow">{labels.batchResults}</h3>
+                            <button onClick={exportCsv} className="px-2 py-1 text-xs border border-primary text-primary rounded-md">{labels.exportCsv}</button>
+                            <button onClick={exportXlsx} className="px-2 py-1 text-xs border border-primary text-primary rounded-md">{labels.exportXlsx}</button>
+                            <button onClick={exportJson} className="px-2 py-1 text-xs border border-primary text-primary rounded-md">{labels.exportJson}</button>
+                        </div>
+                        {table.columns.length === 3 && <p className="text-xs text-gray-500">{labels.batchNoStructuredOutput}</p>}
+                        <div className="overflow-auto max-h-80 border border-gray-200 dark:border-gray-700 rounded">
+                            <table className="text-xs border-collapse">
+                                <thead className="sticky top-0 bg-gray-100 dark:bg-gray-700">
+                                    <tr>{table.columns.map(c => <th key={c} className="px-2 py-1 text-left font-semibold whitespace-nowrap">{c}</th>)}</tr>
+                                </thead>
+                                <tbody>
+                                    {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                                        <tr key={r} className="border-t border-gray-200 dark:border-gray-700">
+                                            {row.map((cell, c) => <td key={c} className="px-2 py-1 align-top max-w-xs truncate" title={cell === null ? '' : String(cell)}>{cell === null ? '' : String(cell)}</td>)}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {table.rows.length > PREVIEW_ROWS && <p className="text-xs text-gray-500">{`${labels.batchPreviewLimited} (${PREVIEW_ROWS} / ${table.rows.length})`}</p>}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
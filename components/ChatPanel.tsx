@@ -0,0 +1,66 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, Citation } from '../types';
+
+interface ChatPanelProps {
+    messages: ChatMessage[];
+    isAnswering: boolean;
+    onAsk: (question: string) => void;
+    onCitationClick: (citation: Citation) => void;
+    onClear: () => void;
+    labels: Record<string, string>;
+}
+
+const citationLabel = (citation: Citation, index: number) =>
+    citation.page !== null ? `[${index + 1}] p. ${citation.page}` : `[${index + 1}]`;
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, isAnswering, onAsk, onCitationClick, onClear, labels }) => {
+    const [question, setQuestion] = useState('');
+    const endRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => { endRef.current?.scrollIntoView({ block: 'nearest' }); }, [messages, isAnswering]);
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!question.trim() || isAnswering) return;
+        onAsk(question.trim());
+        setQuestion('');
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold">{labels.chatWithDocument}</h2>
+                {messages.length > 0 && <button onClick={onClear} className="text-xs text-red-500 hover:underline">{labels.clearChat}</button>}
+            </div>
+            <div className="space-y-2 max-h-80 overflow-y-auto pr-1 text-xs">
+                {messages.length === 0 && <p className="text-gray-500">{labels.chatEmpty}</p>}
+                {messages.map(m => (
+                    <div key={m.id} className={`p-2 rounded-lg ${m.role === 'user' ? 'bg-primary/10 ml-6' : m.isError ? 'bg-red-50 dark:bg-red-900/30 text-red-500 mr-6' : 'bg-gray-50 dark:bg-gray-700/50 mr-6'}`}>
+                        <p className="whitespace-pre-wrap">{m.text}</p>
+                        {m.citations && m.citations.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                                {m.citations.map((c, i) => (
+                                    <button
+                                        key={i}
+                                        onClick={() => onCitationClick(c)}
+                                        disabled={!c.span}
+                                        title={c.span ? c.quote : `${labels.citationNotFound}: ${c.quote}`}
+                                        className="px-1.5 py-0.5 rounded bg-primary/20 text-primary font-semibold hover:bg-primary/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {citationLabel(c, i)}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                ))}
+                {isAnswering && <p className="text-blue-500 animate-pulse">{labels.thinking}</p>}
+                <div ref={endRef} />
+            </div>
+            <form onSubmit={submit} className="flex items-center gap-2 mt-3">
+                <input type="text" value={question} onChange={e => setQuestion(e.target.value)} placeholder={labels.chatPlaceholder} className="flex-grow p-2 text-xs bg-gray-50 dark:bg-gray-700/50 border rounded-md focus:ring-2 focus:ring-primary" />
+                <button type="submit" disabled={isAnswering || !question.trim()} className="px-3 py-2 bg-primary text-white text-xs font-semibold rounded-lg disabled:bg-gray-400">{labels.ask}</button>
+            </form>
+        </div>
+    );
+};
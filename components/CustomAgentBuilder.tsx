@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { AgentTemplate, OutputMode, PromptVariable } from '../types';
+import { MODEL_OPTIONS } from '../constants';
+import { extractVariableNames, syncVariables } from '../services/promptVariables';
+
+export type AgentDraft = AgentTemplate & { model: string };
+
+interface CustomAgentBuilderProps {
+    initial?: AgentDraft;
+    // In edit mode the draft updates an agent of the workflow instead of adding a new one.
+    isEditing: boolean;
+    onSubmit: (draft: AgentDraft, saveToLibrary: boolean) => void;
+    onClose: () => void;
+    labels: Record<string, string>;
+}
+
+const fieldClass = "w-full p-2 text-xs bg-gray-50 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-primary";
+
+const optionalNumber = (raw: string): number | undefined => raw === '' ? undefined : Number(raw);
+
+export const CustomAgentBuilder: React.FC<CustomAgentBuilderProps> = ({ initial, isEditing, onSubmit, onClose, labels }) => {
+    const [draft, setDraft] = useState<AgentDraft>(initial ?? { name: '', prompt: '', model: MODEL_OPTIONS[0].value, outputMode: 'text' });
+    const [saveToLibrary, setSaveToLibrary] = useState(!isEditing);
+
+    const variables = useMemo(
+        () => syncVariables(draft.variables ?? [], extractVariableNames(draft.systemInstruction, draft.prompt)),
+        [draft.variables, draft.prompt, draft.systemInstruction],
+    );
+
+    const update = (partial: Partial<AgentDraft>) => setDraft(prev => ({ ...prev, ...partial }));
+    const updateVariable = (name: string, partial: Partial<PromptVariable>) =>
+        update({ variables: variables.map(v => v.name === name ? { ...v, ...partial } : v) });
+    const updateGeneration = (field: 'temperature' | 'topP' | 'maxOutputTokens', raw: string) =>
+        update({ generation: { ...draft.generation, [field]: optionalNumber(raw) } });
+
+    const canSubmit = draft.name.trim() !== '' && draft.prompt.trim() !== '';
+
+    const submit = () => {
+        if (!canSubmit) return;
+        onSubmit({ ...draft, name: draft.name.trim(), variables: variables.length > 0 ? variables : undefined }, saveToLibrary);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-3 text-xs" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h2 className="text-lg font-semibold">{isEditing ? labels.editAgent : labels.newCustomAgent}</h2>
+                    <button onClick={onClose} className="text-sm text-gray-500 hover:underline">{labels.close}</button>
+                </div>
+                <label className="block space-y-1"><span className="font-medium">{labels.agentName}</span>
+                    <input type="text" value={draft.name} onChange={e => update({ name: e.target.value })} className={fieldClass} />
+                </label>
+                <label className="block space-y-1"><span className="font-medium">{labels.systemInstruction}</span>
+                    <textarea value={draft.systemInstruction ?? ''} onChange={e => update({ systemInstruction: e.target.value || undefined })} rows={2} className={fieldClass} />
+                </label>
+                <label className="block space-y-1"><span className="font-medium">{labels.prompt}</span>
+                    <textarea value={draft.prompt} onChange={e => update({ prompt: e.target.value })} rows={5} className={fieldClass} />
+                    <span className="text-gray-400">{labels.promptVariablesHint}</span>
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                    <label className="space-y-1 col-span-2"><span className="font-medium">{labels.model}</span>
+                        <select value={draft.model} onChange={e => update({ model: e.target.value })} className={fieldClass}>
+                            {MODEL_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="space-y-1"><span className="font-medium">{labels.temperature}</span>
+                        <input type="number" min={0} max={2} step={0.1} value={draft.generation?.temperature ?? ''} onChange={e => updateGeneration('temperature', e.target.value)} className={fieldClass} />
+                    </label>
+                    <label className="space-y-1"><span className="font-medium">{labels.topP}</span>
+                        <input type="number" min={0} max={1} step={0.05} value={draft.generation?.topP ?? ''} onChange={e => updateGeneration('topP', e.target.value)} className={fieldClass} />
+                    </label>
+                    <label className="space-y-1"><span className="font-medium">{labels.maxOutputTokens}</span>
+                        <input type="number" min={1} step={256} value={draft.generation?.maxOutputTokens ?? ''} onChange={e => updateGeneration('maxOutputTokens', e.target.value)} className={fieldClass} />
+                    </label>
+                </div>
+                <div className="flex items-center gap-4">
+                    <span className="font-medium">{labels.outputMode}</span>
+                    {(['text', 'json'] as OutputMode[]).map(mode => (
+                        <label key={mode} className="flex items-center gap-1">
+                            <input type="radio" checked={(draft.outputMode ?? 'text') === mode} onChange={() => update({ outputMode: mode })} className="h-3 w-3 text-primary focus:ring-primary" />
+                            {mode === 'text' ? labels.outputModeText : labels.outputModeJson}
+                        </label>
+                    ))}
+                </div>
+                {variables.length > 0 && (
+                    <div className="space-y-2">
+                        <span className="font-medium">{labels.promptVariables}</span>
+                        {variables.map(v => (
+                            <div key={v.name} className="grid grid-cols-3 gap-2 items-center">
+                                <code className="font-mono">{`{{${v.name}}}`}</code>
+                                <select value={v.type} onChange={e => updateVariable(v.name, { type: e.target.value as PromptVariable['type'] })} className={fieldClass}>
+                                    <option value="text">{labels.variableTypeText}</option>
+                                    <option value="number">{labels.variableTypeNumber}</option>
+                                    <option value="select">{labels.variableTypeSelect}</option>
+                                </select>
+                                <input type="text" value={v.defaultValue ?? ''} onChange={e => updateVariable(v.name, { defaultValue: e.target.value || undefined })} placeholder={labels.variableDefault} className={fieldClass} />
+                                {v.type === 'select' && (
+                                    <input type="text" value={(v.options ?? []).join(', ')} onChange={e => updateVariable(v.name, { options: e.target.value.split(',').map(o => o.trim()).filter(Boolean) })} placeholder={labels.variableOptions} className={`${fieldClass} col-span-3`} />
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className="flex items-center justify-between pt-2">
+                    <label className="flex items-center gap-1">
+                        <input type="checkbox" checked={saveToLibrary} onChange={e => setSaveToLibrary(e.target.checked)} className="h-3 w-3 rounded text-primary focus:ring-primary" />
+                        {labels.saveToLibrary}
+                    </label>
+                    <button onClick={submit} disabled={!canSubmit} className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg disabled:bg-gray-400">{isEditing ? labels.saveAgent : labels.addToWorkflow}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
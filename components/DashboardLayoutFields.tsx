@@ -0,0 +1,115 @@
+import React from 'react';
+import { Agent, DashboardWidget, WidgetFields, WidgetType } from '../types';
+import { schemaAtPath, schemaPaths, suggestWidgets, WIDGET_TYPES } from '../services/dashboardWidgets';
+import { TrashIcon } from './icons';
+
+interface DashboardLayoutFieldsProps {
+    // Null for the automatic dashboard.
+    widgets: DashboardWidget[] | null;
+    agents: Agent[];
+    onChange: (widgets: DashboardWidget[] | null) => void;
+    labels: Record<string, string>;
+}
+
+type ItemField = Exclude<keyof WidgetFields, 'columns'>;
+
+// The item fields each widget type reads; table and key-value widgets take a column list instead.
+const TYPE_FIELDS: Record<WidgetType, ItemField[]> = {
+    bar: ['label', 'value'],
+    pie: ['label', 'value'],
+    timeline: ['date', 'label', 'detail'],
+    network: ['source', 'target'],
+    table: [],
+    keyValue: [],
+};
+
+const inputClass = "w-full min-w-0 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md p-1";
+
+export const DashboardLayoutFields: React.FC<DashboardLayoutFieldsProps> = ({ widgets, agents, onChange, labels }) => {
+    const structuredAgents = agents.filter(a => a.outputSchema || a.outputMode === 'json');
+    const typeLabels: Record<WidgetType, string> = {
+        bar: labels.widgetBar, pie: labels.widgetPie, table: labels.widgetTable, timeline: labels.widgetTimeline, keyValue: labels.widgetKeyValue, network: labels.widgetNetwork,
+    };
+    const fieldLabels: Record<ItemField, string> = {
+        label: labels.widgetFieldLabel, value: labels.widgetFieldValue, date: labels.widgetFieldDate, detail: labels.widgetFieldDetail, source: labels.widgetFieldSource, target: labels.widgetFieldTarget,
+    };
+
+    if (!widgets) {
+        return (
+            <div className="space-y-1 text-xs">
+                <p className="text-gray-500">{labels.dashboardAutomaticHint}</p>
+                <button onClick={() => onChange(agents.flatMap(suggestWidgets))} className="text-primary hover:underline">{labels.customizeDashboard}</button>
+            </div>
+        );
+    }
+
+    const update = (id: string, change: Partial<DashboardWidget>) => onChange(widgets.map(w => w.id === id ? { ...w, ...change } : w));
+    const move = (index: number, step: number) => {
+        const next = [...widgets];
+        [next[index], next[index + step]] = [next[index + step], next[index]];
+        onChange(next);
+    };
+    const addWidget = () => onChange([...widgets, {
+        id: `widget-${Date.now()}`, type: 'table', title: labels.widgetTable, agentId: structuredAgents[0]?.id ?? '', path: '', fields: {},
+    }]);
+
+    return (
+        <div className="space-y-2 text-xs">
+            {widgets.map((widget, index) => {
+                const agent = agents.find(a => a.id === widget.agentId);
+                const pathId = `widget-paths-${widget.id}`;
+                const fieldsId = `widget-fields-${widget.id}`;
+                return (
+                    <div key={widget.id} className="p-2 space-y-1 bg-white/60 dark:bg-gray-800/60 border border-gray-200 dark:border-gray-600 rounded-md">
+                        <div className="flex items-center gap-1">
+                            <input type="text" value={widget.title} onChange={e => update(widget.id, { title: e.target.value })} aria-label={labels.widgetTitle} className={`${inputClass} font-semibold`} />
+                            <button onClick={() => move(index, -1)} disabled={index === 0} className="px-1 text-gray-500 disabled:opacity-30">↑</button>
+                            <button onClick={() => move(index, 1)} disabled={index === widgets.length - 1} className="px-1 text-gray-500 disabled:opacity-30">↓</button>
+                            <button onClick={() => onChange(widgets.filter(w => w.id !== widget.id))} className="text-gray-400 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
+                        </div>
+                        <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 items-center">
+                            <label>{labels.widgetType}</label>
+                            <select value={widget.type} onChange={e => update(widget.id, { type: e.target.value as WidgetType })} className={inputClass}>
+                                {WIDGET_TYPES.map(type => <option key={type} value={type}>{typeLabels[type]}</option>)}
+                            </select>
+                            <label>{labels.widgetAgent}</label>
+                            <select value={widget.agentId} onChange={e => update(widget.id, { agentId: e.target.value })} className={inputClass}>
+                                {!agent && <option value={widget.agentId}>{labels.widgetAgentMissing}</option>}
+                                {structuredAgents.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                            </select>
+                            <label>{labels.widgetPath}</label>
+                            <input type="text" list={pathId} value={widget.path} onChange={e => update(widget.id, { path: e.target.value.trim() })} placeholder={labels.widgetPathPlaceholder} className={inputClass} />
+                            {TYPE_FIELDS[widget.type].map(field => (
+                                <React.Fragment key={field}>
+                                    <label>{fieldLabels[field]}</label>
+                                    <input type="text" list={fieldsId} value={widget.fields[field] ?? ''} onChange={e => update(widget.id, { fields: { ...widget.fields, [field]: e.target.value.trim() || undefined } })} className={inputClass} />
+                                </React.Fragment>
+                            ))}
+                            {(widget.type === 'table' || widget.type === 'keyValue') && (
+                                <>
+                                    <label>{labels.widgetFieldColumns}</label>
+                                    <input
+                                        type="text"
+                                        value={widget.fields.columns?.join(', ') ?? ''}
+                                        onChange={e => {
+                                            const columns = e.target.value.split(',').map(c => c.trim()).filter(Boolean);
+                                            update(widget.id, { fields: { ...widget.fields, columns: columns.length ? columns : undefined } });
+                                        }}
+                                        placeholder={labels.widgetColumnsPlaceholder}
+                                        className={inputClass}
+                                    />
+                                </>
+                            )}
+                        </div>
+                        <datalist id={pathId}>{schemaPaths(agent?.outputSchema).map(p => <option key={p} value={p} />)}</datalist>
+                        <datalist id={fieldsId}>{schemaPaths(schemaAtPath(agent?.outputSchema, widget.path)).map(p => <option key={p} value={p} />)}</datalist>
+                    </div>
+                );
+            })}
+            <div className="flex items-center gap-3">
+                <button onClick={addWidget} disabled={structuredAgents.length === 0} className="text-primary hover:underline disabled:opacity-50">{labels.addWidget}</button>
+                <button onClick={() => onChange(null)} className="ml-auto text-gray-500 hover:underline">{labels.useAutomaticDashboard}</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,114 @@
+import React, { useMemo } from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, PieChart, Pie, Cell, Legend } from 'recharts';
+import { DashboardWidget } from '../types';
+import { chartData, keyValuePairs, networkGraph, timelineEvents, valueAtPath, widgetColor, widgetItems, widgetTable } from '../services/dashboardWidgets';
+
+interface DashboardWidgetViewProps {
+    widget: DashboardWidget;
+    // The bound agent's `outputJson`.
+    output: unknown;
+    // Called with an entity or value the user clicked, to show where it comes from in the document.
+    onSelectText?: (text: string) => void;
+}
+
+const selectableClass = (onSelectText?: (text: string) => void) => onSelectText ? 'cursor-pointer hover:text-primary hover:underline' : '';
+
+const NETWORK_SIZE = 240;
+
+// Nodes on a circle, edges as straight lines: readable for the few dozen entities an agent extracts.
+const NetworkView: React.FC<{ nodes: string[]; edges: [number, number][]; onSelectText?: (text: string) => void }> = ({ nodes, edges, onSelectText }) => {
+    const center = NETWORK_SIZE / 2;
+    const radius = center - 40;
+    const points = nodes.map((_, i) => {
+        const angle = (2 * Math.PI * i) / nodes.length - Math.PI / 2;
+        return { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) };
+    });
+    return (
+        <svg viewBox={`0 0 ${NETWORK_SIZE} ${NETWORK_SIZE}`} className="w-full h-60 text-gray-500">
+            {edges.map(([from, to], i) => <line key={i} x1={points[from].x} y1={points[from].y} x2={points[to].x} y2={points[to].y} stroke="currentColor" strokeOpacity={0.4} />)}
+            {nodes.map((node, i) => (
+                <g key={node} onClick={() => onSelectText?.(node)} className={onSelectText ? 'cursor-pointer' : ''}>
+                    <circle cx={points[i].x} cy={points[i].y} r={4} fill={widgetColor(node, i)} />
+                    <text x={points[i].x} y={points[i].y - 7} textAnchor="middle" fontSize={8} fill="currentColor">{node.length > 18 ? `${node.slice(0, 17)}…` : node}</text>
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+// One widget over one agent's output. Renders nothing when the output has no data at the widget's path.
+export const DashboardWidgetView: React.FC<DashboardWidgetViewProps> = ({ widget, output, onSelectText }) => {
+    const data = useMemo(() => valueAtPath(output, widget.path), [output, widget.path]);
+    const items = useMemo(() => widgetItems(data), [data]);
+
+    const body = (() => {
+        switch (widget.type) {
+            case 'bar':
+            case 'pie': {
+                const points = chartData(widget.fields, items);
+                if (points.length === 0) return null;
+                return (
+                    <div className="h-48 w-full"><ResponsiveContainer>
+                        {widget.type === 'pie' ? (
+                            <PieChart><Pie data={points} nameKey="label" dataKey="value" cx="50%" cy="50%" outerRadius={55} labelLine={false} label={({ percent }) => `${(percent * 100).toFixed(0)}%`}>
+                                {points.map((p, i) => <Cell key={p.label} fill={widgetColor(p.label, i)} />)}
+                            </Pie><Tooltip /><Legend wrapperStyle={{ fontSize: "12px" }} /></PieChart>
+                        ) : (
+                            <BarChart data={points}><XAxis dataKey="label" fontSize={10} interval={0} /><YAxis fontSize={10} allowDecimals={false} /><Tooltip />
+                                <Bar dataKey="value">{points.map((p, i) => <Cell key={p.label} fill={widgetColor(p.label, i)} />)}</Bar>
+                            </BarChart>
+                        )}
+                    </ResponsiveContainer></div>
+                );
+            }
+            case 'table': {
+                const { columns, rows } = widgetTable(widget.fields, items);
+                if (rows.length === 0) return null;
+                return (
+                    <div className="overflow-auto max-h-48">
+                        <table className="text-xs border-collapse w-full">
+                            <thead><tr>{columns.map(c => <th key={c} className="px-2 py-1 text-left font-semibold border-b border-gray-200 dark:border-gray-700">{c}</th>)}</tr></thead>
+                            <tbody>{rows.map((row, r) => <tr key={r}>{row.map((cell, c) => <td key={c} onClick={() => cell && onSelectText?.(cell)} className={`px-2 py-1 align-top ${selectableClass(onSelectText)}`}>{cell}</td>)}</tr>)}</tbody>
+                        </table>
+                    </div>
+                );
+            }
+            case 'timeline': {
+                const events = timelineEvents(widget.fields, items);
+                if (events.length === 0) return null;
+                return (
+                    <ol className="text-xs border-l-2 border-primary/40 ml-1 space-y-2 max-h-48 overflow-y-auto">
+                        {events.map((e, i) => (
+                            <li key={i} className="pl-3 relative">
+                                <span className="absolute -left-[5px] top-1 w-2 h-2 rounded-full bg-primary" />
+                                <span className="font-semibold">{e.date}</span> <span onClick={() => onSelectText?.(e.label)} className={selectableClass(onSelectText)}>{e.label}</span>
+                                {e.detail && <p className="text-gray-500">{e.detail}</p>}
+                            </li>
+                        ))}
+                    </ol>
+                );
+            }
+            case 'keyValue': {
+                const pairs = keyValuePairs(widget.fields, data);
+                if (pairs.length === 0) return null;
+                return (
+                    <dl className="text-xs grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                        {pairs.map(([key, value]) => <React.Fragment key={key}><dt className="font-semibold">{key}</dt><dd onClick={() => onSelectText?.(value)} className={`break-words ${selectableClass(onSelectText)}`}>{value}</dd></React.Fragment>)}
+                    </dl>
+                );
+            }
+            case 'network': {
+                const graph = networkGraph(widget.fields, items);
+                return graph.edges.length === 0 ? null : <NetworkView nodes={graph.nodes} edges={graph.edges} onSelectText={onSelectText} />;
+            }
+        }
+    })();
+
+    if (!body) return null;
+    return (
+        <div>
+            <h3 className="font-semibold text-sm mb-2">{widget.title}</h3>
+            {body}
+        </div>
+    );
+};
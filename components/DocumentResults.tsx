@@ -0,0 +1,67 @@
+import React from 'react';
+import { Agent, AgentStatus } from '../types';
+
+export interface ResultGroup {
+    id: string;
+    name: string;
+    agents: Agent[];
+}
+
+interface DocumentResultsProps {
+    groups: ResultGroup[];
+    activeGroupId: string | null;
+    onSelectGroup: (id: string) => void;
+    labels: Record<string, string>;
+}
+
+const STATUS_CLASSES: Partial<Record<AgentStatus, string>> = {
+    [AgentStatus.Success]: 'text-green-600 dark:text-green-400',
+    [AgentStatus.Running]: 'text-blue-500 animate-pulse',
+    [AgentStatus.Retrying]: 'text-blue-500 animate-pulse',
+    [AgentStatus.Error]: 'text-red-500',
+    [AgentStatus.InvalidOutput]: 'text-amber-600 dark:text-amber-400',
+    [AgentStatus.TimedOut]: 'text-orange-500',
+};
+
+// The outputs of a multi-document run, one collapsible group per document plus one for the comparison.
+// Selecting a document group also shows that document and its results in the agent cards.
+export const DocumentResults: React.FC<DocumentResultsProps> = ({ groups, activeGroupId, onSelectGroup, labels }) => {
+    const statusLabels: Record<AgentStatus, string> = {
+        [AgentStatus.Pending]: labels.statusQueued,
+        [AgentStatus.Running]: labels.running,
+        [AgentStatus.Success]: labels.statusDone,
+        [AgentStatus.Error]: labels.statusFailed,
+        [AgentStatus.InvalidOutput]: labels.invalidOutput,
+        [AgentStatus.Retrying]: labels.retrying,
+        [AgentStatus.Skipped]: labels.skipped,
+        [AgentStatus.TimedOut]: labels.timedOut,
+        [AgentStatus.Cancelled]: labels.cancelled,
+    };
+    return (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md">
+            <h2 className="text-lg font-semibold mb-4">{labels.resultsByDocument}</h2>
+            <div className="space-y-2 text-xs">
+                {groups.map(group => {
+                    const succeeded = group.agents.filter(a => a.status === AgentStatus.Success).length;
+                    return (
+                        <details key={group.id} open={group.id === activeGroupId} className="p-2 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                            <summary className="cursor-pointer flex items-center justify-between gap-2">
+                                <button onClick={e => { e.preventDefault(); onSelectGroup(group.id); }} className={`truncate text-left font-medium hover:underline ${group.id === activeGroupId ? 'text-primary' : ''}`} title={group.name}>{group.name}</button>
+                                <span className="flex-shrink-0 text-gray-500">{succeeded}/{group.agents.length}</span>
+                            </summary>
+                            <div className="mt-2 space-y-2">
+                                {group.agents.map(agent => (
+                                    <div key={agent.id}>
+                                        <p className="flex justify-between gap-2"><span className="font-semibold">{agent.name}</span><span className={STATUS_CLASSES[agent.status] ?? 'text-gray-500'}>{statusLabels[agent.status]}</span></p>
+                                        {agent.output && <pre className="mt-1 p-2 whitespace-pre-wrap font-mono bg-white dark:bg-gray-800 rounded max-h-32 overflow-y-auto">{agent.output}</pre>}
+                                        {!agent.output && agent.error && <p className="mt-1 text-red-500">{agent.error}</p>}
+                                    </div>
+                                ))}
+                            </div>
+                        </details>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,349 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Agent, EvalCase, EvalCaseResult, EvalDataset, EvalMetric, EvalRun } from '../types';
+import { baselineFor, compareRuns, DatasetImportError, EVAL_METRICS, parseDatasetFile, serializeDataset } from '../services/evaluation';
+import { deleteDataset, deleteEvalRun, listDatasets, listEvalRuns, saveDataset, saveEvalRun } from '../services/evalStore';
+import { formatUsd } from '../services/costEstimation';
+import { downloadBlob } from '../services/download';
+import { StopIcon, TrashIcon } from './icons';
+
+interface EvaluationDialogProps {
+    // The agents that can be evaluated; comparison agents need several documents and are left out.
+    agents: Agent[];
+    // The open document, offered as a new case.
+    currentDocument: { name: string; content: string } | null;
+    // False while a workflow or batch is running or no API key is set.
+    canRun: boolean;
+    // Runs the evaluation within the usage budget; resolves to null when stopped or not approved.
+    onRun: (agent: Agent, dataset: EvalDataset, onResult: (result: EvalCaseResult) => void, signal: AbortSignal) => Promise<EvalRun | null>;
+    onClose: () => void;
+    labels: Record<string, string>;
+}
+
+const inputClass = "w-full p-2 text-xs bg-gray-50 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-primary";
+
+const percent = (score: number) => `${(score * 100).toFixed(1)}%`;
+
+const DeltaText: React.FC<{ delta: number | undefined }> = ({ delta }) => {
+    if (delta === undefined) return <span className="text-gray-400">–</span>;
+    const points = delta * 100;
+    const color = points > 0.05 ? 'text-green-600 dark:text-green-400' : points < -0.05 ? 'text-red-500' : 'text-gray-500';
+    return <span className={color}>{points >= 0 ? '+' : ''}{points.toFixed(1)}</span>;
+};
+
+const slugify = (name: string) => name.trim().replace(/[^\w-]+/g, '_') || 'dataset';
+
+// Golden datasets, evaluation runs and their comparison with the baseline. Datasets and runs are kept in
+// IndexedDB; edits are saved as they are made.
+export const EvaluationDialog: React.FC<EvaluationDialogProps> = ({ agents, currentDocument, canRun, onRun, onClose, labels }) => {
+    const [datasets, setDatasets] = useState<EvalDataset[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [runs, setRuns] = useState<EvalRun[]>([]);
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+    const [agentId, setAgentId] = useState(agents[0]?.id ?? '');
+    const [progress, setProgress] = useState<EvalCaseResult[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [importIssues, setImportIssues] = useState<{ message: string; issues: string[] } | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const dataset = datasets.find(d => d.id === selectedId) ?? null;
+    const agent = agents.find(a => a.id === agentId) ?? null;
+    const selectedRun = runs.find(r => r.id === selectedRunId) ?? null;
+    const baseline = selectedRun && dataset ? baselineFor(selectedRun, runs, dataset) : null;
+    const comparison = selectedRun && baseline ? compareRuns(selectedRun, baseline) : null;
+    const baselineScores = new Map(baseline?.results.map(r => [r.caseId, r.score]));
+
+    const metricLabels: Record<EvalMetric, string> = {
+        exactMatch: labels.evalMetricExactMatch,
+        setF1: labels.evalMetricSetF1,
+        jsonFields: labels.evalMetricJsonFields,
+        llmJudge: labels.evalMetricLlmJudge,
+    };
+
+    useEffect(() => {
+        listDatasets()
+            .then(loaded => {
+                setDatasets(loaded);
+                setSelectedId(loaded[0]?.id ?? null);
+            })
+            .catch(err => {
+                console.error("Failed to load evaluation datasets:", err);
+                setError(labels.evalLoadFailed);
+            });
+        // Closing the dialog stops a running evaluation.
+        return () => abortRef.current?.abort();
+    }, []);
+
+    useEffect(() => {
+        setRuns([]);
+        setSelectedRunId(null);
+        if (!selectedId) return;
+        listEvalRuns(selectedId)
+            .then(loaded => {
+                setRuns(loaded);
+                setSelectedRunId(loaded[0]?.id ?? null);
+            })
+            .catch(err => console.error("Failed to load evaluation runs:", err));
+    }, [selectedId]);
+
+    const store = (next: EvalDataset) => {
+        setDatasets(prev => prev.some(d => d.id === next.id) ? prev.map(d => d.id === next.id ? next : d) : [...prev, next]);
+        saveDataset(next).catch(err => console.error("Failed to save evaluation dataset:", err));
+    };
+    const update = (patch: Partial<EvalDataset>) => {
+        if (dataset) store({ ...dataset, ...patch, updatedAt: Date.now() });
+    };
+    const updateCase = (id: string, patch: Partial<EvalCase>) =>
+        update({ cases: dataset!.cases.map(c => c.id === id ? { ...c, ...patch } : c) });
+    const addCase = (name: string, content: string) =>
+        update({ cases: [...dataset!.cases, { id: `case-${Date.now()}`, name, content, expected: '' }] });
+
+    const createDataset = (next: EvalDataset) => {
+        store(next);
+        setSelectedId(next.id);
+    };
+
+    const removeDataset = async () => {
+        if (!dataset) return;
+        try {
+            await deleteDataset(dataset.id);
+            const rest = datasets.filter(d => d.id !== dataset.id);
+            setDatasets(rest);
+            setSelectedId(rest[0]?.id ?? null);
+        } catch (err) {
+            console.error("Failed to delete evaluation dataset:", err);
+        }
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            createDataset(parseDatasetFile(await file.text()));
+            setImportIssues(null);
+        } catch (err) {
+            if (err instanceof DatasetImportError) {
+                setImportIssues({ message: `${file.name}: ${err.message}`, issues: err.issues });
+            } else {
+                console.error("Error importing evaluation dataset:", err);
+                setImportIssues({ message: `${file.name}: ${labels.importFailed}`, issues: [] });
+            }
+        }
+    };
+
+    const handleRun = async () => {
+        if (!dataset || !agent) return;
+        abortRef.current = new AbortController();
+        setProgress([]);
+        setError(null);
+        try {
+            const run = await onRun(agent, dataset, result => setProgress(prev => [...(prev ?? []), result]), abortRef.current.signal);
+            if (run) {
+                await saveEvalRun(run);
+                setRuns(prev => [run, ...prev]);
+                setSelectedRunId(run.id);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            abortRef.current = null;
+            setProgress(null);
+        }
+    };
+
+    const removeRun = async (id: string) => {
+        try {
+            await deleteEvalRun(id);
+            const rest = runs.filter(r => r.id !== id);
+            setRuns(rest);
+            if (selectedRunId === id) setSelectedRunId(rest[0]?.id ?? null);
+            if (dataset?.baselineRunId === id) update({ baselineRunId: undefined });
+        } catch (err) {
+            console.error("Failed to delete evaluation run:", err);
+        }
+    };
+
+    const isRunning = progress !== null;
+    const shownResults = progress ?? selectedRun?.results ?? [];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-6 space-y-4 text-xs" onClick={e => e.stopPropagation()}>
+                <div>
+                    <h2 className="text-lg font-semibold">{labels.evaluation}</h2>
+                    <p className="text-gray-500 dark:text-gray-400">{labels.evalHint}</p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{labels.evalDatasets}</span>
+                    {datasets.length === 0 ? <span className="text-gray-500">{labels.noEvalDatasets}</span> : (
+                        <select value={selectedId ?? ''} onChange={e => setSelectedId(e.target.value)} disabled={isRunning} className="bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md p-1">
+                            {datasets.map(d => <option key={d.id} value={d.id}>{d.name || labels.untitledEvalDataset} ({d.cases.length})</option>)}
+                        </select>
+                    )}
+                    <button onClick={() => createDataset({ id: `dataset-${Date.now()}`, name: labels.untitledEvalDataset, cases: [], metric: 'exactMatch', updatedAt: Date.now() })} disabled={isRunning} className="text-primary hover:underline disabled:opacity-50">{labels.newEvalDataset}</button>
+                    <label className="relative text-primary hover:underline cursor-pointer">
+                        {labels.importEvalDataset}
+                        <input type="file" accept=".json,application/json" onChange={handleImport} disabled={isRunning} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                    </label>
+                    {dataset && (
+                        <>
+                            <button onClick={() => downloadBlob(new Blob([serializeDataset(dataset)], { type: 'application/json' }), `${slugify(dataset.name)}.eval.json`)} className="text-primary hover:underline">{labels.exportEvalDataset}</button>
+                            <button onClick={removeDataset} disabled={isRunning} title={labels.deleteEvalDataset} className="ml-auto text-gray-400 hover:text-red-500 disabled:opacity-50"><TrashIcon className="w-4 h-4" /></button>
+                        </>
+                    )}
+                </div>
+                {importIssues && (
+                    <div className="p-2 text-red-500 bg-red-50 dark:bg-red-900/30 rounded">
+                        <div className="flex justify-between gap-2">
+                            <p className="font-semibold">{importIssues.message}</p>
+                            <button onClick={() => setImportIssues(null)} className="flex-shrink-0">&times;</button>
+                        </div>
+                        <ul className="mt-1 list-disc list-inside font-mono max-h-32 overflow-y-auto">
+                            {importIssues.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                        </ul>
+                    </div>
+                )}
+
+                {dataset && (
+                    <fieldset disabled={isRunning} className="space-y-3">
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="block space-y-1">
+                                <span className="font-semibold">{labels.evalDatasetName}</span>
+                                <input type="text" value={dataset.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+                            </label>
+                            <label className="block space-y-1">
+                                <span className="font-semibold">{labels.evalMetric}</span>
+                                <select value={dataset.metric} onChange={e => update({ metric: e.target.value as EvalMetric })} className={inputClass}>
+                                    {EVAL_METRICS.map(m => <option key={m} value={m}>{metricLabels[m]}</option>)}
+                                </select>
+                            </label>
+                        </div>
+                        {(dataset.metric === 'exactMatch' || dataset.metric === 'setF1') && (
+                            <label className="block space-y-1">
+                                <span className="font-semibold">{labels.evalPath}</span>
+                                <input type="text" value={dataset.path ?? ''} onChange={e => update({ path: e.target.value })} placeholder={labels.evalPathHint} className={`${inputClass} font-mono`} />
+                            </label>
+                        )}
+                        {dataset.metric === 'jsonFields' && (
+                            <label className="block space-y-1">
+                                <span className="font-semibold">{labels.evalFields}</span>
+                                <input type="text" value={(dataset.fields ?? []).join(', ')} onChange={e => update({ fields: e.target.value.split(',').map(f => f.trim()).filter(Boolean) })} placeholder={labels.evalFieldsHint} className={`${inputClass} font-mono`} />
+                            </label>
+                        )}
+                        {dataset.metric === 'llmJudge' && (
+                            <label className="block space-y-1">
+                                <span className="font-semibold">{labels.evalRubric}</span>
+                                <textarea value={dataset.rubric ?? ''} onChange={e => update({ rubric: e.target.value })} placeholder={labels.evalRubricHint} rows={2} className={inputClass} />
+                            </label>
+                        )}
+
+                        <div className="space-y-1">
+                            <span className="font-semibold">{labels.evalCases} ({dataset.cases.length})</span>
+                            {dataset.cases.map(c => (
+                                <details key={c.id} className="p-2 bg-gray-100 dark:bg-gray-700 rounded-md">
+                                    <summary className="cursor-pointer truncate">{c.name || labels.evalCaseName}</summary>
+                                    <div className="mt-2 space-y-2">
+                                        <div className="flex items-center gap-2">
+                                            <input type="text" value={c.name} onChange={e => updateCase(c.id, { name: e.target.value })} placeholder={labels.evalCaseName} className={inputClass} />
+                                            <button onClick={() => update({ cases: dataset.cases.filter(x => x.id !== c.id) })} title={labels.removeEvalCase} className="text-gray-400 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <textarea value={c.content} onChange={e => updateCase(c.id, { content: e.target.value })} placeholder={labels.evalCaseContent} rows={6} className={inputClass} />
+                                            <textarea value={c.expected} onChange={e => updateCase(c.id, { expected: e.target.value })} placeholder={labels.evalExpected} rows={6} className={`${inputClass} font-mono`} />
+                                        </div>
+                                    </div>
+                                </details>
+                            ))}
+                            <div className="flex gap-3">
+                                <button onClick={() => addCase('', '')} className="text-primary hover:underline">{labels.addEvalCase}</button>
+                                {currentDocument && <button onClick={() => addCase(currentDocument.name, currentDocument.content)} className="text-primary hover:underline">{labels.addCurrentDocumentCase}</button>}
+                            </div>
+                        </div>
+                    </fieldset>
+                )}
+
+                {dataset && (
+                    <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                            <span className="font-semibold">{labels.evalAgent}</span>
+                            <select value={agentId} onChange={e => setAgentId(e.target.value)} disabled={isRunning} className="flex-1 min-w-0 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md p-1">
+                                {agents.map(a => <option key={a.id} value={a.id}>{a.name} · {a.model}</option>)}
+                            </select>
+                            {isRunning ? (
+                                <button onClick={() => abortRef.current?.abort()} className="flex items-center gap-1 px-3 py-2 bg-red-500 text-white font-semibold rounded-lg">
+                                    <StopIcon className="w-4 h-4" /> {labels.stop} ({progress.length}/{dataset.cases.length})
+                                </button>
+                            ) : (
+                                <button onClick={handleRun} disabled={!canRun || !agent || dataset.cases.length === 0} className="px-3 py-2 bg-primary text-white font-semibold rounded-lg disabled:bg-gray-400">{labels.runEvaluation}</button>
+                            )}
+                        </div>
+                        <p className="text-gray-500 dark:text-gray-400">{labels.evalAgentAlone}</p>
+                    </div>
+                )}
+                {error && <p className="text-red-500">{error}</p>}
+
+                {dataset && runs.length > 0 && (
+                    <div className="space-y-1">
+                        <span className="font-semibold">{labels.evalRuns}</span>
+                        <ul className="space-y-1 max-h-32 overflow-y-auto">
+                            {runs.map(run => (
+                                <li key={run.id} className={`flex items-center gap-2 p-1 rounded ${run.id === selectedRunId ? 'bg-primary/10' : ''}`}>
+                                    <button onClick={() => setSelectedRunId(run.id)} disabled={isRunning} className="flex-1 min-w-0 text-left truncate hover:underline">
+                                        {new Date(run.createdAt).toLocaleString()} · {run.agent.name} · {run.agent.model} · {percent(run.score)} · {formatUsd(run.cost)}
+                                    </button>
+                                    {run.id === dataset.baselineRunId
+                                        ? <span className="font-semibold">{labels.evalBaseline}</span>
+                                        : <button onClick={() => update({ baselineRunId: run.id })} className="text-primary hover:underline">{labels.setEvalBaseline}</button>}
+                                    <button onClick={() => removeRun(run.id)} disabled={isRunning} className="text-gray-400 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {dataset && !isRunning && selectedRun && (
+                    <p className="text-sm">
+                        <span className="font-semibold">{labels.evalScore}: {percent(selectedRun.score)}</span>
+                        {comparison ? (
+                            <span> · {labels.evalBaseline} {percent(baseline!.score)} (<DeltaText delta={comparison.delta} />) · {comparison.improved} {labels.evalImproved} · {comparison.regressed} {labels.evalRegressed}</span>
+                        ) : <span className="text-gray-500"> · {labels.evalNoBaseline}</span>}
+                    </p>
+                )}
+                {dataset && shownResults.length > 0 && (
+                    <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                        <table className="w-full border-collapse">
+                            <thead className="sticky top-0 bg-white dark:bg-gray-800">
+                                <tr className="text-left">
+                                    <th className="p-1">{labels.evalCase}</th>
+                                    <th className="p-1 text-right">{labels.evalScore}</th>
+                                    <th className="p-1 text-right">{labels.evalBaseline}</th>
+                                    <th className="p-1 text-right">Δ</th>
+                                    <th className="p-1">{labels.evalDetail}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {shownResults.map(result => {
+                                    const before = isRunning ? undefined : baselineScores.get(result.caseId);
+                                    return (
+                                        <tr key={result.caseId} className="border-t border-gray-200 dark:border-gray-700 align-top">
+                                            <td className="p-1" title={result.output ?? undefined}>{result.caseName}</td>
+                                            <td className="p-1 text-right">{percent(result.score)}</td>
+                                            <td className="p-1 text-right">{before === undefined ? '–' : percent(before)}</td>
+                                            <td className="p-1 text-right"><DeltaText delta={isRunning ? undefined : comparison?.caseDeltas.get(result.caseId)} /></td>
+                                            <td className="p-1 text-gray-500 dark:text-gray-400 break-words">{result.detail}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <div className="flex justify-end">
+                    <button onClick={onClose} className="px-4 py-2 text-sm border rounded-lg">{labels.close}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { PageExtraction } from '../types';
+
+interface ExtractionReportProps {
+    report: PageExtraction[];
+    onSelectPage: (page: number) => void;
+    onRetryPage: (page: number) => void;
+    canRetry: boolean;
+    labels: Record<string, string>;
+}
+
+const STATUS_COLORS: Record<PageExtraction['status'], string> = {
+    queued: 'bg-gray-300 dark:bg-gray-600',
+    running: 'bg-blue-400 animate-pulse',
+    done: 'bg-green-500',
+    failed: 'bg-red-500',
+};
+
+const STATUS_TEXT_CLASSES: Record<PageExtraction['status'], string> = {
+    queued: 'text-gray-500',
+    running: 'text-blue-600 dark:text-blue-400',
+    done: 'text-green-600 dark:text-green-400',
+    failed: 'text-red-500',
+};
+
+// Progress of the OCR pages as a grid (failed cells retry on click), followed by a per-page report of
+// which method produced each page.
+export const ExtractionReport: React.FC<ExtractionReportProps> = ({ report, onSelectPage, onRetryPage, canRetry, labels }) => {
+    const methodLabels: Record<PageExtraction['method'], string> = { text: labels.methodText, ocr: labels.methodOcr };
+    const statusLabels: Record<PageExtraction['status'], string> = { queued: labels.statusQueued, running: labels.statusRunning, done: labels.statusDone, failed: labels.statusFailed };
+    const ocrPages = report.filter(r => r.method === 'ocr');
+    const textPageCount = report.length - ocrPages.length;
+    const failedCount = ocrPages.filter(r => r.status === 'failed').length;
+
+    return (
+        <div className="mt-4 text-xs space-y-2">
+            {ocrPages.length > 0 && (
+                <div>
+                    <p className="text-gray-500 dark:text-gray-400">{labels.ocrProgress} ({ocrPages.filter(r => r.status === 'done').length}/{ocrPages.length})</p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                        {ocrPages.map(r => (
+                            <button
+                                key={r.page}
+                                onClick={() => r.status === 'failed' && canRetry ? onRetryPage(r.page) : onSelectPage(r.page)}
+                                title={`${labels.extractionPage} ${r.page} · ${statusLabels[r.status]}${r.cached ? ` · ${labels.cachedPage}` : ''}${r.error ? ` · ${r.error}` : ''}`}
+                                className={`w-6 h-6 rounded-sm text-[10px] text-white ${STATUS_COLORS[r.status]}`}
+                            >{r.page}</button>
+                        ))}
+                    </div>
+                </div>
+            )}
+            <details>
+                <summary className="cursor-pointer font-medium text-gray-500 dark:text-gray-400">
+                    {labels.extractionReport}: {methodLabels.text} {textPageCount} · {methodLabels.ocr} {ocrPages.length}{failedCount > 0 ? ` · ${labels.statusFailed} ${failedCount}` : ''}
+                </summary>
+                <table className="mt-2 w-full text-left">
+                    <thead>
+                        <tr className="text-gray-500"><th className="py-1">{labels.extractionPage}</th><th>{labels.extractionMethod}</th><th>{labels.extractionStatus}</th><th className="text-right">{labels.extractionCharacters}</th></tr>
+                    </thead>
+                    <tbody>
+                        {report.map(r => (
+                            <tr key={r.page} className="border-t border-gray-200 dark:border-gray-700">
+                                <td className="py-1"><button onClick={() => onSelectPage(r.page)} className="text-primary hover:underline">{r.page}</button></td>
+                                <td>{methodLabels[r.method]}{r.cached ? ` (${labels.cachedPage})` : ''}</td>
+                                <td className={STATUS_TEXT_CLASSES[r.status]} title={r.error}>
+                                    {statusLabels[r.status]}
+                                    {r.status === 'failed' && <button onClick={() => onRetryPage(r.page)} disabled={!canRetry} className="ml-2 text-primary hover:underline disabled:opacity-40">{labels.retryPage}</button>}
+                                </td>
+                                <td className="text-right">{r.characters.toLocaleString()}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </details>
+        </div>
+    );
+};
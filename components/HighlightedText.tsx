@@ -0,0 +1,41 @@
+import React, { memo, useMemo } from 'react';
+import { Keyword, TextSpan } from '../types';
+import { firstMatchAfter, KeywordMatch } from '../services/keywordMatching';
+
+interface HighlightedTextProps {
+    text: string;
+    keywords: Keyword[];
+    // From findKeywordMatches over `text`.
+    matches: KeywordMatch[];
+    // One marked span, e.g. a cited passage or the current keyword occurrence.
+    activeSpan?: TextSpan | null;
+}
+
+// Renders the text with its keyword matches coloured. Matches are computed once by the caller; the plain runs
+// between them stay text nodes, and the component is memoized so typing elsewhere does not re-render a long
+// document.
+export const HighlightedText: React.FC<HighlightedTextProps> = memo(({ text, keywords, matches, activeSpan }) => {
+    const nodes = useMemo(() => {
+        const colors = new Map(keywords.map(k => [k.id, k.color]));
+        const renderRange = (from: number, to: number): React.ReactNode[] => {
+            const out: React.ReactNode[] = [];
+            let pos = from;
+            for (let i = firstMatchAfter(matches, from); i < matches.length && matches[i].start < to; i++) {
+                const start = Math.max(matches[i].start, from);
+                const end = Math.min(matches[i].end, to);
+                if (start > pos) out.push(text.slice(pos, start));
+                out.push(<span key={start} style={{ color: colors.get(matches[i].keywordId), fontWeight: 600 }}>{text.slice(start, end)}</span>);
+                pos = end;
+            }
+            if (pos < to) out.push(text.slice(pos, to));
+            return out;
+        };
+        if (!activeSpan) return renderRange(0, text.length);
+        return [
+            ...renderRange(0, activeSpan.start),
+            <mark key="active" data-active-span className="bg-yellow-200 dark:bg-yellow-600/60 rounded">{renderRange(activeSpan.start, activeSpan.end)}</mark>,
+            ...renderRange(activeSpan.end, text.length),
+        ];
+    }, [text, keywords, matches, activeSpan]);
+    return <>{nodes}</>;
+});
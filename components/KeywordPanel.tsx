@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { Keyword, KeywordMatchMode, KeywordSet } from '../types';
+import { keywordError, KeywordMatches } from '../services/keywordMatching';
+import { ASSISTANT_MODEL, suggestSynonyms } from '../services/geminiService';
+import { usageCost } from '../services/costEstimation';
+import { ChevronLeft, ChevronRight, TrashIcon } from './icons';
+
+interface KeywordPanelProps {
+    // The document the synonym suggestions are for.
+    content: string;
+    // Called with the cost of each synonym suggestion, in USD.
+    onSpend: (cost: number) => void;
+    keywords: Keyword[];
+    onKeywordsChange: (keywords: Keyword[]) => void;
+    keywordSets: KeywordSet[];
+    onKeywordSetsChange: (sets: KeywordSet[]) => void;
+    matches: KeywordMatches;
+    // The occurrence shown in the document, when it came from onNavigate.
+    current: { keywordId: string; index: number } | null;
+    onNavigate: (keywordId: string, step: 1 | -1) => void;
+    labels: Record<string, string>;
+}
+
+const DEFAULT_COLOR = '#f87171'; // Coral color
+
+const keywordLabel = (keyword: Keyword) => keyword.mode === 'regex' ? `/${keyword.text}/` : keyword.text;
+
+// Adding, tuning and navigating the highlighted keywords, and saving them as named sets for other documents.
+export const KeywordPanel: React.FC<KeywordPanelProps> = ({
+    content, onSpend, keywords, onKeywordsChange, keywordSets, onKeywordSetsChange, matches, current, onNavigate, labels,
+}) => {
+    const [draft, setDraft] = useState<Omit<Keyword, 'id'>>({ text: '', color: DEFAULT_COLOR, mode: 'text', caseSensitive: false });
+    const [draftError, setDraftError] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [newSynonym, setNewSynonym] = useState('');
+    const [suggestions, setSuggestions] = useState<string[]>([]);
+    const [isSuggesting, setIsSuggesting] = useState(false);
+    const [suggestError, setSuggestError] = useState<string | null>(null);
+    const [setName, setSetName] = useState('');
+
+    const editing = keywords.find(k => k.id === editingId) ?? null;
+    const modeLabels: Record<KeywordMatchMode, string> = { text: labels.keywordModeText, word: labels.keywordModeWord, regex: labels.keywordModeRegex };
+
+    const updateKeyword = (id: string, update: Partial<Keyword>) => onKeywordsChange(keywords.map(k => k.id === id ? { ...k, ...update } : k));
+
+    const addKeyword = () => {
+        if (!draft.text.trim()) return;
+        const error = keywordError({ ...draft, id: '' });
+        setDraftError(error);
+        if (error) return;
+        onKeywordsChange([...keywords, { ...draft, id: `kw-${Date.now()}` }]);
+        setDraft(d => ({ ...d, text: '' }));
+    };
+
+    const removeKeyword = (id: string) => {
+        onKeywordsChange(keywords.filter(k => k.id !== id));
+        if (id === editingId) setEditingId(null);
+    };
+
+    const toggleEditing = (id: string) => {
+        setEditingId(prev => prev === id ? null : id);
+        setNewSynonym('');
+        setSuggestions([]);
+        setSuggestError(null);
+    };
+
+    const addSynonyms = (keyword: Keyword, synonyms: string[]) => {
+        const existing = keyword.synonyms ?? [];
+        const added = synonyms.map(s => s.trim()).filter(s => s && !existing.some(e => e.toLowerCase() === s.toLowerCase()));
+        if (added.length > 0) updateKeyword(keyword.id, { synonyms: [...existing, ...added] });
+        setSuggestions(prev => prev.filter(s => !synonyms.includes(s)));
+    };
+
+    const suggest = async (keyword: Keyword) => {
+        setIsSuggesting(true);
+        setSuggestError(null);
+        try {
+            const { synonyms: suggested, usage } = await suggestSynonyms(keyword.text, content);
+            if (usage) onSpend(usageCost(ASSISTANT_MODEL, usage));
+            setSuggestions(suggested.filter(s => !(keyword.synonyms ?? []).some(e => e.toLowerCase() === s.toLowerCase())));
+        } catch (err) {
+            setSuggestError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsSuggesting(false);
+        }
+    };
+
+    // Saving under an existing name replaces that set.
+    const saveSet = () => {
+        const name = setName.trim();
+        if (!name || keywords.length === 0) return;
+        const existing = keywordSets.find(s => s.name === name);
+        const saved: KeywordSet = { id: existing?.id ?? `kwset-${Date.now()}`, name, keywords, updatedAt: Date.now() };
+        onKeywordSetsChange(existing ? keywordSets.map(s => s.id === existing.id ? saved : s) : [...keywordSets, saved]);
+        setSetName('');
+    };
+
+    const loadSet = (set: KeywordSet) => {
+        onKeywordsChange(set.keywords);
+        setEditingId(null);
+    };
+
+    return (
+        <div className="space-y-2 text-xs">
+            <div className="flex flex-wrap items-center gap-2">
+                <input type="text" value={draft.text} onChange={e => { setDraft(d => ({ ...d, text: e.target.value })); setDraftError(null); }} onKeyDown={e => e.key === 'Enter' && addKeyword()} placeholder={labels.keywordPlaceholder} className="flex-grow min-w-0 p-2 text-sm bg-gray-50 dark:bg-gray-700/50 border rounded-md focus:ring-2 focus:ring-primary" />
+                <select value={draft.mode} onChange={e => { setDraft(d => ({ ...d, mode: e.target.value as KeywordMatchMode })); setDraftError(null); }} className="p-2 bg-gray-50 dark:bg-gray-700/50 border rounded-md">
+                    {(Object.keys(modeLabels) as KeywordMatchMode[]).map(mode => <option key={mode} value={mode}>{modeLabels[mode]}</option>)}
+                </select>
+                <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={!!draft.caseSensitive} onChange={e => setDraft(d => ({ ...d, caseSensitive: e.target.checked }))} className="h-3 w-3 rounded text-primary focus:ring-primary" />
+                    {labels.matchCase}
+                </label>
+                <input type="color" value={draft.color} onChange={e => setDraft(d => ({ ...d, color: e.target.value }))} className="w-10 h-10 p-1 rounded-md cursor-pointer bg-transparent border-none" />
+                <button onClick={addKeyword} className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg">{labels.addKeyword}</button>
+            </div>
+            {draftError && <p className="text-red-500">{`${labels.invalidRegex}: ${draftError}`}</p>}
+
+            <div className="flex flex-wrap gap-2">
+                {keywords.map(kw => {
+                    const count = matches.byKeyword.get(kw.id)?.length ?? 0;
+                    const position = current?.keywordId === kw.id ? `${current.index + 1}/${count}` : String(count);
+                    return (
+                        <div key={kw.id} className={`flex items-center gap-1 font-medium pl-2 pr-1 py-1 rounded-full text-white ${kw.id === editingId ? 'ring-2 ring-offset-1 ring-primary' : ''}`} style={{ backgroundColor: kw.color }}>
+                            <button onClick={() => toggleEditing(kw.id)} className="hover:underline" title={kw.synonyms?.join(', ')}>
+                                {keywordLabel(kw)}
+                                {kw.synonyms?.length ? <span className="opacity-75"> +{kw.synonyms.length}</span> : null}
+                            </button>
+                            <span className="px-1 rounded bg-black/20" title={matches.limited.has(kw.id) ? labels.matchesLimited : undefined}>
+                                {position}{matches.limited.has(kw.id) ? '+' : ''}
+                            </span>
+                            <button onClick={() => onNavigate(kw.id, -1)} disabled={count === 0} title={labels.previousMatch} className="rounded-full hover:bg-black/30 disabled:opacity-40"><ChevronLeft className="w-3 h-3" /></button>
+                            <button onClick={() => onNavigate(kw.id, 1)} disabled={count === 0} title={labels.nextMatch} className="rounded-full hover:bg-black/30 disabled:opacity-40"><ChevronRight className="w-3 h-3" /></button>
+                            <button onClick={() => removeKeyword(kw.id)} className="w-4 h-4 rounded-full bg-black/20 hover:bg-black/40 text-white text-center leading-none">&times;</button>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {editing && (
+                <div className="p-2 space-y-2 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                    <div className="flex flex-wrap items-center gap-3">
+                        <span className="font-semibold">{keywordLabel(editing)}</span>
+                        <select value={editing.mode ?? 'text'} onChange={e => updateKeyword(editing.id, { mode: e.target.value as KeywordMatchMode })} className="p-1 bg-white dark:bg-gray-800 border rounded-md">
+                            {(Object.keys(modeLabels) as KeywordMatchMode[]).map(mode => <option key={mode} value={mode}>{modeLabels[mode]}</option>)}
+                        </select>
+                        <label className="flex items-center gap-1">
+                            <input type="checkbox" checked={!!editing.caseSensitive} onChange={e => updateKeyword(editing.id, { caseSensitive: e.target.checked })} className="h-3 w-3 rounded text-primary focus:ring-primary" />
+                            {labels.matchCase}
+                        </label>
+                    </div>
+                    {keywordError(editing) && <p className="text-red-500">{`${labels.invalidRegex}: ${keywordError(editing)}`}</p>}
+                    <div>
+                        <p className="font-semibold mb-1">{labels.synonyms}</p>
+                        <div className="flex flex-wrap gap-1">
+                            {(editing.synonyms ?? []).map(synonym => (
+                                <span key={synonym} className="flex items-center gap-1 px-2 py-0.5 rounded-full border" style={{ borderColor: editing.color }}>
+                                    {synonym}
+                                    <button onClick={() => updateKeyword(editing.id, { synonyms: editing.synonyms!.filter(s => s !== synonym) })} className="text-gray-400 hover:text-red-500">&times;</button>
+                                </span>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-2 mt-1">
+                            <input type="text" value={newSynonym} onChange={e => setNewSynonym(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') { addSynonyms(editing, [newSynonym]); setNewSynonym(''); } }} placeholder={labels.addSynonymPlaceholder} className="flex-grow min-w-0 p-1 bg-white dark:bg-gray-800 border rounded-md" />
+                            <button onClick={() => suggest(editing)} disabled={isSuggesting || editing.mode === 'regex'} className="px-2 py-1 border border-primary text-primary rounded-md disabled:opacity-50">
+                                {isSuggesting ? labels.suggestingSynonyms : labels.suggestSynonyms}
+                            </button>
+                        </div>
+                        {suggestError && <p className="mt-1 text-red-500">{suggestError}</p>}
+                        {suggestions.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-1 mt-1">
+                                {suggestions.map(s => <button key={s} onClick={() => addSynonyms(editing, [s])} className="px-2 py-0.5 rounded-full bg-primary/10 text-primary hover:bg-primary/20">+ {s}</button>)}
+                                <button onClick={() => addSynonyms(editing, suggestions)} className="text-primary hover:underline">{labels.addAllSynonyms}</button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <details>
+                <summary className="cursor-pointer font-semibold">{`${labels.keywordSets} (${keywordSets.length})`}</summary>
+                <div className="flex items-center gap-2 mt-2">
+                    <input type="text" value={setName} onChange={e => setSetName(e.target.value)} placeholder={labels.keywordSetNamePlaceholder} className="flex-grow min-w-0 p-1 bg-gray-50 dark:bg-gray-700/50 border rounded-md" />
+                    <button onClick={saveSet} disabled={!setName.trim() || keywords.length === 0} className="px-2 py-1 bg-primary text-white rounded-md disabled:bg-gray-400">{labels.saveTemplate}</button>
+                </div>
+                <ul className="mt-2 space-y-1">
+                    {keywordSets.map(set => (
+                        <li key={set.id} className="flex items-center gap-2 p-1.5 bg-gray-100 dark:bg-gray-700 rounded-md">
+                            <span className="font-medium truncate flex-grow" title={set.keywords.map(keywordLabel).join(', ')}>{set.name}</span>
+                            <span className="text-gray-500 flex-shrink-0">{set.keywords.length}</span>
+                            <button onClick={() => loadSet(set)} className="text-primary hover:underline">{labels.loadTemplate}</button>
+                            <button onClick={() => onKeywordSetsChange(keywordSets.filter(s => s.id !== set.id))} className="text-gray-400 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
+                        </li>
+                    ))}
+                </ul>
+            </details>
+        </div>
+    );
+};
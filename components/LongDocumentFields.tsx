@@ -0,0 +1,68 @@
+import React from 'react';
+import { AgentStatus, ChunkProgress, LongDocumentSettings } from '../types';
+import { formatPageRange, maxOverlap } from '../services/chunking';
+
+interface LongDocumentFieldsProps {
+    settings: LongDocumentSettings;
+    onChange: (settings: LongDocumentSettings) => void;
+    labels: Record<string, string>;
+}
+
+const inputClass = "w-20 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md p-1";
+
+export const LongDocumentFields: React.FC<LongDocumentFieldsProps> = ({ settings, onChange, labels }) => {
+    const setNumber = (field: 'chunkSize' | 'overlap' | 'concurrency', raw: string, min: number) => {
+        const next = { ...settings, [field]: Math.max(min, Number(raw) || min) };
+        onChange({ ...next, overlap: Math.min(next.overlap, maxOverlap(next.chunkSize)) });
+    };
+
+    return (
+        <div className="space-y-1 text-xs">
+            <label className="flex items-center gap-1">
+                <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ ...settings, enabled: e.target.checked })} className="h-3 w-3 rounded text-primary focus:ring-primary" />
+                {labels.longDocumentEnabled}
+            </label>
+            {settings.enabled && (
+                <>
+                    <div className="grid grid-cols-2 gap-x-2 gap-y-1 items-center">
+                        <label>{labels.chunkSize}</label>
+                        <input type="number" min={1000} step={1000} value={settings.chunkSize} onChange={e => setNumber('chunkSize', e.target.value, 1000)} className={inputClass} />
+                        <label>{labels.chunkOverlap}</label>
+                        <input type="number" min={0} max={maxOverlap(settings.chunkSize)} step={100} value={settings.overlap} onChange={e => setNumber('overlap', e.target.value, 0)} className={inputClass} />
+                        <label>{labels.chunkConcurrency}</label>
+                        <input type="number" min={1} max={10} value={settings.concurrency} onChange={e => setNumber('concurrency', e.target.value, 1)} className={inputClass} />
+                    </div>
+                    <label className="block">{labels.reducePrompt}</label>
+                    <textarea value={settings.reducePrompt} onChange={e => onChange({ ...settings, reducePrompt: e.target.value })} rows={3} className="w-full p-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md" />
+                </>
+            )}
+        </div>
+    );
+};
+
+const CHUNK_STATUS_COLORS: Partial<Record<AgentStatus, string>> = {
+    [AgentStatus.Pending]: 'bg-gray-300 dark:bg-gray-600',
+    [AgentStatus.Running]: 'bg-blue-500 animate-pulse',
+    [AgentStatus.Retrying]: 'bg-yellow-500 animate-pulse',
+    [AgentStatus.Success]: 'bg-green-500',
+    [AgentStatus.Error]: 'bg-red-500',
+    [AgentStatus.Cancelled]: 'bg-gray-500',
+};
+
+export const ChunkProgressGrid: React.FC<{ chunks: ChunkProgress[]; label: string }> = ({ chunks, label }) => (
+    <div className="mb-1">
+        <p className="text-gray-500 dark:text-gray-400">{label} ({chunks.filter(c => c.status === AgentStatus.Success).length}/{chunks.length})</p>
+        <div className="flex flex-wrap gap-1 mt-1">
+            {chunks.map(c => (
+                <span
+                    key={c.index}
+                    title={`${c.index + 1}${c.pages ? ` · ${formatPageRange(c.pages)}` : ''} · ${c.status}`}
+                    className={`inline-block w-3 h-3 rounded-sm ${CHUNK_STATUS_COLORS[c.status] ?? 'bg-gray-300'}`}
+                />
+            ))}
+        </div>
+        {chunks.every(c => c.status === AgentStatus.Success) && chunks.some(c => c.pages) && (
+            <p className="mt-1 text-gray-400">{chunks.map(c => `${c.index + 1}: ${formatPageRange(c.pages)}`).join(' · ')}</p>
+        )}
+    </div>
+);
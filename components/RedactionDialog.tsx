@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import { PiiDetector, PiiDetectorKind, RedactionSettings } from '../types';
+import { createRedactor, DEFAULT_PII_DETECTORS, detectorError, Redactor } from '../services/redaction';
+import { TrashIcon } from './icons';
+
+interface RedactionDialogProps {
+    settings: RedactionSettings;
+    onChange: (settings: RedactionSettings) => void;
+    // The redactor model calls go through; null while redaction is off.
+    redactor: Redactor | null;
+    // The open document, previewed as it will be sent.
+    content: string;
+    onClose: () => void;
+    labels: Record<string, string>;
+}
+
+const inputClass = "w-full p-1 text-xs bg-gray-50 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-primary";
+
+const PLACEHOLDER = /(\[[A-Z0-9_]+_\d+\])/;
+
+// Detector settings (kept between sessions) and a preview of the open document exactly as the model gets it.
+export const RedactionDialog: React.FC<RedactionDialogProps> = ({ settings, onChange, redactor, content, onClose, labels }) => {
+    // With redaction off the preview shows what redaction would send, from a redactor of its own.
+    const previewRedactor = useMemo(() => redactor ?? createRedactor(settings.detectors), [redactor, settings.detectors]);
+    const preview = useMemo(() => previewRedactor.redact(content), [previewRedactor, content]);
+    const entries = previewRedactor.entries();
+
+    const setDetectors = (detectors: PiiDetector[]) => onChange({ ...settings, detectors });
+    const updateDetector = (id: string, patch: Partial<PiiDetector>) =>
+        setDetectors(settings.detectors.map(d => d.id === id ? { ...d, ...patch } : d));
+    const addDetector = (kind: PiiDetectorKind) =>
+        setDetectors([...settings.detectors, { id: `detector-${Date.now()}`, label: kind === 'dictionary' ? 'PERSON' : 'PII', kind, ...(kind === 'dictionary' ? { terms: [] } : { pattern: '' }), enabled: true }]);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-6 space-y-4 text-xs" onClick={e => e.stopPropagation()}>
+                <div>
+                    <h2 className="text-lg font-semibold">{labels.redaction}</h2>
+                    <p className="text-gray-500 dark:text-gray-400">{labels.redactionHint}</p>
+                </div>
+                <label className="flex items-center gap-2 text-sm font-semibold">
+                    <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ ...settings, enabled: e.target.checked })} />
+                    {labels.redactionEnabled}
+                </label>
+                <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={settings.allowOcrImages} onChange={e => onChange({ ...settings, allowOcrImages: e.target.checked })} disabled={!settings.enabled} />
+                    {labels.allowOcrImages}
+                </label>
+
+                <div className="space-y-2">
+                    <span className="font-semibold">{labels.piiDetectors}</span>
+                    {settings.detectors.map(detector => {
+                        const error = detectorError(detector);
+                        return (
+                            <div key={detector.id} className="p-2 bg-gray-100 dark:bg-gray-700 rounded-md space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <input type="checkbox" checked={detector.enabled} onChange={e => updateDetector(detector.id, { enabled: e.target.checked })} />
+                                    <input type="text" value={detector.label} onChange={e => updateDetector(detector.id, { label: e.target.value.toUpperCase() })} title={labels.piiDetectorLabel} className={`${inputClass} w-32 font-mono`} />
+                                    <span className="text-gray-500">{detector.kind === 'dictionary' ? labels.piiDetectorDictionary : labels.piiDetectorRegex}</span>
+                                    {detector.kind === 'regex' && (
+                                        <input type="text" value={detector.pattern ?? ''} onChange={e => updateDetector(detector.id, { pattern: e.target.value })} className={`${inputClass} flex-1 font-mono`} />
+                                    )}
+                                    <button onClick={() => setDetectors(settings.detectors.filter(d => d.id !== detector.id))} title={labels.removeDetector} className="ml-auto text-gray-400 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                                {detector.kind === 'dictionary' && (
+                                    <textarea value={(detector.terms ?? []).join('\n')} onChange={e => updateDetector(detector.id, { terms: e.target.value.split('\n') })} placeholder={labels.piiDictionaryTerms} rows={3} className={inputClass} />
+                                )}
+                                {error && <p className="text-red-500">{`${labels.invalidRegex}: ${error}`}</p>}
+                            </div>
+                        );
+                    })}
+                    <div className="flex gap-3">
+                        <button onClick={() => addDetector('regex')} className="text-primary hover:underline">{labels.addRegexDetector}</button>
+                        <button onClick={() => addDetector('dictionary')} className="text-primary hover:underline">{labels.addDictionaryDetector}</button>
+                        <button onClick={() => setDetectors(DEFAULT_PII_DETECTORS)} className="ml-auto text-primary hover:underline">{labels.resetDetectors}</button>
+                    </div>
+                </div>
+
+                <div className="space-y-1">
+                    <span className="font-semibold">{labels.redactionPreview}</span>
+                    {!settings.enabled && <p className="text-amber-600 dark:text-amber-400">{labels.redactionOff}</p>}
+                    <pre className="whitespace-pre-wrap font-mono p-2 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-md max-h-64 overflow-y-auto">
+                        {preview.split(PLACEHOLDER).map((part, i) => i % 2 === 1
+                            ? <mark key={i} className="bg-primary/20 text-primary rounded px-0.5">{part}</mark>
+                            : part)}
+                    </pre>
+                </div>
+                <div className="space-y-1">
+                    <span className="font-semibold">{labels.redactionMapping}</span>
+                    {entries.length === 0 ? <p className="text-gray-500">{labels.noPiiFound}</p> : (
+                        <table className="w-full border-collapse">
+                            <tbody>
+                                {entries.map(entry => (
+                                    <tr key={entry.placeholder} className="border-t border-gray-200 dark:border-gray-700">
+                                        <td className="p-1 font-mono text-primary">{entry.placeholder}</td>
+                                        <td className="p-1 break-all">{entry.value}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                <div className="flex justify-end">
+                    <button onClick={onClose} className="px-4 py-2 text-sm border rounded-lg">{labels.close}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ReportFormat, ReportSectionKind, ReportTemplate } from '../types';
+import { DEFAULT_REPORT_TEMPLATE, REPORT_SECTIONS } from '../services/reports';
+
+interface ReportDialogProps {
+    template: ReportTemplate;
+    onTemplateChange: (template: ReportTemplate) => void;
+    // Builds and downloads the report; a rejection is shown in the dialog.
+    onExport: (format: ReportFormat) => Promise<void>;
+    onClose: () => void;
+    labels: Record<string, string>;
+}
+
+const inputClass = "w-full p-2 text-xs bg-gray-50 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-primary";
+
+const FORMATS: ReportFormat[] = ['pdf', 'docx', 'html', 'md'];
+
+// Edits the report template (kept between sessions) and exports the report in any format.
+export const ReportDialog: React.FC<ReportDialogProps> = ({ template, onTemplateChange, onExport, onClose, labels }) => {
+    const [exporting, setExporting] = useState<ReportFormat | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const sectionLabels: Record<ReportSectionKind, string> = {
+        metadata: labels.reportMetadata,
+        agents: labels.agentWorkflow,
+        dashboard: labels.resultsDashboard,
+        followUp: labels.followUpQuestions,
+        keywords: labels.reportKeywords,
+        document: labels.processedDocument,
+    };
+    const formatLabels: Record<ReportFormat, string> = {
+        pdf: labels.reportFormatPdf,
+        docx: labels.reportFormatDocx,
+        html: labels.reportFormatHtml,
+        md: labels.reportFormatMarkdown,
+    };
+
+    // Included sections in report order, then the left-out ones, so a section keeps its place when re-included.
+    const order = [...template.sections, ...REPORT_SECTIONS.filter(s => !template.sections.includes(s))];
+    const setOrder = (next: ReportSectionKind[], included: (s: ReportSectionKind) => boolean) =>
+        onTemplateChange({ ...template, sections: next.filter(included) });
+    const toggle = (section: ReportSectionKind) => {
+        const isIncluded = template.sections.includes(section);
+        setOrder(order, s => s === section ? !isIncluded : template.sections.includes(s));
+    };
+    const move = (index: number, step: number) => {
+        const next = [...order];
+        [next[index], next[index + step]] = [next[index + step], next[index]];
+        setOrder(next, s => template.sections.includes(s));
+    };
+
+    const handleExport = async (format: ReportFormat) => {
+        setExporting(format);
+        setError(null);
+        try {
+            await onExport(format);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6 space-y-4 text-xs" onClick={e => e.stopPropagation()}>
+                <h2 className="text-lg font-semibold">{labels.exportReport}</h2>
+                <label className="block space-y-1">
+                    <span className="font-semibold">{labels.reportTitle}</span>
+                    <input type="text" value={template.title} onChange={e => onTemplateChange({ ...template, title: e.target.value })} placeholder={labels.reportTitlePlaceholder} className={inputClass} />
+                </label>
+                <div className="space-y-1">
+                    <span className="font-semibold">{labels.reportSections}</span>
+                    {order.map((section, index) => (
+                        <div key={section} className="flex items-center gap-2">
+                            <label className="flex-1 flex items-center gap-2">
+                                <input type="checkbox" checked={template.sections.includes(section)} onChange={() => toggle(section)} />
+                                {sectionLabels[section]}
+                            </label>
+                            <button onClick={() => move(index, -1)} disabled={index === 0} className="px-1 text-gray-500 disabled:opacity-30">↑</button>
+                            <button onClick={() => move(index, 1)} disabled={index === order.length - 1} className="px-1 text-gray-500 disabled:opacity-30">↓</button>
+                        </div>
+                    ))}
+                </div>
+                {template.sections.includes('agents') && (
+                    <div className="space-y-1">
+                        <span className="font-semibold">{labels.reportAgentFields}</span>
+                        <div className="flex gap-4">
+                            {(['prompt', 'model', 'output'] as const).map(field => (
+                                <label key={field} className="flex items-center gap-1">
+                                    <input type="checkbox" checked={template.agentFields[field]} onChange={e => onTemplateChange({ ...template, agentFields: { ...template.agentFields, [field]: e.target.checked } })} />
+                                    {{ prompt: labels.prompt, model: labels.model, output: labels.output }[field]}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <button onClick={() => onTemplateChange(DEFAULT_REPORT_TEMPLATE)} className="text-primary hover:underline">{labels.resetReportTemplate}</button>
+                {error && <p className="text-red-500">{error}</p>}
+                <div className="flex flex-wrap justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 text-sm border rounded-lg">{labels.close}</button>
+                    {FORMATS.map(format => (
+                        <button key={format} onClick={() => handleExport(format)} disabled={exporting !== null || template.sections.length === 0} className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg disabled:bg-gray-400">
+                            {exporting === format ? labels.reportExporting : formatLabels[format]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { RetrievalSettings } from '../types';
+
+interface RetrievalFieldsProps {
+    settings: RetrievalSettings;
+    onChange: (settings: RetrievalSettings) => void;
+    labels: Record<string, string>;
+}
+
+const inputClass = "w-20 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md p-1";
+
+export const RetrievalFields: React.FC<RetrievalFieldsProps> = ({ settings, onChange, labels }) => (
+    <div className="space-y-1 text-xs">
+        <label className="flex items-center gap-1">
+            <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ ...settings, enabled: e.target.checked })} className="h-3 w-3 rounded text-primary focus:ring-primary" />
+            {labels.retrievalEnabled}
+        </label>
+        {settings.enabled && (
+            <>
+                <div className="grid grid-cols-2 gap-x-2 gap-y-1 items-center">
+                    <label>{labels.retrievalTopK}</label>
+                    <input type="number" min={1} max={50} value={settings.topK} onChange={e => onChange({ ...settings, topK: Math.max(1, Number(e.target.value) || 1) })} className={inputClass} />
+                </div>
+                <label className="block">{labels.retrievalQuery}</label>
+                <textarea
+                    value={settings.query ?? ''}
+                    onChange={e => onChange({ ...settings, query: e.target.value || undefined })}
+                    placeholder={labels.retrievalQueryPlaceholder}
+                    rows={2}
+                    className="w-full p-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md"
+                />
+            </>
+        )}
+    </div>
+);
@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Agent, RunSnapshot } from '../types';
+import { deleteRun, listRuns } from '../services/runHistory';
+import { diffLines } from '../services/textDiff';
+import { TrashIcon } from './icons';
+
+interface RunHistoryDialogProps {
+    documentHash: string | null;
+    onOpenRun: (run: RunSnapshot) => void;
+    onClose: () => void;
+    labels: Record<string, string>;
+}
+
+const formatDuration = (ms: number | undefined) => ms === undefined ? '–' : `${(ms / 1000).toFixed(1)}s`;
+
+const agentDuration = (agent: Agent) =>
+    agent.startedAt && agent.finishedAt ? agent.finishedAt - agent.startedAt : undefined;
+
+const findMatchingAgent = (run: RunSnapshot, agent: Agent) =>
+    run.agents.find(a => a.id === agent.id) ?? run.agents.find(a => a.name === agent.name);
+
+const SideBySideDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+    const rows = useMemo(() => diffLines(before, after), [before, after]);
+    return (
+        <div className="grid grid-cols-2 gap-px bg-gray-200 dark:bg-gray-600 rounded overflow-hidden font-mono text-xs max-h-80 overflow-y-auto">
+            {rows.map((row, i) => (
+                <React.Fragment key={i}>
+                    <div className={`p-1 whitespace-pre-wrap ${row.type === 'removed' ? 'bg-red-100 dark:bg-red-900/40' : 'bg-white dark:bg-gray-800'}`}>{row.type !== 'added' ? row.text : ''}</div>
+                    <div className={`p-1 whitespace-pre-wrap ${row.type === 'added' ? 'bg-green-100 dark:bg-green-900/40' : 'bg-white dark:bg-gray-800'}`}>{row.type !== 'removed' ? row.text : ''}</div>
+                </React.Fragment>
+            ))}
+        </div>
+    );
+};
+
+const RunComparison: React.FC<{ runs: [RunSnapshot, RunSnapshot]; labels: Record<string, string> }> = ({ runs, labels }) => {
+    const [older, newer] = [...runs].sort((a, b) => a.createdAt - b.createdAt);
+    const [agentId, setAgentId] = useState(older.agents[0]?.id ?? '');
+    const before = older.agents.find(a => a.id === agentId);
+    const after = before ? findMatchingAgent(newer, before) : undefined;
+
+    return (
+        <div className="space-y-3 text-xs">
+            <select value={agentId} onChange={e => setAgentId(e.target.value)} className="bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md p-1">
+                {older.agents.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            {!before || !after ? (
+                <p className="text-gray-500">{labels.agentNotInBothRuns}</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 gap-2 font-semibold">
+                        <span>{new Date(older.createdAt).toLocaleString()} · {before.model} · {before.status} · {formatDuration(agentDuration(before))}</span>
+                        <span>{new Date(newer.createdAt).toLocaleString()} · {after.model} · {after.status} · {formatDuration(agentDuration(after))}</span>
+                    </div>
+                    <h4 className="font-semibold">{labels.prompt}</h4>
+                    <SideBySideDiff before={before.prompt} after={after.prompt} />
+                    <h4 className="font-semibold">{labels.output}</h4>
+                    <SideBySideDiff before={before.output ?? before.error ?? ''} after={after.output ?? after.error ?? ''} />
+                </>
+            )}
+        </div>
+    );
+};
+
+export const RunHistoryDialog: React.FC<RunHistoryDialogProps> = ({ documentHash, onOpenRun, onClose, labels }) => {
+    const [runs, setRuns] = useState<RunSnapshot[]>([]);
+    const [onlyThisDocument, setOnlyThisDocument] = useState(documentHash !== null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        listRuns(onlyThisDocument && documentHash ? documentHash : undefined)
+            .then(setRuns)
+            .catch(error => {
+                console.error("Failed to load run history:", error);
+                setError(labels.historyLoadFailed);
+            });
+    }, [onlyThisDocument, documentHash]);
+
+    const toggleSelected = (id: string) => setSelectedIds(prev =>
+        prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+
+    const handleDelete = async (id: string) => {
+        setError(null);
+        try {
+            await deleteRun(id);
+        } catch (err) {
+            console.error("Failed to delete run:", err);
+            setError(labels.historyDeleteFailed);
+            return;
+        }
+        setRuns(prev => prev.filter(r => r.id !== id));
+        setSelectedIds(prev => prev.filter(x => x !== id));
+    };
+
+    const selectedRuns = runs.filter(r => selectedIds.includes(r.id));
+    const canCompare = selectedRuns.length === 2 && selectedRuns[0].documentHash === selectedRuns[1].documentHash;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto p-6 space-y-4" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h2 className="text-lg font-semibold">{labels.runHistory}</h2>
+                    <button onClick={onClose} className="text-sm text-gray-500 hover:underline">{labels.close}</button>
+                </div>
+                {documentHash && (
+                    <label className="flex items-center gap-2 text-xs">
+                        <input type="checkbox" checked={onlyThisDocument} onChange={e => setOnlyThisDocument(e.target.checked)} className="h-3 w-3 rounded text-primary focus:ring-primary" />
+                        {labels.onlyThisDocument}
+                    </label>
+                )}
+                {error && <p className="text-xs text-red-500">{error}</p>}
+                {runs.length === 0 ? <p className="text-sm text-gray-500">{labels.noRuns}</p> : (
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-xs">
+                        {runs.map(run => (
+                            <li key={run.id} className="flex items-center gap-3 py-2">
+                                <input type="checkbox" checked={selectedIds.includes(run.id)} onChange={() => toggleSelected(run.id)} className="h-3 w-3 rounded text-primary focus:ring-primary" />
+                                <div className="flex-grow">
+                                    <p className="font-semibold">{new Date(run.createdAt).toLocaleString()} · {run.documentName}</p>
+                                    <p className="text-gray-500">{run.agents.map(a => `${a.name} (${a.model}, ${a.status})`).join(' · ')} · {formatDuration(run.durationMs)}</p>
+                                </div>
+                                <button onClick={() => onOpenRun(run)} className="px-2 py-1 border border-primary text-primary rounded-md">{labels.openRun}</button>
+                                <button onClick={() => handleDelete(run.id)} className="text-gray-400 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {selectedRuns.length === 2 && (canCompare
+                    ? <RunComparison key={selectedIds.join()} runs={[selectedRuns[0], selectedRuns[1]]} labels={labels} />
+                    : <p className="text-xs text-gray-500">{labels.compareSameDocument}</p>)}
+            </div>
+        </div>
+    );
+};
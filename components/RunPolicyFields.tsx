@@ -0,0 +1,37 @@
+import React from 'react';
+import { RunPolicy } from '../types';
+
+interface RunPolicyFieldsProps {
+    policy: Partial<RunPolicy>;
+    onChange: (policy: Partial<RunPolicy>) => void;
+    labels: Record<string, string>;
+    // When set, empty fields fall back to these values and are shown as placeholders.
+    inherited?: RunPolicy;
+}
+
+const inputClass = "w-20 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md p-1";
+
+export const RunPolicyFields: React.FC<RunPolicyFieldsProps> = ({ policy, onChange, labels, inherited }) => {
+    const setNumber = (field: 'maxRetries' | 'backoffMs' | 'timeoutMs', raw: string, scale = 1) => {
+        const value = raw === '' ? (inherited ? undefined : 0) : Math.max(0, Number(raw) * scale);
+        onChange({ ...policy, [field]: value });
+    };
+    const display = (value: number | undefined, scale = 1) => value === undefined ? '' : String(value / scale);
+
+    return (
+        <div className="grid grid-cols-2 gap-x-2 gap-y-1 items-center text-xs">
+            <label>{labels.maxRetries}</label>
+            <input type="number" min={0} value={display(policy.maxRetries)} placeholder={display(inherited?.maxRetries)} onChange={e => setNumber('maxRetries', e.target.value)} className={inputClass} />
+            <label>{labels.backoffSeconds}</label>
+            <input type="number" min={0} step={0.5} value={display(policy.backoffMs, 1000)} placeholder={display(inherited?.backoffMs, 1000)} onChange={e => setNumber('backoffMs', e.target.value, 1000)} className={inputClass} />
+            <label>{labels.timeoutSeconds}</label>
+            <input type="number" min={0} value={display(policy.timeoutMs, 1000)} placeholder={display(inherited?.timeoutMs, 1000)} onChange={e => setNumber('timeoutMs', e.target.value, 1000)} className={inputClass} />
+            <label>{labels.onFailure}</label>
+            <select value={policy.onFailure ?? ''} onChange={e => onChange({ ...policy, onFailure: (e.target.value || undefined) as RunPolicy['onFailure'] | undefined })} className={inputClass.replace('w-20', 'w-auto')}>
+                {inherited && <option value="">{labels.inherit}</option>}
+                <option value="stop">{labels.stopOnFailure}</option>
+                <option value="continue">{labels.continueOnFailure}</option>
+            </select>
+        </div>
+    );
+};
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { embeddingCost } from '../services/costEstimation';
+import { searchDocument, SearchHit } from '../services/semanticSearch';
+
+interface SemanticSearchProps {
+    content: string;
+    // Called with the cost of each search, in USD.
+    onSpend: (cost: number) => void;
+    activeStart: number | null;
+    onSelectHit: (hit: SearchHit) => void;
+    labels: Record<string, string>;
+}
+
+const MAX_RESULTS = 8;
+const SNIPPET_LENGTH = 160;
+
+// Finds passages by meaning rather than by their words. The first search on a document embeds all of it,
+// which takes a moment; the vectors are stored, so later searches only embed the query.
+export const SemanticSearch: React.FC<SemanticSearchProps> = ({ content, onSpend, activeStart, onSelectHit, labels }) => {
+    const [query, setQuery] = useState('');
+    const [hits, setHits] = useState<SearchHit[] | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setHits(null);
+        setError(null);
+    }, [content]);
+
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!query.trim() || isSearching) return;
+        setIsSearching(true);
+        setError(null);
+        try {
+            const { hits: results, embeddedCharacters } = await searchDocument(content, query.trim(), MAX_RESULTS);
+            onSpend(embeddingCost(embeddedCharacters));
+            setHits(results);
+            if (results.length > 0) onSelectHit(results[0]);
+        } catch (err) {
+            console.error("Semantic search failed:", err);
+            setError(`${labels.searchFailed}: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setIsSearching(false);
+        }
+    };
+
+    return (
+        <div className="text-xs">
+            <form onSubmit={submit} className="flex items-center gap-2">
+                <input type="search" value={query} onChange={e => setQuery(e.target.value)} placeholder={labels.semanticSearchPlaceholder} className="flex-grow p-2 bg-gray-50 dark:bg-gray-700/50 border rounded-md focus:ring-2 focus:ring-primary text-sm" />
+                <button type="submit" disabled={isSearching || !query.trim()} className="px-4 py-2 border border-primary text-primary text-sm font-semibold rounded-lg disabled:opacity-50">
+                    {isSearching ? labels.searching : labels.semanticSearch}
+                </button>
+            </form>
+            {error && <p className="mt-1 text-red-500">{error}</p>}
+            {hits && (hits.length === 0 ? <p className="mt-1 text-gray-500">{labels.noSearchResults}</p> : (
+                <ol className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                    {hits.map(hit => (
+                        <li key={hit.start}>
+                            <button onClick={() => onSelectHit(hit)} className={`w-full text-left p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 ${hit.start === activeStart ? 'bg-yellow-100 dark:bg-yellow-600/30' : ''}`}>
+                                <span className="font-semibold text-primary mr-1">{hit.score.toFixed(2)}</span>
+                                {hit.page !== null && <span className="text-gray-500 mr-1">p. {hit.page}</span>}
+                                <span>{hit.text.length > SNIPPET_LENGTH ? `${hit.text.slice(0, SNIPPET_LENGTH)}…` : hit.text}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            ))}
+        </div>
+    );
+};
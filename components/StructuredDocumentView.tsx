@@ -0,0 +1,62 @@
+import React from 'react';
+import { LayoutBlock, PageExtraction } from '../types';
+import { tableToCsv } from '../services/layoutBlocks';
+
+interface StructuredDocumentViewProps {
+    report: PageExtraction[];
+    onExportTable: (csv: string, page: number, tableIndex: number) => void;
+    labels: Record<string, string>;
+}
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm'];
+
+const Block: React.FC<{ block: LayoutBlock; onExport: () => void; exportLabel: string }> = ({ block, onExport, exportLabel }) => {
+    switch (block.type) {
+        case 'heading':
+            return <p className={`font-semibold mt-3 ${HEADING_CLASSES[Math.min(Math.max(block.level, 1), 6) - 1]}`}>{block.text}</p>;
+        case 'paragraph':
+            return <p className="my-2 whitespace-pre-wrap">{block.text}</p>;
+        case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul';
+            return <ListTag className={`my-2 pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>{block.items.map((item, i) => <li key={i}>{item}</li>)}</ListTag>;
+        }
+        case 'table': {
+            const [header, ...body] = block.rows;
+            return (
+                <div className="my-3">
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full text-xs border border-gray-300 dark:border-gray-600">
+                            <thead className="bg-gray-100 dark:bg-gray-800">
+                                <tr>{header.map((cell, i) => <th key={i} className="px-2 py-1 border border-gray-300 dark:border-gray-600 text-left">{cell}</th>)}</tr>
+                            </thead>
+                            <tbody>
+                                {body.map((row, r) => <tr key={r}>{row.map((cell, c) => <td key={c} className="px-2 py-1 border border-gray-300 dark:border-gray-600">{cell}</td>)}</tr>)}
+                            </tbody>
+                        </table>
+                    </div>
+                    <button onClick={onExport} className="mt-1 text-xs text-primary hover:underline">{exportLabel}</button>
+                </div>
+            );
+        }
+    }
+};
+
+// Renders pages OCRed in layout format block by block; other pages are shown as plain text.
+export const StructuredDocumentView: React.FC<StructuredDocumentViewProps> = ({ report, onExportTable, labels }) => (
+    <>
+        {report.map(r => {
+            let tableIndex = 0;
+            return (
+                <section key={r.page} className="mb-4">
+                    <p className="text-xs text-gray-400">--- {labels.extractionPage} {r.page} ---</p>
+                    {r.blocks
+                        ? r.blocks.map((block, i) => {
+                            const index = block.type === 'table' ? tableIndex++ : -1;
+                            return <Block key={i} block={block} onExport={() => block.type === 'table' && onExportTable(tableToCsv(block.rows), r.page, index)} exportLabel={labels.exportCsv} />;
+                        })
+                        : <p className="whitespace-pre-wrap">{r.status === 'failed' ? '[OCR Failed]' : r.text}</p>}
+                </section>
+            );
+        })}
+    </>
+);
@@ -0,0 +1,30 @@
+import React from 'react';
+import { UsageBudget } from '../types';
+
+interface UsageBudgetFieldsProps {
+    budget: UsageBudget;
+    onChange: (budget: UsageBudget) => void;
+    labels: Record<string, string>;
+}
+
+const inputClass = "w-20 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md p-1";
+
+// An empty limit field means no limit.
+export const UsageBudgetFields: React.FC<UsageBudgetFieldsProps> = ({ budget, onChange, labels }) => {
+    const setLimit = (field: 'perRun' | 'perDay', raw: string) =>
+        onChange({ ...budget, [field]: raw === '' ? null : Math.max(0, Number(raw)) });
+
+    return (
+        <div className="grid grid-cols-2 gap-x-2 gap-y-1 items-center text-xs">
+            <label>{labels.budgetPerRun}</label>
+            <input type="number" min={0} step={0.01} value={budget.perRun ?? ''} placeholder={labels.noLimit} onChange={e => setLimit('perRun', e.target.value)} className={inputClass} />
+            <label>{labels.budgetPerDay}</label>
+            <input type="number" min={0} step={0.01} value={budget.perDay ?? ''} placeholder={labels.noLimit} onChange={e => setLimit('perDay', e.target.value)} className={inputClass} />
+            <label>{labels.budgetOnExceed}</label>
+            <select value={budget.onExceed} onChange={e => onChange({ ...budget, onExceed: e.target.value as UsageBudget['onExceed'] })} className={inputClass.replace('w-20', 'w-auto')}>
+                <option value="warn">{labels.budgetWarn}</option>
+                <option value="block">{labels.budgetBlock}</option>
+            </select>
+        </div>
+    );
+};
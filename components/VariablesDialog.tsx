@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Agent } from '../types';
+import { missingVariables, variableValue } from '../services/promptVariables';
+
+interface VariablesDialogProps {
+    agents: Agent[];
+    onConfirm: (agents: Agent[]) => void;
+    onCancel: () => void;
+    labels: Record<string, string>;
+}
+
+const fieldClass = "w-full p-2 text-xs bg-gray-50 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-primary";
+
+// Asks for the run-time values of every prompt variable in the workflow before it runs.
+export const VariablesDialog: React.FC<VariablesDialogProps> = ({ agents, onConfirm, onCancel, labels }) => {
+    const [values, setValues] = useState<Record<string, Record<string, string>>>(() =>
+        Object.fromEntries(agents.map(a => [a.id, Object.fromEntries((a.variables ?? []).map(v => [v.name, variableValue(v)]))])));
+
+    const withVariables = agents.filter(a => a.variables?.length);
+    const filled = agents.map(a => a.variables?.length
+        ? { ...a, variables: a.variables.map(v => ({ ...v, value: values[a.id][v.name] })) }
+        : a);
+    const isComplete = missingVariables(filled).length === 0;
+
+    const setValue = (agentId: string, name: string, value: string) =>
+        setValues(prev => ({ ...prev, [agentId]: { ...prev[agentId], [name]: value } }));
+
+    const confirm = () => onConfirm(filled);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onCancel}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6 space-y-4 text-xs" onClick={e => e.stopPropagation()}>
+                <h2 className="text-lg font-semibold">{labels.variablesTitle}</h2>
+                {withVariables.map(agent => (
+                    <div key={agent.id} className="space-y-2">
+                        <h3 className="font-semibold text-sm">{agent.name}</h3>
+                        {agent.variables!.map(v => (
+                            <label key={v.name} className="block space-y-1">
+                                <code className="font-mono">{v.name}</code>
+                                {v.type === 'select' && v.options?.length ? (
+                                    <select value={values[agent.id][v.name]} onChange={e => setValue(agent.id, v.name, e.target.value)} className={fieldClass}>
+                                        <option value="" disabled>–</option>
+                                        {v.options.map(o => <option key={o} value={o}>{o}</option>)}
+                                    </select>
+                                ) : (
+                                    <input type={v.type === 'number' ? 'number' : 'text'} value={values[agent.id][v.name]} onChange={e => setValue(agent.id, v.name, e.target.value)} className={fieldClass} />
+                                )}
+                            </label>
+                        ))}
+                    </div>
+                ))}
+                <div className="flex justify-end gap-2">
+                    <button onClick={onCancel} className="px-4 py-2 text-sm border rounded-lg">{labels.cancel}</button>
+                    <button onClick={confirm} disabled={!isComplete} className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg disabled:bg-gray-400">{labels.runWorkflow}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
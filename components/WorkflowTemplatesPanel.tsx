@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { WorkflowTemplate } from '../types';
+import { parseTemplateFile, serializeTemplates, TemplateImportError } from '../services/workflowTemplates';
+import { downloadBlob } from '../services/download';
+import { TrashIcon } from './icons';
+
+interface WorkflowTemplatesPanelProps {
+    templates: WorkflowTemplate[];
+    canSave: boolean;
+    onSave: (name: string) => void;
+    onLoad: (template: WorkflowTemplate) => void;
+    onDuplicate: (template: WorkflowTemplate) => void;
+    onDelete: (id: string) => void;
+    onImport: (templates: WorkflowTemplate[]) => void;
+    labels: Record<string, string>;
+}
+
+const exportTemplates = (templates: WorkflowTemplate[], filename: string) =>
+    downloadBlob(new Blob([serializeTemplates(templates)], { type: 'application/json' }), `${filename}.json`);
+
+const slugify = (name: string) => name.trim().replace(/[^\w-]+/g, '_') || 'workflow';
+
+export const WorkflowTemplatesPanel: React.FC<WorkflowTemplatesPanelProps> = ({ templates, canSave, onSave, onLoad, onDuplicate, onDelete, onImport, labels }) => {
+    const [name, setName] = useState('');
+    const [importIssues, setImportIssues] = useState<{ message: string; issues: string[] } | null>(null);
+
+    const handleSave = () => {
+        if (!name.trim()) return;
+        onSave(name.trim());
+        setName('');
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            onImport(parseTemplateFile(await file.text()));
+            setImportIssues(null);
+        } catch (error) {
+            if (error instanceof TemplateImportError) {
+                setImportIssues({ message: `${file.name}: ${error.message}`, issues: error.issues });
+            } else {
+                console.error("Error importing workflow templates:", error);
+                setImportIssues({ message: `${file.name}: ${labels.importFailed}`, issues: [] });
+            }
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md">
+            <h2 className="text-lg font-semibold mb-4">{labels.workflowTemplates}</h2>
+            <div className="flex items-center gap-2">
+                <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder={labels.templateNamePlaceholder} className="flex-grow min-w-0 p-2 text-xs bg-gray-50 dark:bg-gray-700/50 border rounded-md focus:ring-2 focus:ring-primary" />
+                <button onClick={handleSave} disabled={!canSave || !name.trim()} className="px-3 py-2 bg-primary text-white text-xs font-semibold rounded-lg disabled:bg-gray-400">{labels.saveTemplate}</button>
+            </div>
+            <ul className="mt-3 space-y-2 text-xs">
+                {templates.map(template => (
+                    <li key={template.id} className="p-2 bg-gray-100 dark:bg-gray-700 rounded-md">
+                        <div className="flex justify-between items-center gap-2">
+                            <span className="font-semibold truncate" title={template.name}>{template.name}</span>
+                            <span className="text-gray-500 flex-shrink-0">v{template.version} · {template.agents.length} {labels.agentsCount}</span>
+                        </div>
+                        <div className="flex items-center gap-3 mt-1">
+                            <button onClick={() => onLoad(template)} className="text-primary hover:underline">{labels.loadTemplate}</button>
+                            <button onClick={() => onDuplicate(template)} className="text-primary hover:underline">{labels.duplicateTemplate}</button>
+                            <button onClick={() => exportTemplates([template], slugify(template.name))} className="text-primary hover:underline">{labels.exportTemplate}</button>
+                            <button onClick={() => onDelete(template.id)} className="ml-auto text-gray-400 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            <div className="flex items-center gap-2 mt-3 text-xs">
+                <label className="relative flex-1 px-3 py-2 text-center bg-primary/10 text-primary font-semibold rounded-lg hover:bg-primary/20 cursor-pointer">
+                    {labels.importTemplates}
+                    <input type="file" accept=".json,application/json" onChange={handleImport} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                </label>
+                <button onClick={() => exportTemplates(templates, 'workflows')} disabled={templates.length === 0} className="flex-1 px-3 py-2 bg-primary/10 text-primary font-semibold rounded-lg hover:bg-primary/20 disabled:opacity-50">{labels.exportAllTemplates}</button>
+            </div>
+            {importIssues && (
+                <div className="mt-3 p-2 text-xs text-red-500 bg-red-50 dark:bg-red-900/30 rounded">
+                    <div className="flex justify-between gap-2">
+                        <p className="font-semibold">{importIssues.message}</p>
+                        <button onClick={() => setImportIssues(null)} className="flex-shrink-0">&times;</button>
+                    </div>
+                    <ul className="mt-1 list-disc list-inside font-mono max-h-32 overflow-y-auto">
+                        {importIssues.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,4 +1,4 @@
-import { Theme, Agent, Language } from './types';
+import { Theme, Language, JsonSchema, AgentTemplate } from './types';
 
 export const FLOWER_THEMES: Theme[] = [
     { name: "Lavender", colors: { primary: "#6B21A8" } },
@@ -23,18 +23,51 @@ export const FLOWER_THEMES: Theme[] = [
     { name: "Zinnia", colors: { primary: "#F43F5E" } },
 ];
 
-export const DEFAULT_AGENTS: Omit<Agent, 'id' | 'status' | 'output' | 'error' | 'outputJson' | 'model'>[] = [
+const SENTIMENT_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        sentiment: { type: 'string', enum: ['Positive', 'Negative', 'Neutral'] },
+        scores: {
+            type: 'object',
+            properties: {
+                positive: { type: 'number', minimum: 0, maximum: 1 },
+                negative: { type: 'number', minimum: 0, maximum: 1 },
+                neutral: { type: 'number', minimum: 0, maximum: 1 },
+            },
+            required: ['positive', 'negative', 'neutral'],
+        },
+        justification: { type: 'string' },
+    },
+    required: ['sentiment', 'scores', 'justification'],
+};
+
+const ENTITY_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            name: { type: 'string' },
+            type: { type: 'string', enum: ['Person', 'Organization', 'Location', 'Date'] },
+        },
+        required: ['name', 'type'],
+    },
+};
+
+export const DEFAULT_AGENTS: AgentTemplate[] = [
     { name: 'Summary Agent', prompt: 'Summarize the following document in three key bullet points.' },
-    { name: 'Sentiment Analyzer', prompt: 'Analyze the sentiment of the document. Respond with a single word: Positive, Negative, or Neutral. Then provide a brief justification. Format your response as a JSON object with keys "sentiment" and "justification".' },
-    { name: 'Entity Extractor', prompt: 'Extract key entities (people, organizations, locations, dates) from the text. Return the result as a JSON array of objects, where each object has "name" and "type" keys.' },
+    { name: 'Sentiment Analyzer', prompt: 'Analyze the sentiment of the document. Give the overall sentiment as a single word: Positive, Negative, or Neutral. Score how much of the document is positive, negative and neutral, as fractions that add up to 1. Then provide a brief justification. Format your response as a JSON object with keys "sentiment", "scores" (with keys "positive", "negative" and "neutral") and "justification".', outputSchema: SENTIMENT_SCHEMA },
+    { name: 'Entity Extractor', prompt: 'Extract key entities (people, organizations, locations, dates) from the text. Return the result as a JSON array of objects, where each object has "name" and "type" keys.', outputSchema: ENTITY_SCHEMA },
     { name: 'Action Items Detector', prompt: 'Identify and list all potential action items or tasks mentioned in the document.' },
     { name: 'Fact Checker', prompt: 'Identify three key claims in the document that might need to be fact-checked. Do not perform the fact-check, just identify the claims.' },
 ];
 
+// Prices in USD per million tokens (paid tier, text and image input). Update when the published rates change.
 export const MODEL_OPTIONS = [
-    { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
-    { value: 'gemini-flash-lite-latest', label: 'Gemini Flash Lite' },
+    { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', pricing: { inputPerMillion: 0.30, outputPerMillion: 2.50 } },
+    { value: 'gemini-flash-lite-latest', label: 'Gemini Flash Lite', pricing: { inputPerMillion: 0.10, outputPerMillion: 0.40 } },
 ];
+// The embedding model used for search and retrieval, which only bills input.
+export const EMBEDDING_INPUT_PER_MILLION = 0.15;
 
 export const LOCALIZATION: Record<Language, Record<string, string>> = {
     'en': {
@@ -48,22 +81,113 @@ export const LOCALIZATION: Record<Language, Record<string, string>> = {
         apiKeyPrompt: "Your Gemini API Key is not set. Please provide one.",
         apiKeyInputPlaceholder: "Enter your Google AI Studio key",
         saveKey: "Save Key",
+        apiKeyIsSet: "An API key is set. Enter a new one to replace it.",
+        apiKeyStorageSession: "Keep for this session only",
+        apiKeyStorageEncrypted: "Remember on this browser (encrypted)",
+        apiKeyValidating: "Checking key...",
+        apiKeyInvalid: "The key was rejected.",
+        apiKeySaveFailed: "The key could not be stored.",
+        apiKeyRemoveFailed: "The key could not be removed.",
+        removeKey: "Remove key",
+        usageBudget: "Cost & budget",
+        budgetPerRun: "Per run (USD)",
+        budgetPerDay: "Per day (USD)",
+        budgetOnExceed: "When exceeded",
+        budgetWarn: "Warn",
+        budgetBlock: "Block",
+        noLimit: "No limit",
+        estimatedCost: "Estimated",
+        spentToday: "Spent today",
+        actualCost: "Used",
+        tokens: "tokens",
+        budgetExceededRun: "This exceeds the per-run budget",
+        budgetExceededDay: "This exceeds the daily budget",
+        continueAnyway: "Continue anyway?",
         close: "Close",
         documentControl: "Document",
         uploadDocument: "Upload Document",
         pasteContent: "Paste Content",
         pastePlaceholder: "Paste your text, markdown, json, or csv data here...",
         loadPastedContent: "Load Content",
-        uploadHint: ".pdf, .txt, .md, .csv, .json",
+        uploadHint: ".pdf, .docx, .html, .epub, .png, .jpg, .txt, .md, .csv, .json",
         pdfViewer: "PDF Viewer",
-        ocrSelectedPages: "OCR Selected Pages",
-        ocrProcessing: "OCR Processing...",
+        extractSelectedPages: "Extract Selected Pages",
+        extracting: "Extracting...",
+        extractionMode: "Extraction",
+        extractionAuto: "Auto (text, OCR fallback)",
+        extractionText: "Text layer only",
+        extractionOcr: "OCR only",
+        extractionDefault: "Default",
+        extractionReport: "Extraction report",
+        extractionPage: "Page",
+        extractionMethod: "Method",
+        extractionCharacters: "Characters",
+        methodText: "Text layer",
+        methodOcr: "OCR",
+        extractionStatus: "Status",
+        ocrProgress: "OCR progress",
+        statusQueued: "Queued",
+        statusRunning: "Running",
+        statusDone: "Done",
+        statusFailed: "Failed",
+        cachedPage: "cached",
+        retryPage: "Retry",
+        ocrOutput: "OCR Output",
+        ocrOutputText: "Plain text",
+        ocrOutputLayout: "Layout (tables & headings)",
+        documentViewText: "Text",
+        documentViewStructured: "Structured",
+        exportCsv: "Export CSV",
+        structuredInput: "Structured (Markdown)",
+        structuredInputHint: "Send the layout-aware Markdown version of the document, with tables and headings preserved",
         processedDocument: "Processed Document",
         addKeyword: "Add Keyword",
         keywordPlaceholder: "Enter keyword...",
+        keywordModeText: "Text",
+        keywordModeWord: "Whole word",
+        keywordModeRegex: "Regex",
+        matchCase: "Match case",
+        invalidRegex: "Invalid regular expression",
+        matchesLimited: "Only the first matches are highlighted",
+        previousMatch: "Previous match",
+        nextMatch: "Next match",
+        synonyms: "Synonyms",
+        addSynonymPlaceholder: "Add a synonym and press Enter...",
+        suggestSynonyms: "Suggest synonyms",
+        suggestingSynonyms: "Suggesting...",
+        addAllSynonyms: "Add all",
+        keywordSets: "Keyword sets",
+        keywordSetNamePlaceholder: "Set name...",
+        semanticSearch: "Search",
+        semanticSearchPlaceholder: "Search by meaning, e.g. \"termination conditions\"",
+        searching: "Searching...",
+        noSearchResults: "No matching passages.",
+        searchFailed: "Search failed",
         download: "Download",
         downloadMd: "Markdown",
-        downloadPdf: "PDF",
+        exportReport: "Export Report",
+        reportTitle: "Report title",
+        reportTitlePlaceholder: "Defaults to the document name",
+        reportSections: "Sections",
+        reportAgentFields: "For each agent",
+        resetReportTemplate: "Reset to default",
+        reportFormatPdf: "PDF",
+        reportFormatDocx: "Word",
+        reportFormatHtml: "HTML",
+        reportFormatMarkdown: "Markdown",
+        reportExporting: "Exporting...",
+        reportMetadata: "Document Information",
+        reportDocument: "Document",
+        reportDocumentType: "Type",
+        reportCharacters: "Characters",
+        reportPages: "Pages",
+        reportAgents: "Agents",
+        reportGenerated: "Generated",
+        reportStatus: "Status",
+        reportKeywords: "Keyword Highlights",
+        reportKeyword: "Keyword",
+        reportMatches: "Matches",
+        reportNoKeywords: "No keywords were set.",
         addAgent: "Add Agent",
         agentWorkflow: "Agent Workflow",
         runWorkflow: "Run Workflow",
@@ -71,15 +195,219 @@ export const LOCALIZATION: Record<Language, Record<string, string>> = {
         addAgentToStart: "Add an agent from the panel to begin your workflow.",
         resultsDashboard: "Results Dashboard",
         runWorkflowToSeeResults: "Run a workflow to see the dashboard.",
-        extractedEntities: "Extracted Entities",
-        sentimentAnalysis: "Sentiment Analysis",
+        dashboardLayout: "Dashboard layout",
+        dashboardAutomatic: "Automatic",
+        dashboardWidgets: "Widgets",
+        dashboardAutomaticHint: "Each agent with an output schema gets widgets that fit its fields.",
+        customizeDashboard: "Customize",
+        useAutomaticDashboard: "Use automatic layout",
+        addWidget: "Add widget",
+        widgetTitle: "Title",
+        widgetType: "Type",
+        widgetAgent: "Agent",
+        widgetAgentMissing: "(agent not in workflow)",
+        widgetPath: "Data path",
+        widgetPathPlaceholder: "Whole output",
+        widgetFieldLabel: "Label field",
+        widgetFieldValue: "Value field (count if empty)",
+        widgetFieldDate: "Date field",
+        widgetFieldDetail: "Detail field",
+        widgetFieldSource: "Source field",
+        widgetFieldTarget: "Target field",
+        widgetFieldColumns: "Fields",
+        widgetColumnsPlaceholder: "All, or comma-separated paths",
+        widgetBar: "Bar chart",
+        widgetPie: "Pie chart",
+        widgetTable: "Table",
+        widgetTimeline: "Timeline",
+        widgetKeyValue: "Key-value card",
+        widgetNetwork: "Entity network",
         followUpQuestions: "Suggested Follow-up Questions",
         error: "Error",
         noDocument: "No document loaded or processed yet.",
         loadingDocument: "Loading document...",
         clearAndReset: "Clear & Reset",
-        fileSize: "Size",
-        fileType: "Type",
+        workspace: "Documents",
+        includeInRun: "Include in run",
+        removeDocument: "Remove document",
+        notExtracted: "Text not extracted yet",
+        runDocuments: "Runs the workflow on every checked document that has text",
+        comparison: "Comparison",
+        resultsByDocument: "Results by Document",
+        citeSources: "Cite sources",
+        citeSourcesHint: "The agent quotes the passage behind every claim; quotes not found in the document are flagged.",
+        sources: "Sources",
+        noSources: "The agent returned no sources.",
+        unverifiedSources: "not found in the document",
+        possibleHallucination: "Possible hallucination: quote not found in the document",
+        documentMode: "Runs on",
+        documentModeEach: "Each document",
+        documentModeCompare: "All documents together (compare)",
+        batch: "Batch Processing",
+        batchHint: "Runs the current workflow on every file, one after another. Each file gets its own entry in the run history; structured outputs are collected into one table.",
+        batchAddFiles: "Add Files",
+        batchAddFolder: "Add Folder",
+        batchOcr: "OCR pages and images without text",
+        batchClear: "Clear",
+        batchStart: "Start Batch",
+        batchUnsupportedSkipped: "Unsupported or hidden files were skipped",
+        batchCompareSkipped: "Comparison agents do not run in a batch",
+        batchEmpty: "No files added yet.",
+        batchProgress: "Files processed",
+        batchLoading: "Loading...",
+        batchResults: "Results Table",
+        exportXlsx: "Export XLSX",
+        exportJson: "Export JSON",
+        batchNoStructuredOutput: "No agent produced structured (JSON) output, so the table only lists the files.",
+        batchPreviewLimited: "Showing the first rows; exports include all of them",
+        batchBudgetWarning: "Your answer applies to the rest of this batch.",
+        agentInputs: "Inputs",
+        documentInput: "Document",
+        promptPlaceholderHint: "Use {{document}} or {{agent:Agent Name}} to place inputs in the prompt, and {{variable}} for values filled in at run time.",
+        outputSchema: "Output schema",
+        invalidOutput: "Invalid structured output",
+        workflowRunPolicy: "Run policy",
+        agentRunPolicy: "Run policy (overrides workflow)",
+        maxRetries: "Retries",
+        backoffSeconds: "Backoff (s)",
+        timeoutSeconds: "Timeout (s, 0 = none)",
+        onFailure: "On failure",
+        stopOnFailure: "Stop workflow",
+        continueOnFailure: "Continue, mark failed",
+        inherit: "Inherit",
+        retrying: "Retrying...",
+        timedOut: "Timed out",
+        skipped: "Skipped",
+        stop: "Stop",
+        cancelled: "Stopped",
+        longDocumentMode: "Long document mode",
+        longDocumentEnabled: "Split into chunks and merge (map-reduce)",
+        chunkSize: "Chunk size (chars)",
+        chunkOverlap: "Overlap (chars)",
+        chunkConcurrency: "Parallel chunks",
+        reducePrompt: "Reduce prompt",
+        retrievalMode: "Retrieval mode",
+        retrievalEnabled: "Send only the most relevant passages instead of the whole document",
+        retrievalTopK: "Passages",
+        retrievalQuery: "Search query",
+        retrievalQueryPlaceholder: "Leave empty to search with the agent's prompt",
+        documentParts: "Document parts",
+        chatWithDocument: "Chat with Document",
+        chatEmpty: "Ask a question, or click a suggested follow-up question.",
+        chatPlaceholder: "Ask about the document...",
+        ask: "Ask",
+        thinking: "Thinking...",
+        clearChat: "Clear",
+        citationNotFound: "Passage not found in the document",
+        runHistory: "Run History",
+        onlyThisDocument: "Only runs of the current document",
+        noRuns: "No saved runs yet.",
+        openRun: "Open",
+        compareSameDocument: "Select two runs of the same document to compare them.",
+        agentNotInBothRuns: "This agent is not part of both runs.",
+        historyLoadFailed: "Could not load the run history.",
+        historyDeleteFailed: "Could not delete the run.",
+        prompt: "Prompt",
+        output: "Output",
+        workflowTemplates: "Workflow Templates",
+        templateNamePlaceholder: "Template name...",
+        saveTemplate: "Save",
+        loadTemplate: "Load",
+        duplicateTemplate: "Duplicate",
+        exportTemplate: "Export",
+        importTemplates: "Import JSON",
+        exportAllTemplates: "Export All",
+        importFailed: "The file could not be imported.",
+        agentsCount: "agents",
+        newCustomAgent: "New custom agent",
+        editAgent: "Edit agent",
+        myAgents: "My agents",
+        agentName: "Name",
+        systemInstruction: "System instruction",
+        promptVariablesHint: "Use {{variable}} for values you fill in when the workflow runs, e.g. {{language}} or {{audience}}.",
+        model: "Model",
+        temperature: "Temperature",
+        topP: "Top-p",
+        maxOutputTokens: "Max tokens",
+        outputMode: "Output",
+        outputModeText: "Text",
+        outputModeJson: "JSON",
+        promptVariables: "Prompt variables",
+        variableTypeText: "Text",
+        variableTypeNumber: "Number",
+        variableTypeSelect: "Choice",
+        variableDefault: "Default value",
+        variableOptions: "Choices, separated by commas",
+        saveToLibrary: "Save to my agents",
+        saveAgent: "Save",
+        addToWorkflow: "Add to workflow",
+        variablesTitle: "Fill in prompt variables",
+        cancel: "Cancel",
+        modelProvider: "Model provider",
+        providerGemini: "Gemini",
+        providerMock: "Mock (offline)",
+        loadReplayFile: "Load replay file",
+        replayLoaded: "Recorded responses",
+        recordResponses: "Record responses",
+        downloadRecording: "Download recording",
+        evaluation: "Agent Evaluation",
+        evalHint: "Runs one agent on a golden dataset of documents with expected outputs and compares the score with the baseline run.",
+        evalDatasets: "Datasets",
+        noEvalDatasets: "No datasets yet.",
+        newEvalDataset: "New dataset",
+        untitledEvalDataset: "Untitled dataset",
+        deleteEvalDataset: "Delete dataset",
+        importEvalDataset: "Import dataset",
+        exportEvalDataset: "Export dataset",
+        evalLoadFailed: "Could not load the evaluation datasets.",
+        evalDatasetName: "Dataset name",
+        evalMetric: "Metric",
+        evalMetricExactMatch: "Exact match",
+        evalMetricSetF1: "Set F1",
+        evalMetricJsonFields: "JSON field accuracy",
+        evalMetricLlmJudge: "LLM judge",
+        evalPath: "Compared value",
+        evalPathHint: "Path in the output, e.g. sentiment or entities.name; empty compares the whole output",
+        evalFields: "Compared fields",
+        evalFieldsHint: "Paths separated by commas; empty compares every field of the expected output",
+        evalRubric: "Judge rubric",
+        evalRubricHint: "What makes an output good, e.g. covers every obligation and invents none",
+        evalCases: "Cases",
+        evalCaseName: "Case name",
+        evalCaseContent: "Document text",
+        evalExpected: "Expected output",
+        addEvalCase: "Add case",
+        addCurrentDocumentCase: "Add current document",
+        removeEvalCase: "Remove case",
+        evalAgent: "Agent",
+        evalAgentAlone: "The agent runs alone on each case: inputs from other agents stay empty.",
+        runEvaluation: "Run Evaluation",
+        evalRuns: "Runs",
+        evalScore: "Score",
+        evalBaseline: "Baseline",
+        evalNoBaseline: "No baseline to compare with",
+        setEvalBaseline: "Set as baseline",
+        evalImproved: "improved",
+        evalRegressed: "regressed",
+        evalCase: "Case",
+        evalDetail: "Detail",
+        redaction: "PII Redaction",
+        redactionHint: "Replaces personal data with placeholders like [PERSON_3] in everything sent to the model: documents, prompts, agent outputs, chat and search. Results are shown with the original values; the mapping stays in this browser.",
+        redactionEnabled: "Redact personal data before model calls",
+        allowOcrImages: "Still send page images for OCR (images cannot be redacted)",
+        piiDetectors: "Detectors",
+        piiDetectorLabel: "Placeholder name",
+        piiDetectorRegex: "Pattern",
+        piiDetectorDictionary: "Dictionary",
+        piiDictionaryTerms: "One name or term per line",
+        addRegexDetector: "Add pattern",
+        addDictionaryDetector: "Add dictionary",
+        removeDetector: "Remove detector",
+        resetDetectors: "Reset detectors",
+        redactionPreview: "What the model receives for this document",
+        redactionOff: "Redaction is off, so the document is sent as it is. Below is what would be sent with redaction on.",
+        redactionMapping: "Placeholder mapping",
+        noPiiFound: "No personal data found.",
     },
     'zh-TW': {
         title: "CogniFlow 代理AI系統",
@@ -92,22 +420,113 @@ export const LOCALIZATION: Record<Language, Record<string, string>> = {
         apiKeyPrompt: "您的 Gemini API 金鑰尚未設定，請提供一個。",
         apiKeyInputPlaceholder: "輸入您的 Google AI Studio 金鑰",
         saveKey: "儲存金鑰",
+        apiKeyIsSet: "已設定 API 金鑰。輸入新的金鑰以取代。",
+        apiKeyStorageSession: "僅保留於此工作階段",
+        apiKeyStorageEncrypted: "在此瀏覽器記住（加密）",
+        apiKeyValidating: "正在檢查金鑰...",
+        apiKeyInvalid: "金鑰遭拒。",
+        apiKeySaveFailed: "無法儲存金鑰。",
+        apiKeyRemoveFailed: "無法移除金鑰。",
+        removeKey: "移除金鑰",
+        usageBudget: "費用與預算",
+        budgetPerRun: "每次執行（美元）",
+        budgetPerDay: "每日（美元）",
+        budgetOnExceed: "超出時",
+        budgetWarn: "警告",
+        budgetBlock: "封鎖",
+        noLimit: "不限",
+        estimatedCost: "預估",
+        spentToday: "今日已用",
+        actualCost: "實際",
+        tokens: "權杖",
+        budgetExceededRun: "這將超出每次執行預算",
+        budgetExceededDay: "這將超出每日預算",
+        continueAnyway: "仍要繼續嗎？",
         close: "關閉",
         documentControl: "文件",
         uploadDocument: "上傳文件",
         pasteContent: "貼上內容",
         pastePlaceholder: "在此處貼上您的文本、markdown、json 或 csv 數據...",
         loadPastedContent: "載入內容",
-        uploadHint: ".pdf, .txt, .md, .csv, .json",
+        uploadHint: ".pdf, .docx, .html, .epub, .png, .jpg, .txt, .md, .csv, .json",
         pdfViewer: "PDF 檢視器",
-        ocrSelectedPages: "OCR 選定頁面",
-        ocrProcessing: "OCR 處理中...",
+        extractSelectedPages: "擷取選定頁面",
+        extracting: "擷取中...",
+        extractionMode: "擷取方式",
+        extractionAuto: "自動（文字層，OCR 備援）",
+        extractionText: "僅文字層",
+        extractionOcr: "僅 OCR",
+        extractionDefault: "預設",
+        extractionReport: "擷取報告",
+        extractionPage: "頁",
+        extractionMethod: "方式",
+        extractionCharacters: "字元數",
+        methodText: "文字層",
+        methodOcr: "OCR",
+        extractionStatus: "狀態",
+        ocrProgress: "OCR 進度",
+        statusQueued: "排隊中",
+        statusRunning: "執行中",
+        statusDone: "完成",
+        statusFailed: "失敗",
+        cachedPage: "已快取",
+        retryPage: "重試",
+        ocrOutput: "OCR 輸出",
+        ocrOutputText: "純文字",
+        ocrOutputLayout: "版面（表格與標題）",
+        documentViewText: "文字",
+        documentViewStructured: "結構化",
+        exportCsv: "匯出 CSV",
+        structuredInput: "結構化（Markdown）",
+        structuredInputHint: "傳送保留表格與標題的版面 Markdown 版本文件",
         processedDocument: "已處理文件",
         addKeyword: "新增關鍵字",
         keywordPlaceholder: "輸入關鍵字...",
+        keywordModeText: "文字",
+        keywordModeWord: "全字",
+        keywordModeRegex: "正規表示式",
+        matchCase: "大小寫須相符",
+        invalidRegex: "無效的正規表示式",
+        matchesLimited: "只標示前面的相符項目",
+        previousMatch: "上一個相符項目",
+        nextMatch: "下一個相符項目",
+        synonyms: "同義詞",
+        addSynonymPlaceholder: "輸入同義詞後按 Enter...",
+        suggestSynonyms: "建議同義詞",
+        suggestingSynonyms: "建議中...",
+        addAllSynonyms: "全部加入",
+        keywordSets: "關鍵字組",
+        keywordSetNamePlaceholder: "關鍵字組名稱...",
+        semanticSearch: "搜尋",
+        semanticSearchPlaceholder: "依語意搜尋，例如「終止條件」",
+        searching: "搜尋中...",
+        noSearchResults: "沒有相符的段落。",
+        searchFailed: "搜尋失敗",
         download: "下載",
         downloadMd: "Markdown",
-        downloadPdf: "PDF",
+        exportReport: "匯出報告",
+        reportTitle: "報告標題",
+        reportTitlePlaceholder: "預設為文件名稱",
+        reportSections: "章節",
+        reportAgentFields: "每個代理包含",
+        resetReportTemplate: "恢復預設",
+        reportFormatPdf: "PDF",
+        reportFormatDocx: "Word",
+        reportFormatHtml: "HTML",
+        reportFormatMarkdown: "Markdown",
+        reportExporting: "匯出中...",
+        reportMetadata: "文件資訊",
+        reportDocument: "文件",
+        reportDocumentType: "類型",
+        reportCharacters: "字元數",
+        reportPages: "頁數",
+        reportAgents: "代理數",
+        reportGenerated: "產生時間",
+        reportStatus: "狀態",
+        reportKeywords: "關鍵字標示",
+        reportKeyword: "關鍵字",
+        reportMatches: "符合數",
+        reportNoKeywords: "未設定關鍵字。",
         addAgent: "新增代理",
         agentWorkflow: "代理工作流程",
         runWorkflow: "執行工作流程",
@@ -115,14 +534,218 @@ export const LOCALIZATION: Record<Language, Record<string, string>> = {
         addAgentToStart: "從面板新增一個代理以開始您的工作流程。",
         resultsDashboard: "結果儀表板",
         runWorkflowToSeeResults: "執行工作流程以查看儀表板。",
-        extractedEntities: "提取的實體",
-        sentimentAnalysis: "情緒分析",
+        dashboardLayout: "儀表板版面",
+        dashboardAutomatic: "自動",
+        dashboardWidgets: "小工具",
+        dashboardAutomaticHint: "每個具有輸出結構描述的代理都會得到符合其欄位的小工具。",
+        customizeDashboard: "自訂",
+        useAutomaticDashboard: "使用自動版面",
+        addWidget: "新增小工具",
+        widgetTitle: "標題",
+        widgetType: "類型",
+        widgetAgent: "代理",
+        widgetAgentMissing: "(代理不在工作流程中)",
+        widgetPath: "資料路徑",
+        widgetPathPlaceholder: "整個輸出",
+        widgetFieldLabel: "標籤欄位",
+        widgetFieldValue: "數值欄位(留空則計數)",
+        widgetFieldDate: "日期欄位",
+        widgetFieldDetail: "詳細欄位",
+        widgetFieldSource: "來源欄位",
+        widgetFieldTarget: "目標欄位",
+        widgetFieldColumns: "欄位",
+        widgetColumnsPlaceholder: "全部,或以逗號分隔的路徑",
+        widgetBar: "長條圖",
+        widgetPie: "圓餅圖",
+        widgetTable: "表格",
+        widgetTimeline: "時間軸",
+        widgetKeyValue: "鍵值卡片",
+        widgetNetwork: "實體關係圖",
         followUpQuestions: "建議的後續問題",
         error: "錯誤",
         noDocument: "尚未載入或處理任何文件。",
         loadingDocument: "正在載入文件...",
         clearAndReset: "清除並重設",
-        fileSize: "大小",
-        fileType: "類型",
+        workspace: "文件",
+        includeInRun: "納入執行",
+        removeDocument: "移除文件",
+        notExtracted: "尚未擷取文字",
+        runDocuments: "對每份已勾選且有文字的文件執行工作流程",
+        comparison: "比較",
+        resultsByDocument: "各文件結果",
+        citeSources: "引用來源",
+        citeSourcesHint: "代理為每項陳述引用原文段落；在文件中找不到的引文會被標示。",
+        sources: "來源",
+        noSources: "代理未提供來源。",
+        unverifiedSources: "在文件中找不到",
+        possibleHallucination: "可能為幻覺：文件中找不到此引文",
+        documentMode: "執行對象",
+        documentModeEach: "每份文件",
+        documentModeCompare: "所有文件一起（比較）",
+        batch: "批次處理",
+        batchHint: "依序對每個檔案執行目前的工作流程。每個檔案在執行歷史中各有一筆紀錄，結構化輸出會彙整成一張表格。",
+        batchAddFiles: "新增檔案",
+        batchAddFolder: "新增資料夾",
+        batchOcr: "對沒有文字的頁面與圖片進行 OCR",
+        batchClear: "清除",
+        batchStart: "開始批次",
+        batchUnsupportedSkipped: "已略過不支援或隱藏的檔案",
+        batchCompareSkipped: "比較代理不會在批次中執行",
+        batchEmpty: "尚未新增檔案。",
+        batchProgress: "已處理檔案",
+        batchLoading: "載入中...",
+        batchResults: "結果表格",
+        exportXlsx: "匯出 XLSX",
+        exportJson: "匯出 JSON",
+        batchNoStructuredOutput: "沒有代理產生結構化（JSON）輸出，因此表格只列出檔案。",
+        batchPreviewLimited: "僅顯示前幾列；匯出內容包含全部",
+        batchBudgetWarning: "您的選擇將套用於此批次其餘的檔案。",
+        agentInputs: "輸入",
+        documentInput: "文件",
+        promptPlaceholderHint: "在提示中使用 {{document}} 或 {{agent:代理名稱}} 來放置輸入，並以 {{變數}} 表示執行時填入的值。",
+        outputSchema: "輸出結構",
+        invalidOutput: "結構化輸出無效",
+        workflowRunPolicy: "執行策略",
+        agentRunPolicy: "執行策略（覆寫工作流程）",
+        maxRetries: "重試次數",
+        backoffSeconds: "退避時間（秒）",
+        timeoutSeconds: "逾時（秒，0 = 無）",
+        onFailure: "失敗時",
+        stopOnFailure: "停止工作流程",
+        continueOnFailure: "繼續並標記失敗",
+        inherit: "繼承",
+        retrying: "重試中...",
+        timedOut: "已逾時",
+        skipped: "已略過",
+        stop: "停止",
+        cancelled: "已停止",
+        longDocumentMode: "長文件模式",
+        longDocumentEnabled: "分割為區塊後合併（map-reduce）",
+        chunkSize: "區塊大小（字元）",
+        chunkOverlap: "重疊（字元）",
+        chunkConcurrency: "平行區塊數",
+        reducePrompt: "合併提示",
+        retrievalMode: "檢索模式",
+        retrievalEnabled: "只傳送最相關的段落，而非整份文件",
+        retrievalTopK: "段落數",
+        retrievalQuery: "搜尋查詢",
+        retrievalQueryPlaceholder: "留空則以代理的提示進行搜尋",
+        documentParts: "文件區塊",
+        chatWithDocument: "與文件對話",
+        chatEmpty: "提出問題，或點擊建議的後續問題。",
+        chatPlaceholder: "詢問有關文件的問題...",
+        ask: "提問",
+        thinking: "思考中...",
+        clearChat: "清除",
+        citationNotFound: "在文件中找不到此段落",
+        runHistory: "執行歷史",
+        onlyThisDocument: "僅顯示目前文件的執行紀錄",
+        noRuns: "尚無已儲存的執行紀錄。",
+        openRun: "開啟",
+        compareSameDocument: "選擇同一文件的兩次執行以進行比較。",
+        agentNotInBothRuns: "此代理並未同時出現在兩次執行中。",
+        historyLoadFailed: "無法載入執行歷史。",
+        historyDeleteFailed: "無法刪除此次執行。",
+        prompt: "提示",
+        output: "輸出",
+        workflowTemplates: "工作流程範本",
+        templateNamePlaceholder: "範本名稱...",
+        saveTemplate: "儲存",
+        loadTemplate: "載入",
+        duplicateTemplate: "複製",
+        exportTemplate: "匯出",
+        importTemplates: "匯入 JSON",
+        exportAllTemplates: "全部匯出",
+        importFailed: "無法匯入此檔案。",
+        agentsCount: "個代理",
+        newCustomAgent: "新增自訂代理",
+        editAgent: "編輯代理",
+        myAgents: "我的代理",
+        agentName: "名稱",
+        systemInstruction: "系統指示",
+        promptVariablesHint: "使用 {{變數}} 表示執行工作流程時填入的值，例如 {{language}} 或 {{audience}}。",
+        model: "模型",
+        temperature: "溫度",
+        topP: "Top-p",
+        maxOutputTokens: "最大 token 數",
+        outputMode: "輸出",
+        outputModeText: "文字",
+        outputModeJson: "JSON",
+        promptVariables: "提示變數",
+        variableTypeText: "文字",
+        variableTypeNumber: "數字",
+        variableTypeSelect: "選項",
+        variableDefault: "預設值",
+        variableOptions: "選項，以逗號分隔",
+        saveToLibrary: "儲存到我的代理",
+        saveAgent: "儲存",
+        addToWorkflow: "加入工作流程",
+        variablesTitle: "填寫提示變數",
+        cancel: "取消",
+        modelProvider: "模型供應者",
+        providerGemini: "Gemini",
+        providerMock: "模擬（離線）",
+        loadReplayFile: "載入重播檔",
+        replayLoaded: "錄製回應",
+        recordResponses: "錄製回應",
+        downloadRecording: "下載錄製內容",
+        evaluation: "代理評估",
+        evalHint: "以含預期輸出的黃金資料集執行單一代理，並將分數與基準執行比較。",
+        evalDatasets: "資料集",
+        noEvalDatasets: "尚無資料集。",
+        newEvalDataset: "新增資料集",
+        untitledEvalDataset: "未命名資料集",
+        deleteEvalDataset: "刪除資料集",
+        importEvalDataset: "匯入資料集",
+        exportEvalDataset: "匯出資料集",
+        evalLoadFailed: "無法載入評估資料集。",
+        evalDatasetName: "資料集名稱",
+        evalMetric: "評分方式",
+        evalMetricExactMatch: "完全相符",
+        evalMetricSetF1: "集合 F1",
+        evalMetricJsonFields: "JSON 欄位正確率",
+        evalMetricLlmJudge: "LLM 評審",
+        evalPath: "比較的值",
+        evalPathHint: "輸出中的路徑，例如 sentiment 或 entities.name；留空則比較整個輸出",
+        evalFields: "比較的欄位",
+        evalFieldsHint: "以逗號分隔的路徑；留空則比較預期輸出的所有欄位",
+        evalRubric: "評審標準",
+        evalRubricHint: "好的輸出應具備什麼，例如涵蓋所有義務且不杜撰",
+        evalCases: "案例",
+        evalCaseName: "案例名稱",
+        evalCaseContent: "文件內容",
+        evalExpected: "預期輸出",
+        addEvalCase: "新增案例",
+        addCurrentDocumentCase: "加入目前文件",
+        removeEvalCase: "移除案例",
+        evalAgent: "代理",
+        evalAgentAlone: "代理會在每個案例上單獨執行：來自其他代理的輸入為空。",
+        runEvaluation: "執行評估",
+        evalRuns: "執行紀錄",
+        evalScore: "分數",
+        evalBaseline: "基準",
+        evalNoBaseline: "沒有可比較的基準",
+        setEvalBaseline: "設為基準",
+        evalImproved: "進步",
+        evalRegressed: "退步",
+        evalCase: "案例",
+        evalDetail: "說明",
+        redaction: "個資遮蔽",
+        redactionHint: "在傳送給模型的所有內容中（文件、提示、代理輸出、對話與搜尋），以 [PERSON_3] 等代號取代個人資料。結果會以原始值顯示；對照表只保存在此瀏覽器中。",
+        redactionEnabled: "呼叫模型前遮蔽個人資料",
+        allowOcrImages: "仍傳送頁面影像進行 OCR（影像無法遮蔽）",
+        piiDetectors: "偵測器",
+        piiDetectorLabel: "代號名稱",
+        piiDetectorRegex: "規則",
+        piiDetectorDictionary: "字典",
+        piiDictionaryTerms: "每行一個姓名或詞彙",
+        addRegexDetector: "新增規則",
+        addDictionaryDetector: "新增字典",
+        removeDetector: "移除偵測器",
+        resetDetectors: "重設偵測器",
+        redactionPreview: "模型收到的此文件內容",
+        redactionOff: "遮蔽已關閉，文件會原樣傳送。以下為開啟遮蔽時會傳送的內容。",
+        redactionMapping: "代號對照表",
+        noPiiFound: "未發現個人資料。",
     }
 };
@@ -15,16 +15,19 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T
     }
   });
 
+  // Updaters get the latest value, not the one from this render, so several updates in one go all count.
   const setValue = (value: T | ((val: T) => T)) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      if (typeof window !== 'undefined') {
-        window.localStorage.setItem(key, JSON.stringify(valueToStore));
+    setStoredValue(prev => {
+      const valueToStore = value instanceof Function ? value(prev) : value;
+      try {
+        if (typeof window !== 'undefined') {
+          window.localStorage.setItem(key, JSON.stringify(valueToStore));
+        }
+      } catch (error) {
+        console.error(error);
       }
-    } catch (error) {
-      console.error(error);
-    }
+      return valueToStore;
+    });
   };
 
   return [storedValue, setValue];
@@ -0,0 +1,60 @@
+import { deleteRecord, getRecord, putRecord } from './db';
+
+// 'session': kept in sessionStorage and gone when the tab closes.
+// 'encrypted': kept in IndexedDB, AES-GCM encrypted with a non-extractable key generated for this browser,
+// so the raw key never sits in localStorage or in an exported database dump.
+export type ApiKeyStorage = 'session' | 'encrypted';
+
+export interface StoredApiKey {
+    apiKey: string;
+    storage: ApiKeyStorage;
+}
+
+const STORE = 'secrets';
+const SESSION_KEY = 'geminiApiKey';
+const CRYPTO_KEY_ID = 'browserKey';
+const CIPHERTEXT_ID = 'geminiApiKey';
+
+interface CryptoKeyRecord { id: string; key: CryptoKey }
+interface CiphertextRecord { id: string; iv: Uint8Array<ArrayBuffer>; data: ArrayBuffer }
+
+const getBrowserKey = async (): Promise<CryptoKey> => {
+    const existing = await getRecord<CryptoKeyRecord>(STORE, CRYPTO_KEY_ID);
+    if (existing) return existing.key;
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await putRecord<CryptoKeyRecord>(STORE, { id: CRYPTO_KEY_ID, key });
+    return key;
+};
+
+export const saveApiKey = async ({ apiKey, storage }: StoredApiKey): Promise<void> => {
+    await clearApiKey();
+    if (storage === 'session') {
+        sessionStorage.setItem(SESSION_KEY, apiKey);
+        return;
+    }
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getBrowserKey(), new TextEncoder().encode(apiKey));
+    await putRecord<CiphertextRecord>(STORE, { id: CIPHERTEXT_ID, iv, data });
+};
+
+export const loadApiKey = async (): Promise<StoredApiKey | null> => {
+    const sessionKey = sessionStorage.getItem(SESSION_KEY);
+    if (sessionKey) return { apiKey: sessionKey, storage: 'session' };
+
+    const record = await getRecord<CiphertextRecord>(STORE, CIPHERTEXT_ID);
+    if (!record) return null;
+    try {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv }, await getBrowserKey(), record.data);
+        return { apiKey: new TextDecoder().decode(plain), storage: 'encrypted' };
+    } catch (error) {
+        // The browser key was lost (e.g. site data partly cleared); the ciphertext is useless without it.
+        console.error(error);
+        await deleteRecord(STORE, CIPHERTEXT_ID);
+        return null;
+    }
+};
+
+export const clearApiKey = async (): Promise<void> => {
+    sessionStorage.removeItem(SESSION_KEY);
+    await deleteRecord(STORE, CIPHERTEXT_ID);
+};
@@ -0,0 +1,135 @@
+import { Agent, AgentStatus, BatchItem, DocumentType, OcrOutputFormat, PageExtraction, RunPolicy } from '../types';
+import { estimateOcrCost, estimateWorkflowCost, runCost, totalEstimate, usageCost } from './costEstimation';
+import { mapWithConcurrency } from './concurrency';
+import { OCR_MODEL } from './geminiService';
+import { detectDocumentType, DocumentLoadError, loadDocument, openPdf } from './loaders';
+import { describeError } from './loaders/loader';
+import { getCachedOcrPages } from './ocrCache';
+import { formatExtractedContent, formatStructuredContent, OCR_CONCURRENCY, ocrPage, readTextLayers } from './pdfExtraction';
+import { executeWorkflow, validateWorkflow } from './workflowService';
+import { isCompareAgent } from './workspaceService';
+
+class BudgetRefusedError extends Error {
+    constructor() {
+        super('Skipped: the usage budget does not allow this file.');
+        this.name = 'BudgetRefusedError';
+    }
+}
+
+interface BatchLoadOptions {
+    ocr: boolean;
+    ocrFormat: OcrOutputFormat;
+    approveCost: (cost: number) => boolean;
+}
+
+interface BatchDocument {
+    content: string;
+    structuredContent?: string;
+    // Spent on OCR while loading.
+    cost: number;
+}
+
+// A whole PDF, without page selection: the text layer of every page, plus OCR for pages without one when
+// `ocr` is on. Pages OCRed before (in the viewer or an earlier batch) come from the cache.
+const loadPdf = async (file: File, { ocr, ocrFormat, approveCost }: BatchLoadOptions): Promise<BatchDocument> => {
+    const { pdfDoc, fileHash } = await openPdf(file);
+    const pages = Array.from({ length: pdfDoc.numPages }, (_, i) => i + 1);
+    const layers = await readTextLayers(pdfDoc, pages, () => ocr ? 'auto' : 'text');
+    const cached = await getCachedOcrPages(fileHash, layers.filter(l => l.needsOcr).map(l => l.page), ocrFormat);
+    const missing = layers.filter(l => l.needsOcr && !cached.has(l.page)).map(l => l.page);
+    if (missing.length > 0 && !approveCost(estimateOcrCost(missing.length).cost)) throw new BudgetRefusedError();
+
+    let cost = 0;
+    const report = await mapWithConcurrency(layers, OCR_CONCURRENCY, async (layer): Promise<PageExtraction> => {
+        if (!layer.needsOcr) return { page: layer.page, method: 'text', status: 'done', text: layer.text, characters: layer.text.length };
+        const hit = cached.get(layer.page);
+        if (hit) return { page: layer.page, method: 'ocr', status: 'done', text: hit.text, blocks: hit.blocks, characters: hit.text.length, cached: true };
+        try {
+            const result = await ocrPage(pdfDoc, fileHash, layer.page, ocrFormat);
+            if (result.usage) cost += usageCost(OCR_MODEL, result.usage);
+            return { page: layer.page, method: 'ocr', status: 'done', text: result.text, blocks: result.blocks, characters: result.text.length };
+        } catch (error) {
+            console.error(`OCR failed for page ${layer.page} of ${file.name}:`, error);
+            return { page: layer.page, method: 'ocr', status: 'failed', text: '', characters: 0, error: describeError(error) };
+        }
+    });
+    if (report.every(r => !r.text.trim())) {
+        throw new DocumentLoadError(ocr ? `No text was found in "${file.name}".` : `"${file.name}" has no text layer. Turn on OCR to read scanned pages.`);
+    }
+    return { content: formatExtractedContent(report), structuredContent: formatStructuredContent(report), cost };
+};
+
+const loadBatchDocument = async (file: File, options: BatchLoadOptions): Promise<BatchDocument> => {
+    const type = detectDocumentType(file);
+    if (type === DocumentType.PDF) return loadPdf(file, options);
+    const { content, structuredContent, usage } = await loadDocument(file, type, {
+        ocrFormat: options.ocrFormat,
+        confirmOcr: () => options.ocr && options.approveCost(estimateOcrCost(1).cost),
+    });
+    return { content, structuredContent, cost: usage ? usageCost(OCR_MODEL, usage) : 0 };
+};
+
+interface BatchRunOptions extends BatchLoadOptions {
+    policy: RunPolicy;
+    onItemUpdate: (id: string, update: Partial<BatchItem>) => void;
+    onAgentUpdate: (itemId: string, agentId: string, update: Partial<Agent>) => void;
+    // Called once per file that got as far as running its workflow, e.g. to save it to the run history.
+    onItemFinished?: (item: BatchItem, content: string) => Promise<void>;
+    signal?: AbortSignal;
+}
+
+// The agents a batch runs on every file. Comparison agents need all documents at once and are left out.
+export const batchAgents = (agents: Agent[]): Agent[] => agents.filter(a => !isCompareAgent(a));
+
+// Files go through load → OCR → workflow one after another, so a batch never has more model calls in flight
+// than a single run. A file that fails is marked and the batch moves on; aborting `signal` cancels the
+// running file and every file still queued. `approveCost` is asked before each file's OCR and workflow;
+// `cost` is only set on a file's final update, so it can be added to the spend as it arrives.
+export const executeBatch = async (agents: Agent[], items: BatchItem[], options: BatchRunOptions): Promise<void> => {
+    const { policy, onItemUpdate, onAgentUpdate, onItemFinished, signal } = options;
+    const workflowAgents = batchAgents(agents);
+    validateWorkflow(workflowAgents);
+
+    for (const item of items) {
+        if (signal?.aborted) {
+            onItemUpdate(item.id, { status: 'cancelled' });
+            continue;
+        }
+        onItemUpdate(item.id, { status: 'loading', error: undefined, agents: undefined, cost: undefined });
+        let loadCost = 0;
+        try {
+            const doc = await loadBatchDocument(item.file, options);
+            loadCost = doc.cost;
+            let estimate = 0;
+            try {
+                estimate = totalEstimate((await estimateWorkflowCost(workflowAgents, doc.content, doc.structuredContent)).values()).cost;
+            } catch (error) {
+                // As in a normal run, a failed token count alone does not block the file.
+                console.error(`Failed to estimate cost for ${item.name}:`, error);
+            }
+            if (!options.approveCost(estimate)) throw new BudgetRefusedError();
+
+            onItemUpdate(item.id, { status: 'running', agents: workflowAgents });
+            const finished = await executeWorkflow(workflowAgents, doc.content, {
+                policy,
+                structuredContent: doc.structuredContent,
+                onAgentUpdate: (agentId, update) => onAgentUpdate(item.id, agentId, update),
+                signal,
+            });
+            const done: BatchItem = {
+                ...item,
+                status: signal?.aborted ? 'cancelled' : finished.every(a => a.status === AgentStatus.Success) ? 'done' : 'failed',
+                error: finished.find(a => a.error)?.error ?? undefined,
+                agents: finished,
+                cost: loadCost + runCost(finished),
+            };
+            onItemUpdate(item.id, done);
+            await onItemFinished?.(done, doc.content);
+        } catch (error) {
+            if (!(error instanceof DocumentLoadError) && !(error instanceof BudgetRefusedError)) {
+                console.error(`Batch item ${item.name} failed:`, error);
+            }
+            onItemUpdate(item.id, { status: 'failed', error: describeError(error), cost: loadCost });
+        }
+    }
+};
@@ -0,0 +1,134 @@
+export interface DocumentChunk {
+    index: number;
+    text: string;
+    // First and last page covered by the chunk, when the content carries `--- Page N ---` markers.
+    pages: [number, number] | null;
+}
+
+interface PageSegment {
+    page: number | null;
+    text: string;
+}
+
+const PAGE_MARKER = /^--- Page (\d+) ---$/gm;
+
+const splitIntoPages = (content: string): PageSegment[] => {
+    const markers = Array.from(content.matchAll(PAGE_MARKER));
+    if (markers.length === 0) return [{ page: null, text: content }];
+
+    const segments: PageSegment[] = [];
+    const preamble = content.slice(0, markers[0].index).trim();
+    if (preamble) segments.push({ page: null, text: preamble });
+    markers.forEach((marker, i) => {
+        const end = i + 1 < markers.length ? markers[i + 1].index : content.length;
+        segments.push({ page: Number(marker[1]), text: content.slice(marker.index, end).trim() });
+    });
+    return segments;
+};
+
+// Cuts text into pieces of at most `size` characters, preferring paragraph, line and word boundaries.
+const splitText = (text: string, size: number): string[] => {
+    const pieces: string[] = [];
+    let rest = text;
+    while (rest.length > size) {
+        const window = rest.slice(0, size);
+        const cut = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf(' ')]
+            .find(i => i > size / 2) ?? size;
+        pieces.push(rest.slice(0, cut));
+        rest = rest.slice(cut).trimStart();
+    }
+    if (rest) pieces.push(rest);
+    return pieces;
+};
+
+const pageRange = (pages: number[]): [number, number] | null =>
+    pages.length > 0 ? [Math.min(...pages), Math.max(...pages)] : null;
+
+// Each chunk is one model call, and the step between chunks is chunkSize - overlap: an overlap close to the
+// chunk size would turn a document into thousands of calls.
+export const maxOverlap = (chunkSize: number): number => Math.floor(chunkSize / 2);
+
+export const splitDocument = (content: string, chunkSize: number, requestedOverlap: number): DocumentChunk[] => {
+    const overlap = Math.min(Math.max(0, requestedOverlap), maxOverlap(chunkSize));
+    const chunks: DocumentChunk[] = [];
+    let text = '';
+    let pages: number[] = [];
+
+    const flush = () => {
+        chunks.push({ index: chunks.length, text, pages: pageRange(pages) });
+        const tail = overlap > 0 ? text.slice(-overlap) : '';
+        text = tail;
+        pages = tail && pages.length > 0 ? [pages[pages.length - 1]] : [];
+    };
+
+    for (const segment of splitIntoPages(content)) {
+        for (const piece of splitText(segment.text, Math.max(1, chunkSize - overlap))) {
+            if (text.length > 0 && text.length + piece.length > chunkSize) flush();
+            text = text ? `${text}\n\n${piece}` : piece;
+            if (segment.page !== null) pages.push(segment.page);
+        }
+    }
+    if (text.trim() && (chunks.length === 0 || text.length > overlap)) {
+        chunks.push({ index: chunks.length, text, pages: pageRange(pages) });
+    }
+    return chunks;
+};
+
+export const formatPageRange = (pages: [number, number] | null): string => {
+    if (!pages) return '';
+    return pages[0] === pages[1] ? `p. ${pages[0]}` : `pp. ${pages[0]}–${pages[1]}`;
+};
+
+export interface Passage {
+    // Offsets into the content, so a passage can be highlighted where it is.
+    start: number;
+    end: number;
+    page: number | null;
+}
+
+// Short passages for search: whole paragraphs packed up to `size` characters, never across a page marker.
+// Unlike splitDocument, the passages keep their exact position in `content`.
+export const splitPassages = (content: string, size: number): Passage[] => {
+    const markers = Array.from(content.matchAll(PAGE_MARKER));
+    const pageAt = (offset: number): number | null => {
+        let page: number | null = null;
+        for (const marker of markers) {
+            if (marker.index > offset) break;
+            page = Number(marker[1]);
+        }
+        return page;
+    };
+
+    const paragraphs: Passage[] = [];
+    const addParagraph = (start: number, end: number) => {
+        const text = content.slice(start, end);
+        // A page marker opens the first paragraph of its page; the passage starts after it.
+        const marker = /^--- Page \d+ ---\n?/.exec(text.trimStart());
+        start += text.length - text.trimStart().length + (marker?.[0].length ?? 0);
+        end -= text.length - text.trimEnd().length;
+        if (end <= start) return;
+        // Paragraphs longer than a passage are cut at the last space of each window.
+        while (end - start > size) {
+            const window = content.slice(start, start + size);
+            const cut = window.lastIndexOf(' ') > size / 2 ? window.lastIndexOf(' ') : size;
+            paragraphs.push({ start, end: start + cut, page: pageAt(start) });
+            start += cut;
+            while (start < end && /\s/.test(content[start])) start++;
+        }
+        if (end > start) paragraphs.push({ start, end, page: pageAt(start) });
+    };
+    let paragraphStart = 0;
+    for (const gap of content.matchAll(/\n\s*\n/g)) {
+        addParagraph(paragraphStart, gap.index);
+        paragraphStart = gap.index + gap[0].length;
+    }
+    addParagraph(paragraphStart, content.length);
+
+    const passages: Passage[] = [];
+    for (const paragraph of paragraphs) {
+        const last = passages[passages.length - 1];
+        if (last && last.page === paragraph.page && paragraph.end - last.start <= size) last.end = paragraph.end;
+        else passages.push({ ...paragraph });
+    }
+    return passages;
+};
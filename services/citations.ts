@@ -0,0 +1,138 @@
+import { Citation, JsonSchema, SourceCitation, TextSpan } from '../types';
+
+// Lowercases and collapses whitespace runs, remembering where each normalized character came from.
+const normalizeWithMap = (text: string): { normalized: string; map: number[] } => {
+    let normalized = '';
+    const map: number[] = [];
+    let previousWasSpace = true;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (/\s/.test(ch)) {
+            if (!previousWasSpace) {
+                normalized += ' ';
+                map.push(i);
+            }
+            previousWasSpace = true;
+        } else {
+            const lower = ch.toLowerCase();
+            normalized += lower.length === 1 ? lower : ch;
+            map.push(i);
+            previousWasSpace = false;
+        }
+    }
+    return { normalized, map };
+};
+
+export const locateQuote = (content: string, quote: string): TextSpan | null => {
+    const trimmed = quote.trim();
+    if (!trimmed) return null;
+
+    const exact = content.indexOf(trimmed);
+    if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+    const { normalized, map } = normalizeWithMap(content);
+    const needle = normalizeWithMap(trimmed).normalized.trimEnd();
+    const index = normalized.indexOf(needle);
+    if (index === -1) return null;
+    return { start: map[index], end: map[index + needle.length - 1] + 1 };
+};
+
+export const locatePage = (content: string, page: number): TextSpan | null => {
+    const marker = `--- Page ${page} ---`;
+    const start = content.indexOf(marker);
+    return start === -1 ? null : { start, end: start + marker.length };
+};
+
+// Prefers the quoted passage; falls back to the page marker when the quote cannot be found verbatim.
+export const resolveCitation = (content: string, page: number | null, quote: string): Citation => ({
+    page,
+    quote,
+    span: locateQuote(content, quote) ?? (page !== null ? locatePage(content, page) : null),
+});
+
+// A citation as an agent reports it, before it is checked against the document. Offsets are optional; quotes
+// are what the check relies on.
+export interface ReportedCitation {
+    claim: string;
+    quote: string;
+    page: number | null;
+    start?: number;
+    end?: number;
+}
+
+const REPORTED_CITATIONS_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            claim: { type: 'string', description: 'The statement or extracted value, as written in the result.' },
+            quote: { type: 'string', description: 'A short verbatim quote from the document that supports the claim.' },
+            page: { type: 'integer', description: 'The page of the quote, from the "--- Page N ---" markers.' },
+            start: { type: 'integer', description: 'Character offset where the quote starts in the document.' },
+            end: { type: 'integer', description: 'Character offset where the quote ends in the document.' },
+        },
+        required: ['claim', 'quote'],
+    },
+};
+
+// Structured agents that cite their sources answer { result, sources }; `result` follows the agent's own schema.
+export const citedOutputSchema = (schema: JsonSchema): JsonSchema => ({
+    type: 'object',
+    properties: { result: schema, sources: REPORTED_CITATIONS_SCHEMA },
+    required: ['result', 'sources'],
+});
+
+const SOURCES_BLOCK = /```sources[ \t]*\n([\s\S]*?)```/g;
+
+export const citationInstructions = (json: boolean): string => json
+    ? 'CITATIONS:\nAnswer with an object whose "result" is your answer and whose "sources" lists, for every claim or extracted value in it, the claim and a short verbatim quote from the document that supports it, with its page number when the document has "--- Page N ---" markers.'
+    : 'CITATIONS:\nMark every claim with a numbered reference such as [1]. After your answer, add a fenced block opening with ```sources that contains a JSON array with one entry per reference, in order: {"claim": the claim, "quote": a short verbatim quote from the document that supports it, "page": its page number when the document has "--- Page N ---" markers}. Quote the document exactly; never paraphrase.';
+
+const toReported = (entries: unknown): ReportedCitation[] => Array.isArray(entries)
+    ? entries.filter((e: any) => e && (typeof e.quote === 'string' || (Number.isInteger(e.start) && Number.isInteger(e.end)))).map((e: any) => ({
+        claim: typeof e.claim === 'string' ? e.claim : '',
+        quote: typeof e.quote === 'string' ? e.quote : '',
+        page: typeof e.page === 'number' ? e.page : null,
+        ...(Number.isInteger(e.start) && Number.isInteger(e.end) && { start: e.start, end: e.end }),
+    }))
+    : [];
+
+// Separates the reported citations from the answer. Structured output loses its { result, sources } wrapper;
+// text output loses its sources block. Output that does not have the expected shape is returned as is.
+export const splitCitedOutput = (output: string, json: boolean): { output: string; reported: ReportedCitation[] } => {
+    if (json) {
+        try {
+            const parsed = JSON.parse(output);
+            if (parsed && typeof parsed === 'object' && 'result' in parsed) {
+                return { output: JSON.stringify(parsed.result, null, 2), reported: toReported(parsed.sources) };
+            }
+        } catch {
+            // Left to the schema validation of the agent's output.
+        }
+        return { output, reported: [] };
+    }
+    const blocks = Array.from(output.matchAll(SOURCES_BLOCK));
+    const last = blocks[blocks.length - 1];
+    if (!last) return { output, reported: [] };
+    let reported: ReportedCitation[] = [];
+    try {
+        reported = toReported(JSON.parse(last[1]));
+    } catch {
+        // A malformed block still does not belong in the answer.
+    }
+    return { output: (output.slice(0, last.index) + output.slice(last.index! + last[0].length)).trimEnd(), reported };
+};
+
+const sameText = (a: string, b: string) => normalizeWithMap(a).normalized.trim() === normalizeWithMap(b).normalized.trim();
+
+// Offsets are trusted only when the text there is the quote; otherwise the quote is searched for. A quote that is
+// nowhere in the document leaves the citation unverified, pointing at its page when it gave one.
+export const verifyCitation = (content: string, { claim, quote, page, start, end }: ReportedCitation): SourceCitation => {
+    if (start !== undefined && end !== undefined && start >= 0 && start < end && end <= content.length) {
+        const cited = content.slice(start, end);
+        if (!quote.trim() || sameText(cited, quote)) return { claim, quote: quote || cited, page, span: { start, end }, verified: true };
+    }
+    const span = locateQuote(content, quote);
+    if (span) return { claim, quote, page, span, verified: true };
+    return { claim, quote, page, span: page !== null ? locatePage(content, page) : null, verified: false };
+};
@@ -0,0 +1,19 @@
+// Runs `worker` over `items` with at most `limit` calls in flight, keeping results in input order.
+// The first failure stops new items from being picked up and rejects the whole call.
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await worker(items[index], index);
+            } catch (error) {
+                next = items.length;
+                throw error;
+            }
+        }
+    });
+    await Promise.all(lanes);
+    return results;
+};
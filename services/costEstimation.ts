@@ -0,0 +1,155 @@
+import { Agent, TokenUsage, UsageBudget } from '../types';
+import { EMBEDDING_INPUT_PER_MILLION, MODEL_OPTIONS } from '../constants';
+import { splitDocument } from './chunking';
+import { mapWithConcurrency } from './concurrency';
+import { ASSISTANT_MODEL, countAgentTokens, countFollowUpTokens, OCR_MODEL } from './geminiService';
+import { resolveAgentVariables } from './promptVariables';
+import { isDocumentIndexed, PASSAGE_SIZE, retrievalQuery } from './semanticSearch';
+import { buildAgentPrompt, documentFor, validateWorkflow } from './workflowService';
+import { combineDocuments, combineStructuredDocuments, isCompareAgent, validateWorkspace, WorkspaceDocument } from './workspaceService';
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { perRun: null, perDay: null, onExceed: 'warn' };
+
+// Output length is unknown before a run: assume this much unless the agent sets maxOutputTokens.
+const EXPECTED_OUTPUT_TOKENS = 1000;
+// A page rendered at scale 2 is about six 768px image tiles of 258 tokens each.
+const OCR_PAGE_INPUT_TOKENS = 1600;
+const OCR_PAGE_OUTPUT_TOKENS = 800;
+// Embedding calls report characters rather than tokens; text averages about four characters per token.
+const CHARACTERS_PER_TOKEN = 4;
+
+export interface CostEstimate {
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+}
+
+export interface BudgetViolation {
+    limit: 'perRun' | 'perDay';
+    allowed: number;
+    projected: number;
+}
+
+// Models without a price (e.g. ones added by hand to an imported template) count as free.
+export const priceOf = (model: string, inputTokens: number, outputTokens: number): number => {
+    const pricing = MODEL_OPTIONS.find(m => m.value === model)?.pricing;
+    if (!pricing) return 0;
+    return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+};
+
+export const usageCost = (model: string, usage: TokenUsage): number => priceOf(model, usage.promptTokens, usage.outputTokens);
+
+const embeddingTokens = (characters: number): number => Math.ceil(characters / CHARACTERS_PER_TOKEN);
+
+export const embeddingCost = (characters: number): number => embeddingTokens(characters) * EMBEDDING_INPUT_PER_MILLION / 1_000_000;
+
+export const runCost = (agents: Agent[]): number =>
+    agents.reduce((sum, a) => sum + (a.usage ? usageCost(a.model, a.usage) : 0) + embeddingCost(a.embeddedCharacters ?? 0), 0);
+
+const expectedOutputTokens = (agent: Agent): number => agent.generation?.maxOutputTokens ?? EXPECTED_OUTPUT_TOKENS;
+
+// Counts each agent's real prompt through the model provider. Upstream outputs do not exist yet, so
+// they are left out of the counted prompt and added back at their expected output length. `finished`
+// agents are upstream only, as in executeWorkflow, and are not estimated themselves. A document without a
+// search index is embedded once for all of its retrieval-mode agents; the first of them carries that cost.
+export const estimateWorkflowCost = async (
+    agents: Agent[], documentContent: string, structuredContent?: string, finished: Agent[] = [],
+): Promise<Map<string, CostEstimate>> => {
+    const dependencies = validateWorkflow([...finished, ...agents]);
+    const byId = new Map([...finished, ...agents].map(a => [a.id, a]));
+
+    const indexingCharacters = new Map<string, number>();
+    const retrievedDocuments = new Set<string>();
+    for (const agent of agents) {
+        if (!agent.retrieval?.enabled) continue;
+        const document = documentFor(agent, documentContent, structuredContent);
+        if (retrievedDocuments.has(document)) continue;
+        retrievedDocuments.add(document);
+        if (!await isDocumentIndexed(document)) indexingCharacters.set(agent.id, document.length);
+    }
+
+    const estimates = await mapWithConcurrency(agents, 3, async (configuredAgent): Promise<[string, CostEstimate]> => {
+        const agent = resolveAgentVariables(configuredAgent);
+        const upstream = dependencies.get(agent.id)!.map(id => ({ ...byId.get(id)!, output: '' }));
+        const fullDocument = documentFor(agent, documentContent, structuredContent);
+        // Retrieval mode sends at most topK passages; which ones is only known at run time.
+        const document = agent.retrieval?.enabled ? fullDocument.slice(0, agent.retrieval.topK * PASSAGE_SIZE) : fullDocument;
+        const upstreamTokens = upstream.reduce((sum, a) => sum + expectedOutputTokens(a), 0);
+        const outputTokens = expectedOutputTokens(agent);
+
+        let inputTokens: number;
+        let totalOutputTokens = outputTokens;
+        if (agent.longDocument?.enabled) {
+            const pieces = splitDocument(document, agent.longDocument.chunkSize, agent.longDocument.overlap);
+            const mapPrompts = pieces.map(p => buildAgentPrompt(agent, p.text, upstream)).join('\n\n');
+            inputTokens = await countAgentTokens(agent, mapPrompts) + upstreamTokens * pieces.length;
+            if (pieces.length > 1) {
+                // The reduce step reads every partial result and writes one more output.
+                inputTokens += outputTokens * pieces.length;
+                totalOutputTokens += outputTokens * pieces.length;
+            }
+        } else {
+            inputTokens = await countAgentTokens(agent, buildAgentPrompt(agent, document, upstream)) + upstreamTokens;
+        }
+        const embeddedCharacters = agent.retrieval?.enabled ? (indexingCharacters.get(agent.id) ?? 0) + retrievalQuery(agent).length : 0;
+        const cost = priceOf(agent.model, inputTokens, totalOutputTokens) + embeddingCost(embeddedCharacters);
+        return [agent.id, { inputTokens: inputTokens + embeddingTokens(embeddedCharacters), outputTokens: totalOutputTokens, cost }];
+    });
+    return new Map(estimates);
+};
+
+// Per-document agents are estimated once per document and summed; comparison agents once on all of them.
+export const estimateWorkspaceCost = async (agents: Agent[], documents: WorkspaceDocument[]): Promise<Map<string, CostEstimate>> => {
+    validateWorkspace(agents);
+    const perDocument = agents.filter(a => !isCompareAgent(a));
+    const compare = agents.filter(isCompareAgent);
+    const totals = new Map<string, CostEstimate>();
+    const add = (estimates: Map<string, CostEstimate>) => {
+        for (const [id, estimate] of estimates) totals.set(id, totalEstimate([totals.get(id) ?? totalEstimate([]), estimate]));
+    };
+
+    if (perDocument.length > 0) {
+        for (const doc of documents) add(await estimateWorkflowCost(perDocument, doc.content, doc.structuredContent));
+    }
+    if (compare.length > 0) {
+        // Each per-document agent hands the comparison one output per document.
+        const finished = perDocument.map(a => ({ ...a, generation: { ...a.generation, maxOutputTokens: expectedOutputTokens(a) * documents.length } }));
+        add(await estimateWorkflowCost(compare, combineDocuments(documents), combineStructuredDocuments(documents), finished));
+    }
+    return totals;
+};
+
+// Three short questions.
+const FOLLOW_UP_OUTPUT_TOKENS = 200;
+
+// The follow-up questions after a run read the documents and every successful agent's output.
+export const estimateFollowUpCost = async (agents: Agent[], documents: WorkspaceDocument[]): Promise<CostEstimate> => {
+    const content = documents.length === 1 ? documents[0].content : combineDocuments(documents);
+    const outputsTokens = agents.reduce((sum, a) => sum + expectedOutputTokens(a) * (isCompareAgent(a) ? 1 : documents.length), 0);
+    const inputTokens = await countFollowUpTokens(content) + outputsTokens;
+    return { inputTokens, outputTokens: FOLLOW_UP_OUTPUT_TOKENS, cost: priceOf(ASSISTANT_MODEL, inputTokens, FOLLOW_UP_OUTPUT_TOKENS) };
+};
+
+export const estimateOcrCost = (pageCount: number): CostEstimate => {
+    const inputTokens = OCR_PAGE_INPUT_TOKENS * pageCount;
+    const outputTokens = OCR_PAGE_OUTPUT_TOKENS * pageCount;
+    return { inputTokens, outputTokens, cost: priceOf(OCR_MODEL, inputTokens, outputTokens) };
+};
+
+export const totalEstimate = (estimates: Iterable<CostEstimate>): CostEstimate => {
+    const total: CostEstimate = { inputTokens: 0, outputTokens: 0, cost: 0 };
+    for (const e of estimates) {
+        total.inputTokens += e.inputTokens;
+        total.outputTokens += e.outputTokens;
+        total.cost += e.cost;
+    }
+    return total;
+};
+
+export const checkBudget = (cost: number, budget: UsageBudget, spentToday: number): BudgetViolation | null => {
+    if (budget.perRun !== null && cost > budget.perRun) return { limit: 'perRun', allowed: budget.perRun, projected: cost };
+    if (budget.perDay !== null && spentToday + cost > budget.perDay) return { limit: 'perDay', allowed: budget.perDay, projected: spentToday + cost };
+    return null;
+};
+
+export const formatUsd = (amount: number): string => `$${amount.toFixed(amount > 0 && amount < 0.01 ? 4 : 2)}`;
@@ -0,0 +1,185 @@
+import { Agent, AgentStatus, DashboardWidget, JsonSchema, WidgetFields, WidgetType } from '../types';
+import { flattenInto, TableCell } from './resultsTable';
+
+export const WIDGET_TYPES: WidgetType[] = ['bar', 'pie', 'table', 'timeline', 'keyValue', 'network'];
+
+export type WidgetItem = Record<string, unknown>;
+
+const PALETTE = ['#6366f1', '#f59e0b', '#10b981', '#ec4899', '#0ea5e9', '#8b5cf6', '#f97316', '#14b8a6'];
+// Sentiment keeps its usual colours whatever order the scores come in.
+const NAMED_COLORS: Record<string, string> = { positive: '#22c55e', negative: '#ef4444', neutral: '#6b7280' };
+
+// The colour of a chart's `index`th label, the same on screen and in reports.
+export const widgetColor = (label: string, index: number): string => NAMED_COLORS[label.toLowerCase()] ?? PALETTE[index % PALETTE.length];
+
+export interface ChartDatum {
+    label: string;
+    value: number;
+}
+
+export interface TimelineEvent {
+    date: string;
+    label: string;
+    detail: string | null;
+}
+
+export interface NetworkGraph {
+    nodes: string[];
+    // Pairs of node indexes.
+    edges: [number, number][];
+}
+
+export interface WidgetTable {
+    columns: string[];
+    rows: string[][];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// A dotted path into a value. Arrays along the way are mapped over and flattened, so "risks.owner" gives
+// the owner of every risk.
+export const valueAtPath = (value: unknown, path: string): unknown => {
+    if (!path) return value;
+    return path.split('.').reduce<unknown>(function step(current, key): unknown {
+        if (Array.isArray(current)) return current.flatMap(item => step(item, key));
+        return isPlainObject(current) ? current[key] : undefined;
+    }, value);
+};
+
+export const widgetItems = (data: unknown): WidgetItem[] => {
+    if (Array.isArray(data)) return data.filter(d => d !== null && d !== undefined).map(d => isPlainObject(d) ? d : { value: d });
+    if (isPlainObject(data)) return Object.entries(data).map(([key, value]) => ({ key, value }));
+    return data === null || data === undefined ? [] : [{ value: data }];
+};
+
+const text = (value: unknown): string =>
+    value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Sums `value` per label, in the order labels first appear. Without a value field every item counts once,
+// e.g. entities per type.
+export const chartData = ({ label = 'key', value }: WidgetFields, items: WidgetItem[]): ChartDatum[] => {
+    const totals = new Map<string, number>();
+    for (const item of items) {
+        const name = text(valueAtPath(item, label));
+        if (!name) continue;
+        const amount = value ? Number(valueAtPath(item, value)) : 1;
+        if (Number.isFinite(amount)) totals.set(name, (totals.get(name) ?? 0) + amount);
+    }
+    return Array.from(totals, ([name, total]) => ({ label: name, value: total }));
+};
+
+// Events in date order; dates that do not parse keep their place after the ones that do.
+export const timelineEvents = ({ date = 'date', label = 'label', detail }: WidgetFields, items: WidgetItem[]): TimelineEvent[] =>
+    items
+        .map((item, index) => ({ index, time: Date.parse(text(valueAtPath(item, date))), event: {
+            date: text(valueAtPath(item, date)),
+            label: text(valueAtPath(item, label)),
+            detail: detail ? text(valueAtPath(item, detail)) || null : null,
+        } }))
+        .filter(e => e.event.date || e.event.label)
+        .sort((a, b) => (Number.isNaN(a.time) ? 1 : 0) - (Number.isNaN(b.time) ? 1 : 0) || (a.time - b.time) || a.index - b.index)
+        .map(e => e.event);
+
+// An edge from each item's source to its target; a list of targets gives one edge per target.
+export const networkGraph = ({ source = 'source', target = 'target' }: WidgetFields, items: WidgetItem[]): NetworkGraph => {
+    const nodes: string[] = [];
+    const nodeIndex = (name: string) => {
+        const found = nodes.indexOf(name);
+        return found >= 0 ? found : nodes.push(name) - 1;
+    };
+    const edges: [number, number][] = [];
+    for (const item of items) {
+        const from = text(valueAtPath(item, source));
+        const to = valueAtPath(item, target);
+        if (!from) continue;
+        for (const name of (Array.isArray(to) ? to : [to]).map(text).filter(Boolean)) edges.push([nodeIndex(from), nodeIndex(name)]);
+    }
+    return { nodes, edges };
+};
+
+// Without configured columns, every top-level field of the items, in the order they first appear.
+export const widgetTable = ({ columns }: WidgetFields, items: WidgetItem[]): WidgetTable => {
+    const names = columns?.length ? columns : Array.from(new Set(items.flatMap(item => Object.keys(item))));
+    return { columns: names, rows: items.map(item => names.map(name => text(valueAtPath(item, name)))) };
+};
+
+// The configured fields, or all of them. Nested fields become dotted keys; lists of objects are left to table
+// and chart widgets.
+export const keyValuePairs = ({ columns }: WidgetFields, data: unknown): [string, string][] => {
+    const cells = new Map<string, TableCell>();
+    if (columns?.length) {
+        for (const column of columns) flattenInto(valueAtPath(data, column), column, cells);
+    } else if (isPlainObject(data)) {
+        for (const [key, value] of Object.entries(data)) {
+            if (!(Array.isArray(value) && value.some(isPlainObject))) flattenInto(value, key, cells);
+        }
+    } else {
+        flattenInto(data, 'value', cells);
+    }
+    return Array.from(cells, ([key, value]) => [key, text(value)]);
+};
+
+// The agent a widget reads, when it finished with structured output.
+export const widgetSource = (widget: DashboardWidget, agents: Agent[]): Agent | null => {
+    const agent = agents.find(a => a.id === widget.agentId);
+    return agent?.status === AgentStatus.Success && agent.outputJson !== null && agent.outputJson !== undefined ? agent : null;
+};
+
+const DATE_FIELD = /date|time|when|year|deadline/i;
+const SOURCE_FIELDS = ['source', 'from', 'subject'];
+const TARGET_FIELDS = ['target', 'to', 'object'];
+
+// Widgets for the shape of an agent's output schema. The automatic dashboard uses these, and they are the
+// starting point when the layout is customized. Agents without a schema get none.
+export const suggestWidgets = (agent: Agent): DashboardWidget[] => {
+    const widgets: DashboardWidget[] = [];
+    const add = (type: WidgetType, path: string, fields: WidgetFields, title = path ? `${agent.name} · ${path}` : agent.name) =>
+        widgets.push({ id: `${agent.id}:${type}:${path}:${widgets.length}`, type, title, agentId: agent.id, path, fields });
+
+    const visitArray = (items: JsonSchema, path: string) => {
+        const properties = Object.entries(items.properties ?? {});
+        if (items.type !== 'object' || properties.length === 0) return;
+        const strings = properties.filter(([, p]) => p.type === 'string').map(([name]) => name);
+        const date = strings.find(name => DATE_FIELD.test(name));
+        const source = SOURCE_FIELDS.find(name => items.properties![name]);
+        const target = TARGET_FIELDS.find(name => items.properties![name]);
+        const others = strings.filter(name => name !== date);
+        if (date) add('timeline', path, { date, label: others[0], detail: others[1] });
+        else if (source && target) add('network', path, { source, target });
+        else add('table', path, {});
+        const category = properties.find(([, p]) => p.type === 'string' && p.enum)?.[0];
+        if (category) add('bar', path, { label: category }, `${agent.name} · ${path ? `${path} · ` : ''}${category}`);
+    };
+
+    const visit = (schema: JsonSchema, path: string) => {
+        if (schema.type === 'array' && schema.items) visitArray(schema.items, path);
+        if (schema.type !== 'object' || !schema.properties) return;
+        const properties = Object.entries(schema.properties);
+        if (properties.length > 1 && properties.every(([, p]) => p.type === 'number' || p.type === 'integer')) {
+            add('pie', path, { label: 'key', value: 'value' });
+            return;
+        }
+        const scalars = properties.filter(([, p]) => p.type !== 'object' && p.items?.type !== 'object').map(([name]) => name);
+        if (path === '' && scalars.length > 0) add('keyValue', path, { columns: scalars });
+        for (const [name, property] of properties) {
+            if (property.type === 'object' || property.type === 'array') visit(property, path ? `${path}.${name}` : name);
+        }
+    };
+
+    if (agent.outputSchema) visit(agent.outputSchema, '');
+    return widgets;
+};
+
+// The schema of the items at `path`, looking through arrays the way valueAtPath does.
+export const schemaAtPath = (schema: JsonSchema | undefined, path: string): JsonSchema | undefined => {
+    const unwrap = (s: JsonSchema | undefined): JsonSchema | undefined => s?.type === 'array' ? unwrap(s.items) : s;
+    return path ? path.split('.').reduce<JsonSchema | undefined>((s, key) => unwrap(unwrap(s)?.properties?.[key]), schema) : unwrap(schema);
+};
+
+// Every field path below a schema, to offer as widget paths and fields.
+export const schemaPaths = (schema: JsonSchema | undefined, prefix = ''): string[] =>
+    Object.entries(schemaAtPath(schema, '')?.properties ?? {}).flatMap(([name, property]) => {
+        const path = prefix ? `${prefix}.${name}` : name;
+        return [path, ...schemaPaths(property, path)];
+    });
@@ -0,0 +1,58 @@
+const DB_NAME = 'cogniflow';
+const DB_VERSION = 5;
+
+// Every object store the app uses. Adding a store means adding it here and bumping DB_VERSION.
+const STORES: { name: string; keyPath: string; indexes?: string[] }[] = [
+    { name: 'runs', keyPath: 'id', indexes: ['documentHash', 'createdAt'] },
+    { name: 'secrets', keyPath: 'id' },
+    { name: 'ocrPages', keyPath: 'id', indexes: ['fileHash'] },
+    { name: 'embeddings', keyPath: 'id', indexes: ['contentHash'] },
+    { name: 'evalDatasets', keyPath: 'id' },
+    { name: 'evalRuns', keyPath: 'id', indexes: ['datasetId'] },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const store of STORES) {
+                    if (db.objectStoreNames.contains(store.name)) continue;
+                    const objectStore = db.createObjectStore(store.name, { keyPath: store.keyPath });
+                    store.indexes?.forEach(index => objectStore.createIndex(index, index));
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return promisify(fn(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+export const putRecord = <T>(storeName: string, record: T): Promise<IDBValidKey> =>
+    withStore(storeName, 'readwrite', store => store.put(record));
+
+export const getRecord = <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> =>
+    withStore(storeName, 'readonly', store => store.get(key));
+
+export const getAllRecords = <T>(storeName: string, index?: string, query?: IDBValidKey): Promise<T[]> =>
+    withStore(storeName, 'readonly', store => (index ? store.index(index) : store).getAll(query));
+
+export const deleteRecord = (storeName: string, key: IDBValidKey): Promise<undefined> =>
+    withStore(storeName, 'readwrite', store => store.delete(key));
@@ -0,0 +1,24 @@
+import { EvalDataset, EvalRun } from '../types';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+
+const DATASETS = 'evalDatasets';
+const RUNS = 'evalRuns';
+
+export const saveDataset = (dataset: EvalDataset) => putRecord(DATASETS, dataset);
+
+export const listDatasets = async (): Promise<EvalDataset[]> =>
+    (await getAllRecords<EvalDataset>(DATASETS)).sort((a, b) => a.name.localeCompare(b.name));
+
+// Its runs go with it.
+export const deleteDataset = async (id: string) => {
+    await Promise.all((await listEvalRuns(id)).map(run => deleteRecord(RUNS, run.id)));
+    await deleteRecord(DATASETS, id);
+};
+
+export const saveEvalRun = (run: EvalRun) => putRecord(RUNS, run);
+
+// Newest first.
+export const listEvalRuns = async (datasetId: string): Promise<EvalRun[]> =>
+    (await getAllRecords<EvalRun>(RUNS, 'datasetId', datasetId)).sort((a, b) => b.createdAt - a.createdAt);
+
+export const deleteEvalRun = (id: string) => deleteRecord(RUNS, id);
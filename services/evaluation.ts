@@ -0,0 +1,261 @@
+import { Agent, AgentStatus, EvalCase, EvalCaseResult, EvalDataset, EvalMetric, EvalRun, JsonSchema, RunPolicy } from '../types';
+import { estimateWorkflowCost, runCost, totalEstimate, usageCost } from './costEstimation';
+import { valueAtPath } from './dashboardWidgets';
+import { judgeOutput, JUDGE_MODEL } from './geminiService';
+import { flattenInto, TableCell } from './resultsTable';
+import { validateAgainstSchema } from './schemaValidation';
+import { executeWorkflow, getAgentInputs } from './workflowService';
+import { toAgentConfig } from './workflowTemplates';
+
+export const EVAL_METRICS: EvalMetric[] = ['exactMatch', 'setF1', 'jsonFields', 'llmJudge'];
+
+const FILE_FORMAT = 'cogniflow-eval-dataset';
+const FILE_FORMAT_VERSION = 1;
+
+export class DatasetImportError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`The file is not a valid evaluation dataset (${issues.length} problem${issues.length === 1 ? '' : 's'}).`);
+        this.name = 'DatasetImportError';
+    }
+}
+
+interface CaseScore {
+    score: number;
+    detail: string;
+    // Spent on grading, for the LLM judge.
+    cost: number;
+}
+
+// Listed missing or extra values stop here.
+const DETAIL_VALUES = 5;
+
+const parseLoose = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+};
+
+const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])]));
+    return value;
+};
+
+// Case, spacing and key order do not count.
+const canonical = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'string' ? value : JSON.stringify(sortKeys(value));
+    return text.trim().toLowerCase().replace(/\s+/g, ' ');
+};
+
+// A list as JSON, or as text with one value per line (Markdown bullets allowed).
+const listAt = (value: unknown, path: string): string[] => {
+    const data = valueAtPath(value, path);
+    const items = Array.isArray(data) ? data
+        : typeof data === 'string' ? data.split('\n').map(line => line.replace(/^\s*[-*•]\s+/, ''))
+        : [data];
+    return items.map(canonical).filter(Boolean);
+};
+
+const ratio = (n: number) => n.toFixed(2);
+
+const exactMatch = (actual: unknown, expected: unknown, path: string): CaseScore => {
+    const found = canonical(valueAtPath(actual, path));
+    const wanted = canonical(valueAtPath(expected, path) ?? expected);
+    return { score: found === wanted ? 1 : 0, detail: found === wanted ? '' : found.slice(0, 80), cost: 0 };
+};
+
+// The expected values may have the structure of the output or be given as they are, without it.
+const setF1 = (actual: unknown, expected: unknown, path: string): CaseScore => {
+    const found = new Set(listAt(actual, path));
+    const expectedAtPath = listAt(expected, path);
+    const wanted = new Set(expectedAtPath.length > 0 ? expectedAtPath : listAt(expected, ''));
+    if (found.size === 0 && wanted.size === 0) return { score: 1, detail: '', cost: 0 };
+    const hits = Array.from(found).filter(v => wanted.has(v)).length;
+    const precision = found.size ? hits / found.size : 0;
+    const recall = wanted.size ? hits / wanted.size : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    const missing = Array.from(wanted).filter(v => !found.has(v));
+    const extra = Array.from(found).filter(v => !wanted.has(v));
+    const detail = [
+        `P ${ratio(precision)} · R ${ratio(recall)}`,
+        ...(missing.length ? [`− ${missing.slice(0, DETAIL_VALUES).join(', ')}${missing.length > DETAIL_VALUES ? ', …' : ''}`] : []),
+        ...(extra.length ? [`+ ${extra.slice(0, DETAIL_VALUES).join(', ')}${extra.length > DETAIL_VALUES ? ', …' : ''}`] : []),
+    ].join(' · ');
+    return { score: f1, detail, cost: 0 };
+};
+
+const jsonFields = (actual: unknown, expected: unknown, fields: string[]): CaseScore => {
+    const cells = new Map<string, TableCell>();
+    if (fields.length === 0) flattenInto(expected, '', cells);
+    const paths = fields.length > 0 ? fields : Array.from(cells.keys());
+    if (paths.length === 0) return { score: 0, detail: '', cost: 0 };
+    const wrong = paths.filter(path => canonical(valueAtPath(actual, path)) !== canonical(valueAtPath(expected, path)));
+    return {
+        score: (paths.length - wrong.length) / paths.length,
+        detail: `${paths.length - wrong.length}/${paths.length}${wrong.length ? ` · ≠ ${wrong.slice(0, DETAIL_VALUES).join(', ')}` : ''}`,
+        cost: 0,
+    };
+};
+
+// Structured output is compared as parsed; text output as JSON when it is JSON, else as text.
+export const scoreOutput = async (dataset: EvalDataset, evalCase: EvalCase, agent: Agent): Promise<CaseScore> => {
+    const actual = agent.outputJson ?? parseLoose(agent.output ?? '');
+    const expected = parseLoose(evalCase.expected);
+    switch (dataset.metric) {
+        case 'exactMatch': return exactMatch(actual, expected, dataset.path ?? '');
+        case 'setF1': return setF1(actual, expected, dataset.path ?? '');
+        case 'jsonFields': return jsonFields(actual, expected, dataset.fields ?? []);
+        case 'llmJudge': {
+            const { score, reasoning, usage } = await judgeOutput(dataset.rubric ?? '', evalCase.expected, agent.output ?? '');
+            return { score: (score - 1) / 4, detail: `${score}/5 · ${reasoning}`, cost: usage ? usageCost(JUDGE_MODEL, usage) : 0 };
+        }
+    }
+};
+
+interface EvaluationOptions {
+    policy: RunPolicy;
+    onResult: (result: EvalCaseResult) => void;
+    signal?: AbortSignal;
+}
+
+// The agent runs alone in an evaluation: inputs from other agents stay empty.
+const standalone = (agent: Agent): Agent => ({
+    ...agent,
+    inputs: { ...getAgentInputs(agent), upstream: [] },
+    status: AgentStatus.Pending, output: null, error: null, outputJson: null, chunks: undefined, usage: undefined, embeddedCharacters: undefined, sources: undefined,
+});
+
+// The agent's calls over every case; grading by the LLM judge comes on top.
+export const estimateEvaluationCost = async (agent: Agent, dataset: EvalDataset): Promise<number> => {
+    let cost = 0;
+    for (const evalCase of dataset.cases) {
+        cost += totalEstimate((await estimateWorkflowCost([standalone(agent)], evalCase.content)).values()).cost;
+    }
+    return cost;
+};
+
+// Runs the agent on every case, one after another, and scores each output. Returns null when stopped, since
+// a partial run cannot be compared with a baseline.
+export const runEvaluation = async (agent: Agent, dataset: EvalDataset, { policy, onResult, signal }: EvaluationOptions): Promise<EvalRun | null> => {
+    const createdAt = Date.now();
+    const evaluated = standalone(agent);
+    const results: EvalCaseResult[] = [];
+    for (const evalCase of dataset.cases) {
+        if (signal?.aborted) return null;
+        const [result] = await executeWorkflow([evaluated], evalCase.content, { policy, onAgentUpdate: () => {}, signal });
+        if (signal?.aborted) return null;
+        let scored: CaseScore;
+        if (result.status !== AgentStatus.Success) {
+            scored = { score: 0, detail: result.error ?? result.status, cost: 0 };
+        } else {
+            try {
+                scored = await scoreOutput(dataset, evalCase, result);
+            } catch (error) {
+                scored = { score: 0, detail: error instanceof Error ? error.message : String(error), cost: 0 };
+            }
+        }
+        const caseResult: EvalCaseResult = {
+            caseId: evalCase.id, caseName: evalCase.name, output: result.output, score: scored.score, detail: scored.detail, cost: runCost([result]) + scored.cost,
+        };
+        results.push(caseResult);
+        onResult(caseResult);
+    }
+    return {
+        id: `eval-${createdAt}`,
+        datasetId: dataset.id,
+        createdAt,
+        agent: toAgentConfig(agent),
+        metric: dataset.metric,
+        score: results.length ? results.reduce((sum, r) => sum + r.score, 0) / results.length : 0,
+        results,
+        cost: results.reduce((sum, r) => sum + r.cost, 0),
+    };
+};
+
+// The dataset's chosen baseline, or else the latest run before `run`. `runs` are newest first.
+export const baselineFor = (run: EvalRun, runs: EvalRun[], dataset: EvalDataset): EvalRun | null => {
+    const chosen = runs.find(r => r.id === dataset.baselineRunId);
+    if (chosen && chosen.id !== run.id) return chosen;
+    return runs.find(r => r.createdAt < run.createdAt) ?? null;
+};
+
+// Score changes smaller than this count as unchanged.
+const SCORE_TOLERANCE = 1e-6;
+
+export interface EvalComparison {
+    delta: number;
+    // Per case present in both runs.
+    caseDeltas: Map<string, number>;
+    improved: number;
+    regressed: number;
+}
+
+export const compareRuns = (run: EvalRun, baseline: EvalRun): EvalComparison => {
+    const before = new Map(baseline.results.map(r => [r.caseId, r.score]));
+    const caseDeltas = new Map<string, number>();
+    for (const result of run.results) {
+        const previous = before.get(result.caseId);
+        if (previous !== undefined) caseDeltas.set(result.caseId, result.score - previous);
+    }
+    const deltas = Array.from(caseDeltas.values());
+    return {
+        delta: run.score - baseline.score,
+        caseDeltas,
+        improved: deltas.filter(d => d > SCORE_TOLERANCE).length,
+        regressed: deltas.filter(d => d < -SCORE_TOLERANCE).length,
+    };
+};
+
+const DATASET_FILE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        format: { type: 'string', enum: [FILE_FORMAT] },
+        formatVersion: { type: 'integer', minimum: 1, maximum: FILE_FORMAT_VERSION },
+        dataset: {
+            type: 'object',
+            properties: {
+                name: { type: 'string' },
+                metric: { type: 'string', enum: EVAL_METRICS },
+                path: { type: 'string' },
+                fields: { type: 'array', items: { type: 'string' } },
+                rubric: { type: 'string' },
+                cases: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: { name: { type: 'string' }, content: { type: 'string' }, expected: { type: 'string' } },
+                        required: ['name', 'content', 'expected'],
+                    },
+                },
+            },
+            required: ['name', 'metric', 'cases'],
+        },
+    },
+    required: ['format', 'formatVersion', 'dataset'],
+};
+
+// Runs and the baseline stay behind: they belong to this browser's history.
+export const serializeDataset = ({ name, metric, path, fields, rubric, cases }: EvalDataset): string => JSON.stringify({
+    format: FILE_FORMAT,
+    formatVersion: FILE_FORMAT_VERSION,
+    dataset: { name, metric, path, fields, rubric, cases: cases.map(({ name, content, expected }) => ({ name, content, expected })) },
+}, null, 2);
+
+// The imported dataset and its cases get fresh ids, so importing twice gives two datasets.
+export const parseDatasetFile = (text: string): EvalDataset => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new DatasetImportError([`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+    const issues = validateAgainstSchema(data, DATASET_FILE_SCHEMA);
+    if (issues.length > 0) throw new DatasetImportError(issues);
+
+    const { dataset } = data as { dataset: Omit<EvalDataset, 'id' | 'updatedAt' | 'cases'> & { cases: Omit<EvalCase, 'id'>[] } };
+    const now = Date.now();
+    return { ...dataset, id: `dataset-${now}`, updatedAt: now, cases: dataset.cases.map((c, i) => ({ ...c, id: `case-${now}-${i}` })) };
+};
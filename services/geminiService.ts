@@ -1,45 +1,107 @@
+import { Agent, ChatMessage, LayoutBlock, OcrOutputFormat, TokenUsage } from "../types";
+import { EmbedResult, EmbeddingTask, GenerateRequest, GenerateResult, getModelProvider, MissingApiKeyError, ModelRequestError } from "./modelProvider";
+import { blocksToText, LAYOUT_SCHEMA, parseLayoutBlocks } from "./layoutBlocks";
+import { citedOutputSchema } from "./citations";
+import { RedactionError } from "./redaction";
 
-import { GoogleGenAI } from "@google/genai";
-import { Agent } from "./types";
+// Prompts and response handling live here; the calls go through whichever ModelProvider is active
+// (Gemini, or the offline mock/replay provider).
 
-// FIX: Per @google/genai guidelines, initialize the SDK using the API_KEY from environment variables.
-// Assume process.env.API_KEY is pre-configured and available.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+export const OCR_MODEL = 'gemini-2.5-flash';
+// Follow-up questions, chat and synonym suggestions.
+export const ASSISTANT_MODEL = 'gemini-2.5-flash';
+export const EMBEDDING_MODEL = 'gemini-embedding-001';
+// A quarter of the model's default size: search quality barely changes and stored indexes stay small.
+const EMBEDDING_DIMENSIONS = 768;
+// The embedding endpoint takes at most this many texts per request.
+const EMBEDDING_BATCH_SIZE = 100;
 
-export const performOcr = async (imageDataBase64: string): Promise<string> => {
-    const imagePart = { inlineData: { mimeType: 'image/jpeg', data: imageDataBase64 } };
-    const textPart = { text: "Perform OCR on this image. Extract all text accurately, preserving layout as much as possible." };
+const OCR_PROMPTS: Record<OcrOutputFormat, string> = {
+    text: "Perform OCR on this image. Extract all text accurately, preserving layout as much as possible.",
+    layout: "Perform OCR on this image and return its content as blocks in reading order: headings (with their level), paragraphs, lists and tables. Transcribe text exactly. For tables, give every row as a list of cell texts, header row first, keeping empty cells as empty strings. Skip page numbers and running headers or footers.",
+};
 
+// In 'layout' format, `blocks` holds the structured page and `text` a plain-text rendering of it.
+export const performOcr = async (
+    imageDataBase64: string, format: OcrOutputFormat = 'text', signal?: AbortSignal,
+): Promise<GenerateResult & { blocks?: LayoutBlock[] }> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [imagePart, textPart] },
+        const result = await getModelProvider().ocr({
+            model: OCR_MODEL,
+            imageBase64: imageDataBase64,
+            mimeType: 'image/jpeg',
+            prompt: OCR_PROMPTS[format],
+            responseJsonSchema: format === 'layout' ? LAYOUT_SCHEMA : undefined,
+            signal,
         });
-        return response.text;
+        if (format === 'text') return result;
+        const blocks = parseLayoutBlocks(result.text);
+        return { text: blocksToText(blocks), usage: result.usage, blocks };
     } catch (error) {
-        console.error("Gemini OCR Error:", error);
-        throw new Error("Failed to perform OCR with Gemini API.");
+        if (error instanceof RedactionError) throw error;
+        console.error("OCR Error:", error);
+        throw new Error("Failed to perform OCR.");
     }
 };
 
-export const runAgent = async (agent: Agent, documentContent: string): Promise<string> => {
-    const fullPrompt = `DOCUMENT CONTENT:\n---\n${documentContent}\n---\n\nTASK:\n${agent.prompt}`;
-    
+const agentRequest = (agent: Agent, fullPrompt: string, signal?: AbortSignal): GenerateRequest => {
+    const isJson = Boolean(agent.outputSchema || agent.outputMode === 'json');
+    // A structured agent that cites its sources answers { result, sources } around its own schema.
+    const schema = isJson && agent.citeSources ? citedOutputSchema(agent.outputSchema ?? {}) : agent.outputSchema;
+    return {
+        model: agent.model,
+        contents: fullPrompt,
+        signal,
+        systemInstruction: agent.systemInstruction,
+        generation: agent.generation,
+        ...(isJson && { responseMimeType: 'application/json' as const }),
+        ...(schema && { responseJsonSchema: schema }),
+    };
+};
+
+const toAgentError = (agent: Agent, error: unknown, signal?: AbortSignal): unknown => {
+    if (signal?.aborted) return signal.reason;
+    if (error instanceof MissingApiKeyError || error instanceof RedactionError) return error;
+    console.error("Agent Error:", error);
+    return new ModelRequestError(`Agent "${agent.name}" failed to execute.`, error instanceof ModelRequestError ? error.status : null);
+};
+
+export const runAgent = async (agent: Agent, fullPrompt: string, signal?: AbortSignal): Promise<GenerateResult> => {
     try {
-        const response = await ai.models.generateContent({
-            model: agent.model,
-            contents: fullPrompt,
-        });
-        return response.text;
+        return await getModelProvider().generate(agentRequest(agent, fullPrompt, signal));
     } catch (error) {
-        console.error("Gemini Agent Error:", error);
-        throw new Error(`Agent "${agent.name}" failed to execute.`);
+        throw toAgentError(agent, error, signal);
+    }
+};
+
+// Same as runAgent, but reports the accumulated text after every streamed chunk.
+export const streamAgent = async (agent: Agent, fullPrompt: string, onText: (textSoFar: string) => void, signal?: AbortSignal): Promise<GenerateResult> => {
+    try {
+        return await getModelProvider().stream(agentRequest(agent, fullPrompt, signal), onText);
+    } catch (error) {
+        throw toAgentError(agent, error, signal);
+    }
+};
+
+// Embeds `texts` in batches, one request after another; the vectors come back in the order of `texts`.
+export const embedTexts = async (texts: string[], task: EmbeddingTask, signal?: AbortSignal): Promise<EmbedResult> => {
+    const vectors: number[][] = [];
+    let characters = 0;
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const result = await getModelProvider().embed({
+            model: EMBEDDING_MODEL, texts: texts.slice(i, i + EMBEDDING_BATCH_SIZE), task, dimensions: EMBEDDING_DIMENSIONS, signal,
+        });
+        vectors.push(...result.vectors);
+        characters += result.characters;
     }
+    return { vectors, characters };
 };
 
+// Input tokens the agent's request would use, system instruction included, without running it.
+export const countAgentTokens = (agent: Agent, fullPrompt: string): Promise<number> =>
+    getModelProvider().countTokens(agent.model, agent.systemInstruction ? `${agent.systemInstruction}\n\n${fullPrompt}` : fullPrompt);
 
-export const generateFollowUpQuestions = async (documentContent: string, agentOutputs: string): Promise<string> => {
-    const prompt = `Based on the original document and the analysis performed by various AI agents, generate 3 insightful follow-up questions a user might have. The original document is provided below, followed by the outputs from the agents.
+const followUpPrompt = (documentContent: string, agentOutputs: string) => `Based on the original document and the analysis performed by various AI agents, generate 3 insightful follow-up questions a user might have. The original document is provided below, followed by the outputs from the agents.
 
 <Original_Document>
 ${documentContent}
@@ -50,15 +112,151 @@ ${agentOutputs}
 </Agent_Outputs>
 
 Please provide only the 3 questions, each on a new line, prefixed with a hyphen.`;
-    
+
+// The follow-up prompt without the agent outputs, which do not exist before the run.
+export const countFollowUpTokens = (documentContent: string): Promise<number> =>
+    getModelProvider().countTokens(ASSISTANT_MODEL, followUpPrompt(documentContent, ''));
+
+export const generateFollowUpQuestions = async (documentContent: string, agentOutputs: string): Promise<GenerateResult> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
+        return await getModelProvider().generate({
+            model: ASSISTANT_MODEL,
+            contents: followUpPrompt(documentContent, agentOutputs),
         });
-        return response.text;
     } catch (error) {
-        console.error("Gemini Follow-up Error:", error);
+        console.error("Follow-up Error:", error);
         throw new Error("Failed to generate follow-up questions.");
     }
 };
+
+// How much of the document the synonym suggestions see, to pick up its domain and wording.
+const SYNONYM_CONTEXT_LENGTH = 4000;
+
+// Other words and spellings the document might use for `term`: synonyms, abbreviations, inflections.
+export const suggestSynonyms = async (term: string, documentContent: string): Promise<{ synonyms: string[]; usage: TokenUsage | null }> => {
+    const prompt = `List up to 8 words or short phrases that a document like the one excerpted below might use instead of "${term}": synonyms, abbreviations, alternative spellings and common inflections. Leave out "${term}" itself.
+
+<Document_Excerpt>
+${documentContent.slice(0, SYNONYM_CONTEXT_LENGTH)}
+</Document_Excerpt>`;
+
+    try {
+        const response = await getModelProvider().generate({
+            model: ASSISTANT_MODEL,
+            contents: prompt,
+            responseMimeType: 'application/json',
+            responseJsonSchema: { type: 'array', items: { type: 'string' } },
+        });
+        const parsed = JSON.parse(response.text ?? '');
+        const seen = new Set([term.trim().toLowerCase()]);
+        const synonyms = (Array.isArray(parsed) ? parsed : [])
+            .filter((s: unknown): s is string => typeof s === 'string')
+            .map(s => s.trim())
+            .filter(s => s && !seen.has(s.toLowerCase()) && seen.add(s.toLowerCase()));
+        return { synonyms, usage: response.usage };
+    } catch (error) {
+        console.error("Synonym Error:", error);
+        throw new Error("Failed to suggest synonyms.");
+    }
+};
+
+const CHAT_ANSWER_SCHEMA = {
+    type: 'object',
+    properties: {
+        answer: { type: 'string' },
+        citations: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    page: { type: ['integer', 'null'] },
+                    quote: { type: 'string' },
+                },
+                required: ['quote'],
+            },
+        },
+    },
+    required: ['answer', 'citations'],
+};
+
+export const askDocument = async (
+    documentContent: string, agentOutputs: string, history: ChatMessage[], question: string,
+): Promise<{ answer: string; citations: { page: number | null; quote: string }[]; usage: TokenUsage | null }> => {
+    const systemInstruction = `You answer questions about the document below, using it and the analysis produced by AI agents. Answer only from this material; say so when it does not contain the answer. For every statement, cite the passage it relies on: copy a short verbatim quote from the document and give its page number when the document has "--- Page N ---" markers.
+
+<Original_Document>
+${documentContent}
+</Original_Document>
+
+<Agent_Outputs>
+${agentOutputs}
+</Agent_Outputs>`;
+
+    try {
+        const response = await getModelProvider().generate({
+            model: ASSISTANT_MODEL,
+            contents: [...history.map(({ role, text }) => ({ role, text })), { role: 'user', text: question }],
+            systemInstruction,
+            responseMimeType: 'application/json',
+            responseJsonSchema: CHAT_ANSWER_SCHEMA,
+        });
+        const parsed = JSON.parse(response.text ?? '');
+        return {
+            answer: String(parsed.answer ?? ''),
+            citations: Array.isArray(parsed.citations)
+                ? parsed.citations.filter((c: any) => typeof c?.quote === 'string').map((c: any) => ({ page: typeof c.page === 'number' ? c.page : null, quote: c.quote }))
+                : [],
+            usage: response.usage,
+        };
+    } catch (error) {
+        console.error("Chat Error:", error);
+        throw new Error("Failed to answer the question.");
+    }
+};
+
+export const JUDGE_MODEL = 'gemini-2.5-flash';
+
+const JUDGE_SCHEMA = {
+    type: 'object',
+    properties: {
+        score: { type: 'integer', minimum: 1, maximum: 5 },
+        reasoning: { type: 'string' },
+    },
+    required: ['score', 'reasoning'],
+};
+
+// Grades an agent's output against the expected one on a 1–5 scale, following the rubric.
+export const judgeOutput = async (
+    rubric: string, expected: string, output: string,
+): Promise<{ score: number; reasoning: string; usage: TokenUsage | null }> => {
+    const prompt = `You grade the output of an AI agent against a reference answer.
+
+<Rubric>
+${rubric || 'Judge whether the output is correct and complete compared with the reference answer.'}
+</Rubric>
+
+<Reference_Answer>
+${expected}
+</Reference_Answer>
+
+<Agent_Output>
+${output}
+</Agent_Output>
+
+Give a score from 1 (wrong or useless) to 5 (fully meets the rubric) and a one-sentence reasoning.`;
+
+    try {
+        const response = await getModelProvider().generate({
+            model: JUDGE_MODEL,
+            contents: prompt,
+            responseMimeType: 'application/json',
+            responseJsonSchema: JUDGE_SCHEMA,
+        });
+        const parsed = JSON.parse(response.text ?? '');
+        const score = Math.min(5, Math.max(1, Math.round(Number(parsed.score) || 1)));
+        return { score, reasoning: String(parsed.reasoning ?? ''), usage: response.usage };
+    } catch (error) {
+        console.error("Judge Error:", error);
+        throw new Error("Failed to grade the output.");
+    }
+};
@@ -0,0 +1,6 @@
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashBytes = async (data: BufferSource): Promise<string> => toHex(await crypto.subtle.digest('SHA-256', data));
+
+export const hashText = (text: string): Promise<string> => hashBytes(new TextEncoder().encode(text));
@@ -0,0 +1,99 @@
+import { Keyword } from '../types';
+
+export interface KeywordMatch {
+    start: number;
+    end: number;
+    keywordId: string;
+}
+
+export interface KeywordMatches {
+    // Sorted and non-overlapping, ready to render.
+    matches: KeywordMatch[];
+    byKeyword: Map<string, KeywordMatch[]>;
+    // Keywords that stopped at MAX_MATCHES_PER_KEYWORD, e.g. a regex like `\w+`.
+    limited: Set<string>;
+}
+
+// Each highlight is a DOM element; past this a keyword adds more cost than information.
+export const MAX_MATCHES_PER_KEYWORD = 5000;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Extracted text breaks lines and doubles spaces anywhere, so a space in a phrase matches any run of whitespace.
+export const phraseSource = (phrase: string): string => escapeRegExp(phrase.trim()).replace(/\s+/g, '\\s+');
+
+// Letters and digits of every script count as word characters, so whole words also work beyond ASCII.
+export const WORD_START = '(?<![\\p{L}\\p{N}_])';
+export const WORD_END = '(?![\\p{L}\\p{N}_])';
+
+// Synonyms are always phrases, also for a regex keyword. Throws a SyntaxError for an invalid regex.
+export const keywordRegExp = (keyword: Keyword): RegExp => {
+    const synonyms = (keyword.synonyms ?? []).filter(s => s.trim()).map(phraseSource);
+    const main = keyword.mode === 'regex' ? keyword.text : phraseSource(keyword.text);
+    const source = [main, ...synonyms].filter(Boolean).map(s => `(?:${s})`).join('|');
+    if (keyword.mode === 'word') return new RegExp(`${WORD_START}(?:${source})${WORD_END}`, keyword.caseSensitive ? 'gu' : 'giu');
+    return new RegExp(source, keyword.caseSensitive ? 'g' : 'gi');
+};
+
+// The reason a keyword cannot be matched, or null when it is fine.
+export const keywordError = (keyword: Keyword): string | null => {
+    try {
+        keywordRegExp(keyword);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+};
+
+// One pass per keyword over the text. Where matches overlap, the one that starts first wins, then the keyword
+// higher in the list, then the longer match. Invalid keywords and empty matches are skipped.
+export const findKeywordMatches = (text: string, keywords: Keyword[]): KeywordMatches => {
+    const found: (KeywordMatch & { order: number })[] = [];
+    const limited = new Set<string>();
+    keywords.forEach((keyword, order) => {
+        if (!keyword.text.trim() && !keyword.synonyms?.length) return;
+        let regex: RegExp;
+        try {
+            regex = keywordRegExp(keyword);
+        } catch {
+            return;
+        }
+        let count = 0;
+        for (let m = regex.exec(text); m; m = regex.exec(text)) {
+            if (m[0].length === 0) {
+                regex.lastIndex++;
+                continue;
+            }
+            if (++count > MAX_MATCHES_PER_KEYWORD) {
+                limited.add(keyword.id);
+                break;
+            }
+            found.push({ start: m.index, end: m.index + m[0].length, keywordId: keyword.id, order });
+        }
+    });
+    found.sort((a, b) => a.start - b.start || a.order - b.order || b.end - a.end);
+
+    const matches: KeywordMatch[] = [];
+    const byKeyword = new Map<string, KeywordMatch[]>(keywords.map(k => [k.id, []]));
+    let lastEnd = 0;
+    for (const { start, end, keywordId } of found) {
+        if (start < lastEnd) continue;
+        const match = { start, end, keywordId };
+        matches.push(match);
+        byKeyword.get(keywordId)!.push(match);
+        lastEnd = end;
+    }
+    return { matches, byKeyword, limited };
+};
+
+// Index of the first match that ends after `offset`, by binary search over the sorted matches.
+export const firstMatchAfter = (matches: KeywordMatch[], offset: number): number => {
+    let low = 0;
+    let high = matches.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (matches[mid].end <= offset) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+};
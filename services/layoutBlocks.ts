@@ -0,0 +1,76 @@
+import { JsonSchema, LayoutBlock } from '../types';
+import { parseStructuredOutput } from './schemaValidation';
+
+// Flat on purpose: every block has `type`, and only the fields its type needs are filled in.
+export const LAYOUT_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        blocks: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    type: { type: 'string', enum: ['heading', 'paragraph', 'list', 'table'] },
+                    level: { type: 'integer', minimum: 1, maximum: 6, description: 'Heading level, for headings only.' },
+                    text: { type: 'string', description: 'Text of a heading or paragraph.' },
+                    ordered: { type: 'boolean', description: 'Whether a list is numbered.' },
+                    items: { type: 'array', items: { type: 'string' }, description: 'List items, for lists only.' },
+                    rows: {
+                        type: 'array',
+                        items: { type: 'array', items: { type: 'string' } },
+                        description: 'Table cells row by row, header row first, for tables only.',
+                    },
+                },
+                required: ['type'],
+            },
+        },
+    },
+    required: ['blocks'],
+};
+
+// Throws SchemaValidationError when the response does not follow LAYOUT_SCHEMA; blocks missing their
+// content fields are dropped rather than failing the page.
+export const parseLayoutBlocks = (output: string): LayoutBlock[] => {
+    const { blocks } = parseStructuredOutput(output, LAYOUT_SCHEMA) as { blocks: any[] };
+    return blocks.flatMap((b): LayoutBlock[] => {
+        switch (b.type) {
+            case 'heading': return b.text ? [{ type: 'heading', level: b.level ?? 2, text: b.text }] : [];
+            case 'paragraph': return b.text ? [{ type: 'paragraph', text: b.text }] : [];
+            case 'list': return b.items?.length ? [{ type: 'list', ordered: Boolean(b.ordered), items: b.items }] : [];
+            case 'table': return b.rows?.length ? [{ type: 'table', rows: b.rows }] : [];
+            default: return [];
+        }
+    });
+};
+
+const markdownCell = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const tableToMarkdown = (rows: string[][]): string => {
+    const width = Math.max(...rows.map(r => r.length));
+    const pad = (row: string[]) => Array.from({ length: width }, (_, i) => markdownCell(row[i] ?? ''));
+    const [header, ...body] = rows;
+    return [pad(header), Array(width).fill('---'), ...body.map(pad)].map(cells => `| ${cells.join(' | ')} |`).join('\n');
+};
+
+export const blocksToMarkdown = (blocks: LayoutBlock[]): string => blocks.map(block => {
+    switch (block.type) {
+        case 'heading': return `${'#'.repeat(Math.min(Math.max(block.level, 1), 6))} ${block.text}`;
+        case 'paragraph': return block.text;
+        case 'list': return block.items.map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${item}`).join('\n');
+        case 'table': return tableToMarkdown(block.rows);
+    }
+}).join('\n\n');
+
+// Plain-text rendering for keyword search and agents that take flat text: table cells are tab-separated.
+export const blocksToText = (blocks: LayoutBlock[]): string => blocks.map(block => {
+    switch (block.type) {
+        case 'heading':
+        case 'paragraph': return block.text;
+        case 'list': return block.items.map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${item}`).join('\n');
+        case 'table': return block.rows.map(r => r.join('\t')).join('\n');
+    }
+}).join('\n\n');
+
+const csvCell = (cell: string) => /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+export const tableToCsv = (rows: string[][]): string => rows.map(r => r.map(csvCell).join(',')).join('\r\n');
@@ -0,0 +1,194 @@
+import { LayoutBlock } from '../../types';
+import { blocksToMarkdown } from '../layoutBlocks';
+import { DocumentLoadError, describeError } from './loader';
+import { openZipArchive, ZipArchive } from './zipArchive';
+
+// Reads word/document.xml of a .docx file: headings (by paragraph style), paragraphs, lists (by
+// numbering definition) and tables, with bold, italic and external links kept as Markdown.
+
+interface Segment {
+    text: string;
+    bold: boolean;
+    italic: boolean;
+    link?: string;
+}
+
+interface DocxContext {
+    headingLevels: Map<string, number>;
+    // numId -> whether level 0 of its numbering is a numbered (rather than bulleted) list.
+    orderedLists: Map<string, boolean>;
+    links: Map<string, string>;
+}
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+const children = (el: Element, name: string): Element[] => Array.from(el.children).filter(c => c.localName === name);
+const child = (el: Element | undefined, name: string): Element | undefined => el ? children(el, name)[0] : undefined;
+// Attributes are namespaced (w:val, r:id); the local name is enough here.
+const attr = (el: Element | undefined, name: string): string | null => {
+    const match = el ? Array.from(el.attributes).find(a => a.localName === name) : undefined;
+    return match ? match.value : null;
+};
+const isOn = (el: Element | undefined) => el !== undefined && !['0', 'false', 'off'].includes(attr(el, 'val') ?? '');
+
+const readOptional = async (archive: ZipArchive, path: string): Promise<Document | null> =>
+    archive.has(path) ? parseXml(await archive.readText(path)) : null;
+
+const readHeadingLevels = (styles: Document | null): Map<string, number> => {
+    const levels = new Map<string, number>();
+    for (const style of Array.from(styles?.getElementsByTagNameNS('*', 'style') ?? [])) {
+        const id = attr(style, 'styleId');
+        if (!id) continue;
+        const name = (attr(child(style, 'name'), 'val') ?? '').toLowerCase();
+        const outline = attr(child(child(style, 'pPr'), 'outlineLvl'), 'val');
+        const heading = /^heading (\d)$/.exec(name);
+        if (name === 'title') levels.set(id, 1);
+        else if (heading) levels.set(id, Math.min(Number(heading[1]), 6));
+        else if (outline !== null && Number(outline) < 6) levels.set(id, Number(outline) + 1);
+    }
+    return levels;
+};
+
+const readOrderedLists = (numbering: Document | null): Map<string, boolean> => {
+    const abstractOrdered = new Map<string, boolean>();
+    for (const abstract of Array.from(numbering?.getElementsByTagNameNS('*', 'abstractNum') ?? [])) {
+        const level0 = children(abstract, 'lvl').find(l => attr(l, 'ilvl') === '0');
+        const format = attr(child(level0, 'numFmt'), 'val') ?? 'bullet';
+        abstractOrdered.set(attr(abstract, 'abstractNumId') ?? '', !['bullet', 'none'].includes(format));
+    }
+    const ordered = new Map<string, boolean>();
+    for (const num of Array.from(numbering?.getElementsByTagNameNS('*', 'num') ?? [])) {
+        ordered.set(attr(num, 'numId') ?? '', abstractOrdered.get(attr(child(num, 'abstractNumId'), 'val') ?? '') ?? false);
+    }
+    return ordered;
+};
+
+const readLinks = (rels: Document | null): Map<string, string> => new Map(
+    Array.from(rels?.getElementsByTagName('Relationship') ?? [])
+        .filter(r => r.getAttribute('TargetMode') === 'External')
+        .map(r => [r.getAttribute('Id') ?? '', r.getAttribute('Target') ?? '']),
+);
+
+const collectSegments = (el: Element, context: DocxContext, segments: Segment[], link?: string) => {
+    for (const node of Array.from(el.children)) {
+        switch (node.localName) {
+            case 'r': {
+                const props = child(node, 'rPr');
+                const bold = isOn(child(props, 'b'));
+                const italic = isOn(child(props, 'i'));
+                for (const part of Array.from(node.children)) {
+                    const text = part.localName === 't' ? part.textContent ?? ''
+                        : part.localName === 'tab' ? '\t'
+                        : part.localName === 'br' || part.localName === 'cr' ? '\n'
+                        : '';
+                    if (text) segments.push({ text, bold, italic, link });
+                }
+                break;
+            }
+            case 'hyperlink':
+                collectSegments(node, context, segments, context.links.get(attr(node, 'id') ?? '') ?? link);
+                break;
+            // Tracked insertions, content controls and simple fields wrap ordinary runs; deletions are skipped.
+            case 'ins':
+            case 'smartTag':
+            case 'fldSimple':
+                collectSegments(node, context, segments, link);
+                break;
+            case 'sdt':
+                collectSegments(child(node, 'sdtContent') ?? node, context, segments, link);
+                break;
+        }
+    }
+};
+
+// Adjacent runs with the same formatting are merged first, so Word's run splitting does not
+// produce `**a****b**`.
+const segmentsToMarkdown = (segments: Segment[]): string => {
+    const merged: Segment[] = [];
+    for (const s of segments) {
+        const last = merged[merged.length - 1];
+        if (last && last.bold === s.bold && last.italic === s.italic && last.link === s.link) last.text += s.text;
+        else merged.push({ ...s });
+    }
+    return merged.map(s => {
+        const match = /^(\s*)(.*?)(\s*)$/s.exec(s.text)!;
+        let text = match[2];
+        if (!text) return s.text;
+        if (s.bold) text = `**${text}**`;
+        if (s.italic) text = `*${text}*`;
+        if (s.link) text = `[${text}](${s.link})`;
+        return match[1] + text + match[3];
+    }).join('').trim();
+};
+
+const paragraphText = (p: Element, context: DocxContext): string => {
+    const segments: Segment[] = [];
+    collectSegments(p, context, segments);
+    return segmentsToMarkdown(segments);
+};
+
+const tableRows = (table: Element, context: DocxContext): string[][] => children(table, 'tr')
+    .map(row => children(row, 'tc').map(cell => children(cell, 'p').map(p => paragraphText(p, context)).filter(Boolean).join(' ')))
+    .filter(row => row.some(Boolean));
+
+const collectBlocks = (body: Element, context: DocxContext, blocks: LayoutBlock[]) => {
+    // The numId of the list the previous paragraph belonged to, to group consecutive items into one list.
+    let currentList: string | null = null;
+    for (const node of Array.from(body.children)) {
+        if (node.localName === 'sdt') {
+            collectBlocks(child(node, 'sdtContent') ?? node, context, blocks);
+            currentList = null;
+            continue;
+        }
+        if (node.localName === 'tbl') {
+            const rows = tableRows(node, context);
+            if (rows.length) blocks.push({ type: 'table', rows });
+            currentList = null;
+            continue;
+        }
+        if (node.localName !== 'p') continue;
+
+        const props = child(node, 'pPr');
+        const text = paragraphText(node, context);
+        if (!text) continue;
+        const style = attr(child(props, 'pStyle'), 'val') ?? '';
+        const outline = attr(child(props, 'outlineLvl'), 'val');
+        const headingLevel = context.headingLevels.get(style) ?? (outline !== null && Number(outline) < 6 ? Number(outline) + 1 : undefined);
+        const numId = attr(child(child(props, 'numPr'), 'numId'), 'val');
+
+        if (headingLevel !== undefined) {
+            blocks.push({ type: 'heading', level: headingLevel, text: text.replace(/\n/g, ' ') });
+            currentList = null;
+        } else if (numId && numId !== '0') {
+            const last = blocks[blocks.length - 1];
+            if (currentList === numId && last?.type === 'list') last.items.push(text.replace(/\n/g, ' '));
+            else blocks.push({ type: 'list', ordered: context.orderedLists.get(numId) ?? false, items: [text.replace(/\n/g, ' ')] });
+            currentList = numId;
+        } else {
+            blocks.push({ type: 'paragraph', text });
+            currentList = null;
+        }
+    }
+};
+
+export const loadDocx = async (file: File): Promise<string> => {
+    let blocks: LayoutBlock[];
+    try {
+        const archive = openZipArchive(await file.arrayBuffer());
+        if (!archive.has('word/document.xml')) throw new Error('word/document.xml is missing');
+        const [documentXml, styles, numbering, rels] = await Promise.all([
+            readOptional(archive, 'word/document.xml'),
+            readOptional(archive, 'word/styles.xml'),
+            readOptional(archive, 'word/numbering.xml'),
+            readOptional(archive, 'word/_rels/document.xml.rels'),
+        ]);
+        const body = documentXml!.getElementsByTagNameNS('*', 'body')[0];
+        if (!body) throw new Error('the document has no body');
+        blocks = [];
+        collectBlocks(body, { headingLevels: readHeadingLevels(styles), orderedLists: readOrderedLists(numbering), links: readLinks(rels) }, blocks);
+    } catch (error) {
+        throw new DocumentLoadError(`"${file.name}" could not be read as a Word document (${describeError(error)}). Only .docx files are supported; save older .doc files as .docx first.`);
+    }
+    if (blocks.length === 0) throw new DocumentLoadError(`"${file.name}" contains no text.`);
+    return blocksToMarkdown(blocks);
+};
@@ -0,0 +1,84 @@
+import { blocksToMarkdown } from '../layoutBlocks';
+import { htmlToBlocks } from './htmlToBlocks';
+import { DocumentLoadError, describeError } from './loader';
+import { openZipArchive, resolveArchivePath, ZipArchive } from './zipArchive';
+
+// Reads the chapters of an EPUB (2 or 3) in spine order. Chapter titles come from the table of contents
+// (EPUB 3 nav document or EPUB 2 NCX) and are added as headings when the chapter does not start with one.
+
+const parseXml = (text: string, type: DOMParserSupportedType = 'application/xml'): Document => new DOMParser().parseFromString(text, type);
+
+const hasParseError = (doc: Document) => doc.getElementsByTagName('parsererror').length > 0;
+
+// Chapters are XHTML, but real-world books often contain markup that is not well-formed XML.
+const parseChapter = (text: string): Document => {
+    const xhtml = parseXml(text, 'application/xhtml+xml');
+    return hasParseError(xhtml) ? parseXml(text, 'text/html') : xhtml;
+};
+
+const byLocalName = (root: Document | Element, name: string): Element[] =>
+    Array.from(root.getElementsByTagNameNS('*', name));
+
+const readPackagePath = async (archive: ZipArchive): Promise<string> => {
+    if (!archive.has('META-INF/container.xml')) throw new Error('META-INF/container.xml is missing');
+    const container = parseXml(await archive.readText('META-INF/container.xml'));
+    const path = byLocalName(container, 'rootfile')[0]?.getAttribute('full-path');
+    if (!path) throw new Error('the container names no package file');
+    return path;
+};
+
+// Maps chapter paths (without #fragment) to the first table-of-contents title that points at them.
+const readChapterTitles = async (archive: ZipArchive, tocPath: string | null, isNav: boolean): Promise<Map<string, string>> => {
+    const titles = new Map<string, string>();
+    if (!tocPath || !archive.has(tocPath)) return titles;
+    const toc = isNav ? parseChapter(await archive.readText(tocPath)) : parseXml(await archive.readText(tocPath));
+    const links: [string | null, string][] = isNav
+        ? byLocalName(toc, 'a').map(a => [a.getAttribute('href'), a.textContent ?? ''])
+        : byLocalName(toc, 'navPoint').map(point => [
+            byLocalName(point, 'content')[0]?.getAttribute('src') ?? null,
+            byLocalName(point, 'text')[0]?.textContent ?? '',
+        ]);
+    for (const [href, title] of links) {
+        if (!href || !title.trim()) continue;
+        const path = resolveArchivePath(tocPath, href);
+        if (!titles.has(path)) titles.set(path, title.replace(/\s+/g, ' ').trim());
+    }
+    return titles;
+};
+
+export const loadEpub = async (file: File): Promise<string> => {
+    const chapters: string[] = [];
+    try {
+        const archive = openZipArchive(await file.arrayBuffer());
+        const packagePath = await readPackagePath(archive);
+        if (!archive.has(packagePath)) throw new Error(`${packagePath} is missing`);
+        const opf = parseXml(await archive.readText(packagePath));
+
+        const manifest = new Map(byLocalName(opf, 'item').map(item => [item.getAttribute('id') ?? '', item]));
+        const navItem = Array.from(manifest.values()).find(item => (item.getAttribute('properties') ?? '').split(/\s+/).includes('nav'));
+        const ncxId = byLocalName(opf, 'spine')[0]?.getAttribute('toc');
+        const tocItem = navItem ?? (ncxId ? manifest.get(ncxId) : undefined);
+        const tocPath = tocItem?.getAttribute('href') ? resolveArchivePath(packagePath, tocItem.getAttribute('href')!) : null;
+        const titles = await readChapterTitles(archive, tocPath, navItem !== undefined);
+
+        const spine = byLocalName(opf, 'itemref').filter(ref => ref.getAttribute('linear') !== 'no');
+        if (spine.length === 0) throw new Error('the book has no chapters');
+        for (const ref of spine) {
+            const href = manifest.get(ref.getAttribute('idref') ?? '')?.getAttribute('href');
+            if (!href) continue;
+            const path = resolveArchivePath(packagePath, href);
+            if (!archive.has(path)) continue;
+            const chapter = parseChapter(await archive.readText(path));
+            const body = chapter.getElementsByTagName('body')[0] ?? chapter.documentElement;
+            const blocks = htmlToBlocks(body);
+            if (blocks.length === 0) continue;
+            const title = titles.get(path);
+            if (title && blocks[0].type !== 'heading') blocks.unshift({ type: 'heading', level: 1, text: title });
+            chapters.push(blocksToMarkdown(blocks));
+        }
+    } catch (error) {
+        throw new DocumentLoadError(`"${file.name}" could not be read as an EPUB book (${describeError(error)}). DRM-protected books cannot be opened.`);
+    }
+    if (chapters.length === 0) throw new DocumentLoadError(`"${file.name}" contains no readable chapters.`);
+    return chapters.join('\n\n');
+};
@@ -0,0 +1,106 @@
+import { LayoutBlock } from '../../types';
+
+// Converts HTML (saved web pages, EPUB chapters) to layout blocks, so it can be rendered with
+// blocksToMarkdown like layout OCR output. Inline emphasis, code and links are kept as Markdown.
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'nav', 'form', 'button', 'select', 'textarea']);
+const INLINE_TAGS = new Set(['a', 'abbr', 'b', 'bdi', 'br', 'cite', 'code', 'del', 'em', 'font', 'i', 'img', 'ins', 'kbd', 'label', 'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var']);
+const HEADING = /^h([1-6])$/;
+
+const wrap = (text: string, marker: string) => text.trim() ? `${marker}${text.trim()}${marker}` : text;
+
+const inlineText = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? '').replace(/\s+/g, ' ');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as Element;
+    const tag = el.localName;
+    if (SKIPPED_TAGS.has(tag)) return '';
+    if (tag === 'br') return '\n';
+    if (tag === 'img') return el.getAttribute('alt') ?? '';
+    const text = Array.from(el.childNodes).map(inlineText).join('');
+    switch (tag) {
+        case 'b':
+        case 'strong': return wrap(text, '**');
+        case 'i':
+        case 'em': return wrap(text, '*');
+        case 'code': return wrap(text, '`');
+        case 'a': {
+            const href = el.getAttribute('href') ?? '';
+            // Relative links point into the original site or book and mean nothing in the extracted text.
+            return /^(https?:|mailto:)/i.test(href) && text.trim() ? `[${text.trim()}](${href})` : text;
+        }
+        default: return text;
+    }
+};
+
+const cleanText = (text: string) => text.split('\n').map(line => line.replace(/ +/g, ' ').trim()).filter(Boolean).join('\n');
+
+const listItems = (list: Element): string[] => Array.from(list.children)
+    .filter(child => child.localName === 'li')
+    .flatMap(li => {
+        // Nested lists are flattened into the parent list, after the item they belong to.
+        const nested = Array.from(li.children).filter(child => child.localName === 'ul' || child.localName === 'ol');
+        const own = cleanText(Array.from(li.childNodes).filter(child => !nested.includes(child as Element)).map(inlineText).join('')).replace(/\n/g, ' ');
+        return [own, ...nested.flatMap(listItems)].filter(Boolean);
+    });
+
+const tableRows = (table: Element): string[][] => Array.from(table.querySelectorAll('tr'))
+    // Rows of tables nested inside a cell belong to that cell.
+    .filter(tr => tr.closest('table') === table)
+    .map(tr => Array.from(tr.children).filter(cell => cell.localName === 'td' || cell.localName === 'th').map(cell => cleanText(inlineText(cell)).replace(/\n/g, ' ')))
+    .filter(row => row.some(Boolean));
+
+const collectBlocks = (parent: Element, blocks: LayoutBlock[]) => {
+    let pending = '';
+    const flush = () => {
+        const text = cleanText(pending);
+        if (text) blocks.push({ type: 'paragraph', text });
+        pending = '';
+    };
+
+    for (const node of Array.from(parent.childNodes)) {
+        if (node.nodeType !== Node.ELEMENT_NODE || INLINE_TAGS.has((node as Element).localName)) {
+            pending += inlineText(node);
+            continue;
+        }
+        const el = node as Element;
+        const tag = el.localName;
+        if (SKIPPED_TAGS.has(tag)) continue;
+        flush();
+        const heading = HEADING.exec(tag);
+        if (heading) {
+            const text = cleanText(inlineText(el)).replace(/\n/g, ' ');
+            if (text) blocks.push({ type: 'heading', level: Number(heading[1]), text });
+        } else if (tag === 'p') {
+            const text = cleanText(inlineText(el));
+            if (text) blocks.push({ type: 'paragraph', text });
+        } else if (tag === 'ul' || tag === 'ol') {
+            const items = listItems(el);
+            if (items.length) blocks.push({ type: 'list', ordered: tag === 'ol', items });
+        } else if (tag === 'table') {
+            const rows = tableRows(el);
+            if (rows.length) blocks.push({ type: 'table', rows });
+        } else if (tag === 'pre') {
+            const code = (el.textContent ?? '').replace(/\n+$/, '');
+            if (code.trim()) blocks.push({ type: 'paragraph', text: `\`\`\`\n${code}\n\`\`\`` });
+        } else if (tag === 'blockquote') {
+            const text = cleanText(inlineText(el));
+            if (text) blocks.push({ type: 'paragraph', text: text.split('\n').map(line => `> ${line}`).join('\n') });
+        } else if (tag !== 'hr') {
+            // div, section, article, figure, ...: containers whose children decide.
+            collectBlocks(el, blocks);
+        }
+    }
+    flush();
+};
+
+export const htmlToBlocks = (root: Element): LayoutBlock[] => {
+    const blocks: LayoutBlock[] = [];
+    collectBlocks(root, blocks);
+    return blocks;
+};
+
+// Saved web pages carry navigation, headers and footers around the content; prefer the main content
+// element when the page marks one.
+export const mainContentOf = (doc: Document): Element | null =>
+    doc.querySelector('article') ?? doc.querySelector('main') ?? doc.querySelector('[role="main"]') ?? doc.body ?? doc.documentElement;
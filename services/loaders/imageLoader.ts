@@ -0,0 +1,53 @@
+import { DocumentType, OcrOutputFormat, PageExtraction, TokenUsage } from '../../types';
+import { performOcr } from '../geminiService';
+import { hashBytes } from '../hashing';
+import { cacheOcrPage, getCachedOcrPages } from '../ocrCache';
+import { formatExtractedContent, formatStructuredContent } from '../pdfExtraction';
+import { DocumentLoadError, LoadedDocument, describeError } from './loader';
+
+// Phone photos are far larger than OCR needs; the longer side is scaled down to this many pixels.
+const MAX_IMAGE_SIDE = 2048;
+
+// Re-encodes the image as JPEG (the format performOcr sends), applying its EXIF orientation.
+const toJpegBase64 = async (file: File): Promise<string> => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+};
+
+// An image is handled as a one-page scan: OCRed (or taken from the OCR cache) and reported like a PDF page.
+// `confirmOcr` runs only when the page is not cached, before any model call.
+export const loadImage = async (file: File, format: OcrOutputFormat, confirmOcr: () => boolean): Promise<LoadedDocument> => {
+    const fileHash = await hashBytes(new Uint8Array(await file.arrayBuffer()));
+    const cached = (await getCachedOcrPages(fileHash, [1], format)).get(1);
+    let page: PageExtraction;
+    let usage: TokenUsage | null = null;
+    if (cached) {
+        page = { page: 1, method: 'ocr', status: 'done', text: cached.text, blocks: cached.blocks, characters: cached.text.length, cached: true };
+    } else {
+        if (!confirmOcr()) throw new DocumentLoadError(`Text recognition for "${file.name}" was cancelled.`);
+        let image: string;
+        try {
+            image = await toJpegBase64(file);
+        } catch (error) {
+            throw new DocumentLoadError(`"${file.name}" could not be decoded as an image (${describeError(error)}). Only PNG and JPEG are supported.`);
+        }
+        let result;
+        try {
+            result = await performOcr(image, format);
+        } catch (error) {
+            throw new DocumentLoadError(`Text recognition for "${file.name}" failed (${describeError(error)}).`);
+        }
+        if (!result.text.trim()) throw new DocumentLoadError(`No text was found in "${file.name}".`);
+        await cacheOcrPage(fileHash, 1, format, result.text, result.blocks);
+        page = { page: 1, method: 'ocr', status: 'done', text: result.text, blocks: result.blocks, characters: result.text.length };
+        usage = result.usage;
+    }
+    const report = [page];
+    return { type: DocumentType.IMAGE, content: formatExtractedContent(report), structuredContent: formatStructuredContent(report), pageReport: report, fileHash, usage };
+};
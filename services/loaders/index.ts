@@ -0,0 +1,89 @@
+import { DocumentType, OcrOutputFormat } from '../../types';
+import { blocksToMarkdown } from '../layoutBlocks';
+import { loadDocx } from './docxLoader';
+import { loadEpub } from './epubLoader';
+import { htmlToBlocks, mainContentOf } from './htmlToBlocks';
+import { loadImage } from './imageLoader';
+import { DocumentLoadError, LoadedDocument } from './loader';
+
+export { DocumentLoadError } from './loader';
+export { openPdf } from './pdfLoader';
+export type { LoadedDocument } from './loader';
+
+// Extensions decide first; the MIME type is only a fallback, since browsers often report none for .md or .epub.
+const EXTENSION_TYPES: Record<string, DocumentType> = {
+    pdf: DocumentType.PDF,
+    txt: DocumentType.TXT,
+    md: DocumentType.TXT,
+    markdown: DocumentType.TXT,
+    json: DocumentType.TXT,
+    csv: DocumentType.TXT,
+    docx: DocumentType.DOCX,
+    html: DocumentType.HTML,
+    htm: DocumentType.HTML,
+    xhtml: DocumentType.HTML,
+    png: DocumentType.IMAGE,
+    jpg: DocumentType.IMAGE,
+    jpeg: DocumentType.IMAGE,
+    epub: DocumentType.EPUB,
+};
+
+const MIME_TYPES: Record<string, DocumentType> = {
+    'application/pdf': DocumentType.PDF,
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': DocumentType.DOCX,
+    'text/html': DocumentType.HTML,
+    'application/xhtml+xml': DocumentType.HTML,
+    'image/png': DocumentType.IMAGE,
+    'image/jpeg': DocumentType.IMAGE,
+    'application/epub+zip': DocumentType.EPUB,
+};
+
+export const ACCEPTED_EXTENSIONS = Object.keys(EXTENSION_TYPES).map(ext => `.${ext}`).join(',');
+
+export const detectDocumentType = (file: File): DocumentType => {
+    const extension = /\.([^./]+)$/.exec(file.name)?.[1].toLowerCase() ?? '';
+    const type = EXTENSION_TYPES[extension] ?? MIME_TYPES[file.type] ?? (file.type.startsWith('text/') ? DocumentType.TXT : undefined);
+    if (type) return type;
+    if (extension === 'doc') throw new DocumentLoadError(`"${file.name}" is a legacy Word file. Save it as .docx and upload it again.`);
+    throw new DocumentLoadError(`"${file.name}" has an unsupported file type. Supported: ${ACCEPTED_EXTENSIONS.replace(/,/g, ', ')}.`);
+};
+
+const loadHtml = async (file: File): Promise<string> => {
+    const doc = new DOMParser().parseFromString(await file.text(), 'text/html');
+    const root = mainContentOf(doc);
+    const blocks = root ? htmlToBlocks(root) : [];
+    if (blocks.length === 0) throw new DocumentLoadError(`"${file.name}" contains no readable text.`);
+    return blocksToMarkdown(blocks);
+};
+
+const loadText = async (file: File): Promise<string> => {
+    const content = await file.text();
+    // A binary file read as UTF-8 is full of replacement characters.
+    if (content.includes('\u0000')) throw new DocumentLoadError(`"${file.name}" is not a text file.`);
+    return content;
+};
+
+interface LoadOptions {
+    ocrFormat: OcrOutputFormat;
+    // Asked before an image is sent to OCR; returning false cancels the load.
+    confirmOcr: () => boolean;
+}
+
+// Loads every type except PDF, which stays in the page viewer for page selection and extraction.
+// Failures are DocumentLoadErrors whose message says what went wrong with which file.
+export const loadDocument = async (file: File, type: DocumentType, { ocrFormat, confirmOcr }: LoadOptions): Promise<LoadedDocument> => {
+    try {
+        switch (type) {
+            case DocumentType.DOCX: return { type, content: await loadDocx(file) };
+            case DocumentType.HTML: return { type, content: await loadHtml(file) };
+            case DocumentType.EPUB: return { type, content: await loadEpub(file) };
+            case DocumentType.IMAGE: return await loadImage(file, ocrFormat, confirmOcr);
+            case DocumentType.TXT: return { type, content: await loadText(file) };
+            default: throw new DocumentLoadError(`"${file.name}" cannot be loaded as ${type}.`);
+        }
+    } catch (error) {
+        if (error instanceof DocumentLoadError) throw error;
+        console.error(`Failed to load ${file.name}:`, error);
+        throw new DocumentLoadError(`"${file.name}" could not be read.`);
+    }
+};
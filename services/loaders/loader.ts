@@ -0,0 +1,21 @@
+import { DocumentType, PageExtraction, TokenUsage } from '../../types';
+
+// Thrown by the loaders with a message that can be shown to the user as is.
+export class DocumentLoadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DocumentLoadError';
+    }
+}
+
+export interface LoadedDocument {
+    type: DocumentType;
+    content: string;
+    fileHash?: string;
+    pageReport?: PageExtraction[];
+    structuredContent?: string;
+    // Set when loading called a model (image OCR), so the cost can be counted.
+    usage?: TokenUsage | null;
+}
+
+export const describeError = (error: unknown): string => error instanceof Error ? error.message : String(error);
@@ -0,0 +1,18 @@
+import { hashBytes } from '../hashing';
+import { DocumentLoadError } from './loader';
+
+// Opens a PDF with pdf.js (loaded from the CDN in index.html) and hashes its bytes for the OCR cache.
+export const openPdf = async (file: File): Promise<{ pdfDoc: any; fileHash: string }> => {
+    const pdfjs = (window as any).pdfjsLib;
+    if (!pdfjs) throw new DocumentLoadError("The PDF processing library is still loading. Please try again in a moment.");
+    const typedarray = new Uint8Array(await file.arrayBuffer());
+    try {
+        // Hash before pdf.js takes over the buffer.
+        const fileHash = await hashBytes(typedarray);
+        const pdfDoc = await pdfjs.getDocument(typedarray).promise;
+        return { pdfDoc, fileHash };
+    } catch (error) {
+        console.error("Error processing PDF:", error);
+        throw new DocumentLoadError(`"${file.name}" could not be opened as a PDF. It might be corrupted or password-protected.`);
+    }
+};
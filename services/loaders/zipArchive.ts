@@ -0,0 +1,142 @@
+// Minimal ZIP support for Office and EPUB containers. Reading handles stored and deflated entries (no ZIP64, no
+// encryption); inflating uses the browser's DecompressionStream, so no archive library is needed. Writing only
+// stores entries, which is all XLSX and DOCX export need.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// The end record is 22 bytes plus a comment of at most 65535 bytes.
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+interface ZipEntry {
+    method: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+    paths: string[];
+    has: (path: string) => boolean;
+    readText: (path: string) => Promise<string>;
+}
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndRecord = (view: DataView): number => {
+    const last = view.byteLength - 22;
+    for (let offset = last; offset >= Math.max(0, view.byteLength - MAX_END_RECORD_SEARCH); offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+    }
+    throw new Error('not a ZIP archive');
+};
+
+// Throws a plain Error describing what is wrong with the archive; callers add which format they expected.
+export const openZipArchive = (buffer: ArrayBuffer): ZipArchive => {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const decoder = new TextDecoder();
+    const endRecord = findEndRecord(view);
+    const entryCount = view.getUint16(endRecord + 10, true);
+    let offset = view.getUint32(endRecord + 16, true);
+    if (entryCount === 0xffff || offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+    const entries = new Map<string, ZipEntry>();
+    for (let i = 0; i < entryCount; i++) {
+        if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error('the archive directory is damaged');
+        const flags = view.getUint16(offset + 8, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        if (flags & 1) throw new Error(`"${name}" is encrypted`);
+        entries.set(name, {
+            method: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            localHeaderOffset: view.getUint32(offset + 42, true),
+        });
+        offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+    }
+
+    const read = async (path: string): Promise<Uint8Array> => {
+        const entry = entries.get(path);
+        if (!entry) throw new Error(`"${path}" is missing`);
+        const header = entry.localHeaderOffset;
+        if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) throw new Error(`"${path}" is damaged`);
+        const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+        const data = bytes.subarray(start, start + entry.compressedSize);
+        if (entry.method === 0) return data;
+        if (entry.method === 8) return inflateRaw(data);
+        throw new Error(`"${path}" uses unsupported compression method ${entry.method}`);
+    };
+
+    return {
+        paths: Array.from(entries.keys()),
+        has: path => entries.has(path),
+        readText: async path => decoder.decode(await read(path)),
+    };
+};
+
+// Resolves an href found in `fromPath` (e.g. an EPUB chapter link) to a path inside the archive.
+export const resolveArchivePath = (fromPath: string, href: string): string => {
+    const parts = fromPath.split('/').slice(0, -1);
+    for (const part of decodeURIComponent(href.split('#')[0]).split('/')) {
+        if (part === '..') parts.pop();
+        else if (part && part !== '.') parts.push(part);
+    }
+    return parts.join('/');
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Builds an archive of uncompressed entries, in the given order. Text is stored as UTF-8.
+export const createZipArchive = (files: [path: string, content: string | Uint8Array][], mimeType = 'application/zip'): Blob => {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const directory: Uint8Array[] = [];
+    let offset = 0;
+    for (const [path, content] of files) {
+        const name = encoder.encode(path);
+        const data = typeof content === 'string' ? encoder.encode(content) : content;
+        const crc = crc32(data);
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_FILE_HEADER, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, 0x0800, true); // UTF-8 names
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, CENTRAL_DIRECTORY_ENTRY, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        parts.push(new Uint8Array(local.buffer), name, data);
+        directory.push(new Uint8Array(central.buffer), name);
+        offset += 30 + name.length + data.length;
+    }
+    const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, offset, true);
+    return new Blob([...parts, ...directory, new Uint8Array(end.buffer)], { type: mimeType });
+};
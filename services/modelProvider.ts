@@ -0,0 +1,92 @@
+import { GenerationSettings, TokenUsage } from '../types';
+
+export interface ModelTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface GenerateRequest {
+    model: string;
+    contents: string | ModelTurn[];
+    systemInstruction?: string;
+    generation?: GenerationSettings;
+    responseMimeType?: 'application/json';
+    responseJsonSchema?: unknown;
+    signal?: AbortSignal;
+}
+
+export interface GenerateResult {
+    text: string;
+    usage: TokenUsage | null;
+}
+
+export interface OcrRequest {
+    model: string;
+    imageBase64: string;
+    mimeType: string;
+    prompt: string;
+    // When set, the response is JSON following this schema.
+    responseJsonSchema?: unknown;
+    signal?: AbortSignal;
+}
+
+// Documents and queries are embedded differently by retrieval models, so the caller says which it has.
+export type EmbeddingTask = 'document' | 'query';
+
+export interface EmbedRequest {
+    model: string;
+    texts: string[];
+    task: EmbeddingTask;
+    // Shorter vectors than the model's default, where the model supports it.
+    dimensions?: number;
+    signal?: AbortSignal;
+}
+
+// One vector per text, in request order.
+export interface EmbedResult {
+    vectors: number[][];
+    // Input characters billed. Embedding calls report no token usage, so cost is worked out from these.
+    characters: number;
+}
+
+export const characterCount = (texts: string[]): number => texts.reduce((sum, text) => sum + text.length, 0);
+
+// Everything the app needs from a model backend. Providers report failures as ModelRequestError.
+export interface ModelProvider {
+    readonly id: string;
+    generate(request: GenerateRequest): Promise<GenerateResult>;
+    stream(request: GenerateRequest, onText: (textSoFar: string) => void): Promise<GenerateResult>;
+    ocr(request: OcrRequest): Promise<GenerateResult>;
+    countTokens(model: string, contents: string | ModelTurn[]): Promise<number>;
+    embed(request: EmbedRequest): Promise<EmbedResult>;
+}
+
+export class ModelRequestError extends Error {
+    constructor(message: string, public readonly status: number | null) {
+        super(status ? `${message} (HTTP ${status})` : message);
+        this.name = 'ModelRequestError';
+    }
+
+    // Rate limiting and server-side failures are worth retrying; bad requests and auth errors are not.
+    get retryable(): boolean {
+        return this.status === 429 || (this.status !== null && this.status >= 500);
+    }
+}
+
+export class MissingApiKeyError extends ModelRequestError {
+    constructor() {
+        super('No API key is set.', null);
+        this.name = 'MissingApiKeyError';
+    }
+}
+
+let activeProvider: ModelProvider | null = null;
+
+export const setModelProvider = (provider: ModelProvider) => {
+    activeProvider = provider;
+};
+
+export const getModelProvider = (): ModelProvider => {
+    if (!activeProvider) throw new Error('No model provider has been configured.');
+    return activeProvider;
+};
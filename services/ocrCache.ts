@@ -0,0 +1,26 @@
+import { LayoutBlock, OcrOutputFormat } from '../types';
+import { getRecord, putRecord } from './db';
+
+const STORE = 'ocrPages';
+
+export interface CachedOcrPage {
+    id: string;
+    fileHash: string;
+    page: number;
+    text: string;
+    blocks?: LayoutBlock[];
+    createdAt: number;
+}
+
+// Plain and layout OCR of the same page are cached separately.
+const cacheId = (fileHash: string, page: number, format: OcrOutputFormat) =>
+    format === 'text' ? `${fileHash}:${page}` : `${fileHash}:${page}:${format}`;
+
+// Returns the cached OCR result of every page that has one.
+export const getCachedOcrPages = async (fileHash: string, pages: number[], format: OcrOutputFormat): Promise<Map<number, CachedOcrPage>> => {
+    const records = await Promise.all(pages.map(page => getRecord<CachedOcrPage>(STORE, cacheId(fileHash, page, format))));
+    return new Map(records.filter((r): r is CachedOcrPage => r !== undefined).map(r => [r.page, r]));
+};
+
+export const cacheOcrPage = (fileHash: string, page: number, format: OcrOutputFormat, text: string, blocks?: LayoutBlock[]) =>
+    putRecord<CachedOcrPage>(STORE, { id: cacheId(fileHash, page, format), fileHash, page, text, blocks, createdAt: Date.now() });
@@ -0,0 +1,85 @@
+import { LayoutBlock, OcrOutputFormat, PageExtraction, PageExtractionMode, TokenUsage } from '../types';
+import { performOcr } from './geminiService';
+import { blocksToMarkdown } from './layoutBlocks';
+import { cacheOcrPage } from './ocrCache';
+
+export const OCR_CONCURRENCY = 3;
+
+// Pages with fewer characters than this in their text layer are treated as scanned images.
+export const MIN_TEXT_LAYER_CHARACTERS = 40;
+
+export interface TextLayerPage {
+    page: number;
+    text: string;
+    needsOcr: boolean;
+}
+
+// pdf.js marks line ends with `hasEOL`; older outputs only show them as a change in the baseline (transform[5]).
+export const extractTextLayer = async (pdfDoc: any, pageNum: number): Promise<string> => {
+    const page = await pdfDoc.getPage(pageNum);
+    const { items } = await page.getTextContent();
+    let text = '';
+    let lastY: number | null = null;
+    for (const item of items) {
+        if (typeof item.str !== 'string') continue;
+        const y = item.transform?.[5] ?? null;
+        if (lastY !== null && y !== null && Math.abs(y - lastY) > 1 && !text.endsWith('\n')) text += '\n';
+        text += item.str;
+        if (item.hasEOL) text += '\n';
+        lastY = y;
+    }
+    return text.replace(/[ \t]+\n/g, '\n').trim();
+};
+
+// First pass over the selected pages: cheap, local and free. Decides which pages still need OCR.
+export const readTextLayers = async (pdfDoc: any, pages: number[], modeFor: (page: number) => PageExtractionMode): Promise<TextLayerPage[]> => {
+    const results: TextLayerPage[] = [];
+    for (const page of pages) {
+        const mode = modeFor(page);
+        let text = '';
+        if (mode !== 'ocr') {
+            try {
+                text = await extractTextLayer(pdfDoc, page);
+            } catch (error) {
+                // A damaged text layer is handled like a missing one.
+                console.error(`Failed to read the text layer of page ${page}:`, error);
+            }
+        }
+        results.push({ page, text, needsOcr: mode === 'ocr' || (mode === 'auto' && text.replace(/\s/g, '').length < MIN_TEXT_LAYER_CHARACTERS) });
+    }
+    return results;
+};
+
+export const renderPageToJpeg = async (pdfDoc: any, pageNum: number, scale = 2.0): Promise<string> => {
+    const page = await pdfDoc.getPage(pageNum);
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.height = viewport.height;
+    canvas.width = viewport.width;
+    const context = canvas.getContext('2d');
+    await page.render({ canvasContext: context!, viewport }).promise;
+    return canvas.toDataURL('image/jpeg').split(',')[1];
+};
+
+// Renders one page, runs OCR on it and caches the text under the file hash, so a later run can skip it.
+export const ocrPage = async (
+    pdfDoc: any, fileHash: string, pageNum: number, format: OcrOutputFormat,
+): Promise<{ text: string; blocks?: LayoutBlock[]; usage: TokenUsage | null }> => {
+    const result = await performOcr(await renderPageToJpeg(pdfDoc, pageNum), format);
+    await cacheOcrPage(fileHash, pageNum, format, result.text, result.blocks);
+    return result;
+};
+
+const pageBody = (r: PageExtraction, structured: boolean): string => {
+    if (r.status !== 'done') return '[OCR Failed]';
+    return structured && r.blocks ? blocksToMarkdown(r.blocks) : r.text;
+};
+
+export const formatExtractedContent = (report: PageExtraction[]): string =>
+    report.map(r => `--- Page ${r.page} ---\n${pageBody(r, false)}`).join('\n\n');
+
+// The Markdown version keeps the page markers, so chunking and page citations work on it as well.
+export const formatStructuredContent = (report: PageExtraction[]): string | undefined =>
+    report.some(r => r.blocks)
+        ? report.map(r => `--- Page ${r.page} ---\n${pageBody(r, true)}`).join('\n\n')
+        : undefined;
@@ -0,0 +1,39 @@
+import { Agent, PromptVariable } from '../types';
+
+// {{name}} placeholders; `document` and {{agent:Name}} are reserved for workflow inputs.
+const VARIABLE_PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+const RESERVED_NAMES = new Set(['document']);
+
+export const extractVariableNames = (...texts: (string | undefined)[]): string[] => {
+    const names = new Set<string>();
+    for (const text of texts) {
+        for (const match of (text ?? '').matchAll(VARIABLE_PLACEHOLDER)) {
+            if (!RESERVED_NAMES.has(match[1])) names.add(match[1]);
+        }
+    }
+    return Array.from(names);
+};
+
+// Keeps the settings of variables that are still used and adds a text variable for each new placeholder.
+export const syncVariables = (existing: PromptVariable[], names: string[]): PromptVariable[] =>
+    names.map(name => existing.find(v => v.name === name) ?? { name, type: 'text' });
+
+export const variableValue = (variable: PromptVariable): string => variable.value ?? variable.defaultValue ?? '';
+
+export const applyVariables = (text: string, variables: PromptVariable[]): string =>
+    text.replace(VARIABLE_PLACEHOLDER, (placeholder, name: string) => {
+        const variable = variables.find(v => v.name === name);
+        return variable ? variableValue(variable) : placeholder;
+    });
+
+export const resolveAgentVariables = (agent: Agent): Agent => {
+    if (!agent.variables?.length) return agent;
+    return {
+        ...agent,
+        prompt: applyVariables(agent.prompt, agent.variables),
+        systemInstruction: agent.systemInstruction && applyVariables(agent.systemInstruction, agent.variables),
+    };
+};
+
+export const missingVariables = (agents: Agent[]): { agent: Agent; variable: PromptVariable }[] =>
+    agents.flatMap(agent => (agent.variables ?? []).filter(v => !variableValue(v).trim()).map(variable => ({ agent, variable })));
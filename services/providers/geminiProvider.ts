@@ -0,0 +1,115 @@
+import { ApiError, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { characterCount, GenerateRequest, GenerateResult, MissingApiKeyError, ModelProvider, ModelRequestError, ModelTurn } from '../modelProvider';
+
+const toContents = (contents: string | ModelTurn[]) => typeof contents === 'string'
+    ? contents
+    : contents.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+
+const toUsage = (response: GenerateContentResponse): GenerateResult['usage'] => {
+    const usage = response.usageMetadata;
+    if (!usage) return null;
+    return {
+        promptTokens: usage.promptTokenCount ?? 0,
+        outputTokens: usage.candidatesTokenCount ?? 0,
+        totalTokens: usage.totalTokenCount ?? 0,
+    };
+};
+
+const toRequestError = (error: unknown, signal?: AbortSignal): unknown => {
+    if (signal?.aborted) return signal.reason;
+    if (error instanceof MissingApiKeyError) return error;
+    return new ModelRequestError(error instanceof Error ? error.message : String(error), error instanceof ApiError ? error.status : null);
+};
+
+const toParameters = (request: GenerateRequest) => ({
+    model: request.model,
+    contents: toContents(request.contents),
+    config: {
+        abortSignal: request.signal,
+        systemInstruction: request.systemInstruction || undefined,
+        ...request.generation,
+        responseMimeType: request.responseMimeType,
+        responseJsonSchema: request.responseJsonSchema,
+    },
+});
+
+// Without a key the provider still exists, but every call fails with MissingApiKeyError.
+export const createGeminiProvider = (apiKey: string | undefined): ModelProvider => {
+    const client = apiKey ? new GoogleGenAI({ apiKey }) : null;
+    const ai = () => {
+        if (!client) throw new MissingApiKeyError();
+        return client;
+    };
+
+    return {
+        id: 'gemini',
+
+        async generate(request) {
+            try {
+                const response = await ai().models.generateContent(toParameters(request));
+                return { text: response.text ?? '', usage: toUsage(response) };
+            } catch (error) {
+                throw toRequestError(error, request.signal);
+            }
+        },
+
+        async stream(request, onText) {
+            try {
+                const stream = await ai().models.generateContentStream(toParameters(request));
+                let text = '';
+                let usage: GenerateResult['usage'] = null;
+                for await (const chunk of stream) {
+                    if (request.signal?.aborted) throw request.signal.reason;
+                    text += chunk.text ?? '';
+                    usage = toUsage(chunk) ?? usage;
+                    onText(text);
+                }
+                return { text, usage };
+            } catch (error) {
+                throw toRequestError(error, request.signal);
+            }
+        },
+
+        async ocr({ model, imageBase64, mimeType, prompt, responseJsonSchema, signal }) {
+            try {
+                const response = await ai().models.generateContent({
+                    model,
+                    contents: { parts: [{ inlineData: { mimeType, data: imageBase64 } }, { text: prompt }] },
+                    config: { abortSignal: signal, ...(responseJsonSchema !== undefined && { responseMimeType: 'application/json', responseJsonSchema }) },
+                });
+                return { text: response.text ?? '', usage: toUsage(response) };
+            } catch (error) {
+                throw toRequestError(error, signal);
+            }
+        },
+
+        async embed({ model, texts, task, dimensions, signal }) {
+            try {
+                const response = await ai().models.embedContent({
+                    model,
+                    contents: texts,
+                    config: { abortSignal: signal, taskType: task === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT', outputDimensionality: dimensions },
+                });
+                const vectors = (response.embeddings ?? []).map(e => e.values ?? []);
+                if (vectors.length !== texts.length) throw new ModelRequestError(`Expected ${texts.length} embeddings, got ${vectors.length}.`, null);
+                return { vectors, characters: response.metadata?.billableCharacterCount ?? characterCount(texts) };
+            } catch (error) {
+                throw toRequestError(error, signal);
+            }
+        },
+
+        async countTokens(model, contents) {
+            try {
+                const response = await ai().models.countTokens({ model, contents: toContents(contents) });
+                return response.totalTokens ?? 0;
+            } catch (error) {
+                throw toRequestError(error);
+            }
+        },
+    };
+};
+
+// Counting tokens is free and fast, which makes it a cheap way to check that a key is accepted.
+export const validateGeminiApiKey = async (apiKey: string): Promise<void> => {
+    await createGeminiProvider(apiKey).countTokens('gemini-2.5-flash', 'ping');
+};
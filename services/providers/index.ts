@@ -0,0 +1,21 @@
+import { ModelProvider } from '../modelProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { ReplayFixture } from './replay';
+
+export type ProviderId = 'gemini' | 'mock';
+
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'mock'];
+
+// MODEL_PROVIDER=mock (e.g. in CI) starts the app on the offline provider.
+export const DEFAULT_PROVIDER_ID: ProviderId = process.env.MODEL_PROVIDER === 'mock' ? 'mock' : 'gemini';
+
+export interface ProviderOptions {
+    apiKey?: string;
+    fixture?: ReplayFixture;
+}
+
+export const createProvider = (id: ProviderId, { apiKey, fixture }: ProviderOptions = {}): ModelProvider =>
+    id === 'mock'
+        ? createMockProvider({ fixture, chunkDelayMs: 30 })
+        : createGeminiProvider(apiKey);
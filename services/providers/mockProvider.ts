@@ -0,0 +1,144 @@
+import { JsonSchema } from '../../types';
+import { characterCount, GenerateRequest, GenerateResult, ModelProvider, ModelRequestError, ModelTurn } from '../modelProvider';
+import { embedRequestKey, generateRequestKey, ocrRequestKey, ReplayFixture } from './replay';
+
+export interface MockProviderOptions {
+    // Recorded responses take precedence over the canned ones.
+    fixture?: ReplayFixture;
+    // With `strict`, a request missing from the fixture fails instead of getting a canned response.
+    strict?: boolean;
+    // Pause between streamed chunks, so progress UI can be seen in demos. 0 in CI.
+    chunkDelayMs?: number;
+}
+
+interface CannedRule {
+    pattern: RegExp;
+    text: string;
+}
+
+// Canned answers for the app's own built-in prompts; everything else gets a generic echo.
+const CANNED_RULES: CannedRule[] = [
+    {
+        pattern: /generate 3 insightful follow-up questions/i,
+        text: '- What are the main conclusions of this document?\n- Which points would benefit from more evidence?\n- What should be done next based on this analysis?',
+    },
+];
+
+const lastUserText = (contents: string | ModelTurn[]): string =>
+    typeof contents === 'string' ? contents : contents.filter(t => t.role === 'user').pop()?.text ?? '';
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Builds the smallest value that satisfies `schema`: first enum value, minimum number, one array item.
+// Union types such as ['integer', 'null'] (accepted by Gemini, not modelled by JsonSchema) use their first member.
+export const sampleFromSchema = (schema: JsonSchema, name = 'value'): unknown => {
+    if (schema.enum?.length) return schema.enum[0];
+    const type: unknown = schema.type;
+    switch (Array.isArray(type) ? type[0] : type) {
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, prop]) => [key, sampleFromSchema(prop, key)]));
+        case 'array':
+            return schema.items ? [sampleFromSchema(schema.items, name)] : [];
+        case 'integer':
+            return Math.ceil(schema.minimum ?? 1);
+        case 'number':
+            return schema.minimum ?? 0.5;
+        case 'boolean':
+            return false;
+        case 'null':
+            return null;
+        default:
+            return `Mock ${name}`;
+    }
+};
+
+const cannedText = ({ model, contents, responseMimeType, responseJsonSchema }: GenerateRequest): string => {
+    if (responseMimeType === 'application/json') {
+        return JSON.stringify(responseJsonSchema ? sampleFromSchema(responseJsonSchema as JsonSchema) : { result: 'Mock result' }, null, 2);
+    }
+    const prompt = lastUserText(contents);
+    const rule = CANNED_RULES.find(r => r.pattern.test(prompt));
+    if (rule) return rule.text;
+    const words = prompt.split(/\s+/).filter(Boolean).length;
+    return `Mock response from ${model}.\n\nThe request contained ${words} words and began with: "${prompt.trim().slice(0, 80)}"`;
+};
+
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+// Hashed bag of words: texts that share words get similar vectors, which is enough to try search offline.
+const mockEmbedding = (text: string): number[] => {
+    const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+        let hash = 2166136261;
+        for (let i = 0; i < word.length; i++) hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+        vector[(hash >>> 0) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+    }
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map(v => v / norm);
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+// A deterministic, offline provider: the same request always yields the same response, so workflows,
+// OCR and follow-up questions can run end to end in CI and in demos without an API key.
+export const createMockProvider = ({ fixture, strict = false, chunkDelayMs = 0 }: MockProviderOptions = {}): ModelProvider => {
+    const recorded = new Map((fixture?.entries ?? []).map(e => [e.key, e.text]));
+
+    const respond = async (key: string, fallback: () => string, prompt: string): Promise<GenerateResult> => {
+        const text = recorded.get(key) ?? (strict ? undefined : fallback());
+        if (text === undefined) throw new ModelRequestError('No recorded response matches this request.', null);
+        const promptTokens = estimateTokens(prompt);
+        const outputTokens = estimateTokens(text);
+        return { text, usage: { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens } };
+    };
+
+    const generate = async (request: GenerateRequest) => {
+        await delay(0, request.signal);
+        const prompt = `${request.systemInstruction ?? ''}${JSON.stringify(request.contents)}`;
+        return respond(await generateRequestKey(request), () => cannedText(request), prompt);
+    };
+
+    return {
+        id: 'mock',
+
+        generate,
+
+        async stream(request, onText) {
+            const result = await generate(request);
+            const pieces = result.text.match(/[\s\S]{1,40}/g) ?? [''];
+            let text = '';
+            for (const piece of pieces) {
+                await delay(chunkDelayMs, request.signal);
+                text += piece;
+                onText(text);
+            }
+            return result;
+        },
+
+        async ocr(request) {
+            await delay(0, request.signal);
+            const sizeKb = Math.round(request.imageBase64.length * 0.75 / 1024);
+            const fallback = () => request.responseJsonSchema
+                ? JSON.stringify(sampleFromSchema(request.responseJsonSchema as JsonSchema), null, 2)
+                : `Mock OCR text recognized from a ${sizeKb} KB ${request.mimeType} image.`;
+            return respond(await ocrRequestKey(request), fallback, request.prompt);
+        },
+
+        async embed(request) {
+            await delay(0, request.signal);
+            const text = recorded.get(await embedRequestKey(request))
+                ?? (strict ? undefined : JSON.stringify(request.texts.map(mockEmbedding)));
+            if (text === undefined) throw new ModelRequestError('No recorded response matches this request.', null);
+            return { vectors: JSON.parse(text), characters: characterCount(request.texts) };
+        },
+
+        countTokens: async (_model, contents) => estimateTokens(typeof contents === 'string' ? contents : contents.map(t => t.text).join('\n')),
+    };
+};
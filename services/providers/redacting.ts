@@ -0,0 +1,31 @@
+import { GenerateRequest, GenerateResult, ModelProvider, ModelTurn } from '../modelProvider';
+import { RedactionError, Redactor } from '../redaction';
+
+// Redacts every text before it reaches `inner` (document, prompts, chat and texts to embed alike) and puts the
+// original values back into the answers, so the rest of the app only ever sees real values. Page images
+// cannot be redacted: OCR is refused unless `allowOcrImages` is set.
+export const createRedactingProvider = (inner: ModelProvider, redactor: Redactor, allowOcrImages: boolean): ModelProvider => {
+    const redactContents = (contents: string | ModelTurn[]): string | ModelTurn[] =>
+        typeof contents === 'string' ? redactor.redact(contents) : contents.map(turn => ({ ...turn, text: redactor.redact(turn.text) }));
+
+    const redactRequest = (request: GenerateRequest): GenerateRequest => ({
+        ...request,
+        contents: redactContents(request.contents),
+        systemInstruction: request.systemInstruction && redactor.redact(request.systemInstruction),
+    });
+
+    const restore = (text: string, request: GenerateRequest) => redactor.restore(text, request.responseMimeType === 'application/json');
+    const restoreResult = (result: GenerateResult, request: GenerateRequest): GenerateResult => ({ ...result, text: restore(result.text, request) });
+
+    return {
+        id: inner.id,
+        generate: async request => restoreResult(await inner.generate(redactRequest(request)), request),
+        stream: async (request, onText) =>
+            restoreResult(await inner.stream(redactRequest(request), text => onText(restore(text, request))), request),
+        ocr: request => allowOcrImages
+            ? inner.ocr(request)
+            : Promise.reject(new RedactionError('Redaction is on: page images cannot be redacted, so they are not sent for OCR.')),
+        countTokens: (model, contents) => inner.countTokens(model, redactContents(contents)),
+        embed: request => inner.embed({ ...request, texts: request.texts.map(text => redactor.redact(text)) }),
+    };
+};
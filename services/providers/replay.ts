@@ -0,0 +1,110 @@
+import { JsonSchema } from '../../types';
+import { hashText } from '../hashing';
+import { EmbedRequest, GenerateRequest, GenerateResult, ModelProvider, OcrRequest } from '../modelProvider';
+import { validateAgainstSchema } from '../schemaValidation';
+
+const FILE_FORMAT = 'cogniflow-model-replay';
+const FILE_FORMAT_VERSION = 1;
+
+export interface ReplayEntry {
+    key: string;
+    // What was asked, kept only so a fixture file can be read and edited by hand.
+    summary: string;
+    text: string;
+}
+
+export interface ReplayFixture {
+    format: typeof FILE_FORMAT;
+    formatVersion: number;
+    entries: ReplayEntry[];
+}
+
+const REPLAY_FIXTURE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        format: { type: 'string', enum: [FILE_FORMAT] },
+        formatVersion: { type: 'integer', maximum: FILE_FORMAT_VERSION },
+        entries: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { key: { type: 'string' }, summary: { type: 'string' }, text: { type: 'string' } },
+                required: ['key', 'text'],
+            },
+        },
+    },
+    required: ['format', 'formatVersion', 'entries'],
+};
+
+// Only the parts that decide what the model answers go into the key; signals and generation settings do not.
+export const generateRequestKey = ({ model, contents, systemInstruction, responseJsonSchema }: GenerateRequest): Promise<string> =>
+    hashText(JSON.stringify(['generate', model, contents, systemInstruction ?? null, responseJsonSchema ?? null]));
+
+export const ocrRequestKey = ({ model, imageBase64, prompt }: OcrRequest): Promise<string> =>
+    hashText(JSON.stringify(['ocr', model, prompt, imageBase64]));
+
+export const embedRequestKey = ({ model, texts, task, dimensions }: EmbedRequest): Promise<string> =>
+    hashText(JSON.stringify(['embed', model, task, dimensions ?? null, texts]));
+
+const summarize = (contents: GenerateRequest['contents']): string => {
+    const text = typeof contents === 'string' ? contents : contents[contents.length - 1]?.text ?? '';
+    return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+};
+
+export const parseReplayFixture = (text: string): ReplayFixture => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`The replay file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const issues = validateAgainstSchema(data, REPLAY_FIXTURE_SCHEMA);
+    if (issues.length > 0) throw new Error(`The replay file is not valid: ${issues.join('; ')}`);
+    return data as ReplayFixture;
+};
+
+export interface RecordingProvider extends ModelProvider {
+    readonly entryCount: number;
+    toFixture(): ReplayFixture;
+}
+
+// Passes every call through to `inner` and keeps the final responses, so a live session can be
+// saved as a fixture and replayed later by the mock provider without a key or network.
+export const createRecordingProvider = (inner: ModelProvider): RecordingProvider => {
+    const entries = new Map<string, ReplayEntry>();
+    const record = (key: string, summary: string, result: GenerateResult) => {
+        entries.set(key, { key, summary, text: result.text });
+        return result;
+    };
+
+    return {
+        id: inner.id,
+        get entryCount() { return entries.size; },
+        toFixture: () => ({ format: FILE_FORMAT, formatVersion: FILE_FORMAT_VERSION, entries: [...entries.values()] }),
+
+        async generate(request) {
+            const result = await inner.generate(request);
+            return record(await generateRequestKey(request), summarize(request.contents), result);
+        },
+
+        async stream(request, onText) {
+            const result = await inner.stream(request, onText);
+            return record(await generateRequestKey(request), summarize(request.contents), result);
+        },
+
+        async ocr(request) {
+            const result = await inner.ocr(request);
+            return record(await ocrRequestKey(request), `OCR: ${request.prompt}`, result);
+        },
+
+        // Vectors are kept as JSON text, so embedding entries fit the same fixture format.
+        async embed(request) {
+            const result = await inner.embed(request);
+            const key = await embedRequestKey(request);
+            entries.set(key, { key, summary: `Embed (${request.task}): ${summarize(request.texts.join(' | '))}`, text: JSON.stringify(result.vectors) });
+            return result;
+        },
+
+        countTokens: (model, contents) => inner.countTokens(model, contents),
+    };
+};
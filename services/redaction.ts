@@ -0,0 +1,161 @@
+import { PiiDetector, RedactionSettings } from '../types';
+import { phraseSource, WORD_END, WORD_START } from './keywordMatching';
+
+// Names cannot be told apart from other capitalized words by pattern, so people are found by title and by
+// the names listed in the dictionary.
+export const DEFAULT_PII_DETECTORS: PiiDetector[] = [
+    { id: 'email', label: 'EMAIL', kind: 'regex', pattern: '[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+', enabled: true },
+    // Phone numbers need a country code, an area code in parentheses, a leading trunk 0 or North American
+    // grouping, so years and amounts in a row ("1999 2000 2001") are left alone.
+    { id: 'phone', label: 'PHONE', kind: 'regex', pattern: '(?<![\\w+])(?:\\+\\d{1,3}[ .-]?(?:\\(\\d{1,4}\\)|\\d{1,4})(?:[ .-]?\\d{2,4}){1,4}|\\(\\d{2,4}\\)[ .-]?\\d{3,4}[ .-]?\\d{3,4}|0\\d{1,3}[ .-]\\d{3,4}[ .-]?\\d{3,4}|09\\d{8}|[2-9]\\d{2}([.-])[2-9]\\d{2}\\1\\d{4})(?!\\d)', enabled: true },
+    { id: 'national-id', label: 'NATIONAL_ID', kind: 'regex', pattern: '\\b(?:\\d{3}-\\d{2}-\\d{4}|[A-Z][12]\\d{8})\\b', enabled: true },
+    { id: 'iban', label: 'ACCOUNT', kind: 'regex', pattern: '\\b[A-Z]{2}\\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\\b', enabled: true },
+    // Card numbers must also pass the Luhn check, see MATCH_CHECKS.
+    { id: 'card', label: 'ACCOUNT', kind: 'regex', pattern: '(?<!\\d)\\d(?:[ -]?\\d){12,18}(?!\\d)', enabled: true },
+    { id: 'person-title', label: 'PERSON', kind: 'regex', pattern: '\\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\\.? [A-Z][a-z]+(?: [A-Z][a-z]+)*', enabled: true },
+    { id: 'person-names', label: 'PERSON', kind: 'dictionary', terms: [], enabled: true },
+];
+
+// The check digit of card numbers: every second digit from the right is doubled.
+const passesLuhn = (value: string): boolean => {
+    const digits = value.replace(/\D/g, '');
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+// Checks a pattern cannot express, by detector id. They also apply when the pattern has been edited.
+const MATCH_CHECKS: Record<string, (value: string) => boolean> = {
+    card: passesLuhn,
+};
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = { enabled: false, detectors: DEFAULT_PII_DETECTORS, allowOcrImages: false };
+
+export class RedactionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RedactionError';
+    }
+}
+
+export interface PiiMatch {
+    start: number;
+    end: number;
+    label: string;
+}
+
+export interface RedactionEntry {
+    placeholder: string;
+    label: string;
+    value: string;
+}
+
+// A dictionary without terms matches nothing. Throws a SyntaxError for an invalid pattern.
+const detectorRegExp = (detector: PiiDetector): RegExp | null => {
+    if (detector.kind === 'dictionary') {
+        const terms = (detector.terms ?? []).filter(t => t.trim()).map(phraseSource);
+        return terms.length ? new RegExp(`${WORD_START}(?:${terms.join('|')})${WORD_END}`, 'giu') : null;
+    }
+    return detector.pattern ? new RegExp(detector.pattern, 'gu') : null;
+};
+
+// The reason a detector cannot be used, or null when it is fine.
+export const detectorError = (detector: PiiDetector): string | null => {
+    try {
+        detectorRegExp(detector);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+};
+
+// Placeholder names are upper-case words, so they cannot be mistaken for document text.
+export const normalizeLabel = (label: string): string => label.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'PII';
+
+// Where matches overlap, the one that starts first wins, then the longer one. Invalid detectors, empty matches
+// and matches that fail their detector's check are skipped.
+export const findPii = (text: string, detectors: PiiDetector[]): PiiMatch[] => {
+    const found: PiiMatch[] = [];
+    for (const detector of detectors) {
+        if (!detector.enabled) continue;
+        let regex: RegExp | null;
+        try {
+            regex = detectorRegExp(detector);
+        } catch {
+            continue;
+        }
+        if (!regex) continue;
+        const check = MATCH_CHECKS[detector.id];
+        for (let m = regex.exec(text); m; m = regex.exec(text)) {
+            if (m[0].length === 0) {
+                regex.lastIndex++;
+                continue;
+            }
+            if (check && !check(m[0])) continue;
+            found.push({ start: m.index, end: m.index + m[0].length, label: normalizeLabel(detector.label) });
+        }
+    }
+    found.sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const matches: PiiMatch[] = [];
+    let lastEnd = 0;
+    for (const match of found) {
+        if (match.start < lastEnd) continue;
+        matches.push(match);
+        lastEnd = match.end;
+    }
+    return matches;
+};
+
+const PLACEHOLDER = /\[[A-Z0-9_]+_\d+\]/g;
+
+export interface Redactor {
+    redact(text: string): string;
+    // Puts the original values back. In JSON text they are escaped, so the JSON still parses.
+    restore(text: string, json?: boolean): string;
+    // Every value replaced so far, in order of first appearance.
+    entries(): RedactionEntry[];
+}
+
+// The same value always gets the same placeholder, in every text this redactor sees; numbering is per label.
+// The mapping only lives here, in the browser.
+export const createRedactor = (detectors: PiiDetector[]): Redactor => {
+    const byValue = new Map<string, RedactionEntry>();
+    const byPlaceholder = new Map<string, RedactionEntry>();
+    const counts = new Map<string, number>();
+
+    const placeholderFor = (label: string, value: string): string => {
+        const key = `${label}\u0000${value}`;
+        let entry = byValue.get(key);
+        if (!entry) {
+            const n = (counts.get(label) ?? 0) + 1;
+            counts.set(label, n);
+            entry = { placeholder: `[${label}_${n}]`, label, value };
+            byValue.set(key, entry);
+            byPlaceholder.set(entry.placeholder, entry);
+        }
+        return entry.placeholder;
+    };
+
+    return {
+        redact(text) {
+            let result = '';
+            let last = 0;
+            for (const { start, end, label } of findPii(text, detectors)) {
+                result += text.slice(last, start) + placeholderFor(label, text.slice(start, end));
+                last = end;
+            }
+            return result + text.slice(last);
+        },
+        restore: (text, json = false) => text.replace(PLACEHOLDER, placeholder => {
+            const entry = byPlaceholder.get(placeholder);
+            if (!entry) return placeholder;
+            return json ? JSON.stringify(entry.value).slice(1, -1) : entry.value;
+        }),
+        entries: () => Array.from(byValue.values()),
+    };
+};
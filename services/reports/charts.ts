@@ -0,0 +1,115 @@
+import { ChartDatum, NetworkGraph, widgetColor } from '../dashboardWidgets';
+
+// A chart as standalone SVG. HTML and Markdown reports embed it as is; PDF and DOCX get a PNG of it.
+export interface ReportChart {
+    svg: string;
+    width: number;
+    height: number;
+}
+
+const FONT = 'font-family="Helvetica, Arial, sans-serif"';
+
+export const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+const svg = (width: number, height: number, body: string): ReportChart => ({
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ${FONT}><rect width="100%" height="100%" fill="#ffffff"/>${body}</svg>`,
+    width,
+    height,
+});
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export const barChartSvg = (data: ChartDatum[]): ReportChart => {
+    const width = 520;
+    const height = 260;
+    const left = 44;
+    const bottom = 56;
+    const top = 16;
+    const plotHeight = height - top - bottom;
+    const max = Math.max(...data.map(d => d.value), 0) || 1;
+    const slot = (width - left - 10) / data.length;
+    const ticks = [0, 0.25, 0.5, 0.75, 1].map(f => max * f);
+    const axis = ticks.map(t => {
+        const y = round(top + plotHeight - (t / max) * plotHeight);
+        return `<line x1="${left}" y1="${y}" x2="${width - 10}" y2="${y}" stroke="#e5e7eb"/><text x="${left - 6}" y="${y + 4}" font-size="10" text-anchor="end" fill="#6b7280">${round(t)}</text>`;
+    }).join('');
+    const bars = data.map((d, i) => {
+        const barHeight = Math.max(0, (d.value / max) * plotHeight);
+        const x = round(left + i * slot + slot * 0.15);
+        const y = round(top + plotHeight - barHeight);
+        const labelX = round(left + i * slot + slot / 2);
+        return `<rect x="${x}" y="${y}" width="${round(slot * 0.7)}" height="${round(barHeight)}" fill="${widgetColor(d.label, i)}"/>`
+            + `<text x="${labelX}" y="${y - 3}" font-size="10" text-anchor="middle" fill="#374151">${round(d.value)}</text>`
+            + `<text x="${labelX}" y="${height - bottom + 14}" font-size="10" text-anchor="end" fill="#374151" transform="rotate(-30 ${labelX} ${height - bottom + 14})">${escapeXml(truncate(d.label, 18))}</text>`;
+    }).join('');
+    return svg(width, height, axis + bars);
+};
+
+export const pieChartSvg = (data: ChartDatum[]): ReportChart => {
+    const width = 520;
+    const height = 240;
+    const cx = 120;
+    const cy = 120;
+    const r = 96;
+    const total = data.reduce((sum, d) => sum + Math.max(0, d.value), 0) || 1;
+    let angle = -Math.PI / 2;
+    const slices = data.map((d, i) => {
+        const share = Math.max(0, d.value) / total;
+        const color = widgetColor(d.label, i);
+        if (share >= 0.9999) return `<circle cx="${cx}" cy="${cy}" r="${r}" fill="${color}"/>`;
+        const start = angle;
+        angle += share * 2 * Math.PI;
+        const [x1, y1, x2, y2] = [cx + r * Math.cos(start), cy + r * Math.sin(start), cx + r * Math.cos(angle), cy + r * Math.sin(angle)].map(round);
+        return `<path d="M${cx},${cy} L${x1},${y1} A${r},${r} 0 ${share > 0.5 ? 1 : 0} 1 ${x2},${y2} Z" fill="${color}"/>`;
+    }).join('');
+    const legend = data.map((d, i) => {
+        const y = 30 + i * 20;
+        return `<rect x="250" y="${y - 10}" width="12" height="12" fill="${widgetColor(d.label, i)}"/>`
+            + `<text x="268" y="${y}" font-size="12" fill="#374151">${escapeXml(truncate(d.label, 28))} — ${round((Math.max(0, d.value) / total) * 100)}%</text>`;
+    }).join('');
+    return svg(width, Math.max(height, 40 + data.length * 20), slices + legend);
+};
+
+// Nodes on a circle, edges as straight lines, as in the dashboard.
+export const networkSvg = ({ nodes, edges }: NetworkGraph): ReportChart => {
+    const size = 420;
+    const center = size / 2;
+    const radius = center - 70;
+    const points = nodes.map((_, i) => {
+        const angle = (2 * Math.PI * i) / nodes.length - Math.PI / 2;
+        return { x: round(center + radius * Math.cos(angle)), y: round(center + radius * Math.sin(angle)) };
+    });
+    const lines = edges.map(([a, b]) => `<line x1="${points[a].x}" y1="${points[a].y}" x2="${points[b].x}" y2="${points[b].y}" stroke="#9ca3af"/>`).join('');
+    const dots = nodes.map((node, i) => `<circle cx="${points[i].x}" cy="${points[i].y}" r="5" fill="${widgetColor(node, i)}"/>`
+        + `<text x="${points[i].x}" y="${points[i].y - 9}" font-size="10" text-anchor="middle" fill="#374151">${escapeXml(truncate(node, 24))}</text>`).join('');
+    return svg(size, size, lines + dots);
+};
+
+export const chartDataUrl = (chart: ReportChart): string => {
+    let binary = '';
+    for (const byte of new TextEncoder().encode(chart.svg)) binary += String.fromCharCode(byte);
+    return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+// A PNG data URL of the chart, drawn through an <img> onto a canvas. Browser only.
+export const rasterizeChart = (chart: ReportChart, scale = 2): Promise<string> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = chart.width * scale;
+        canvas.height = chart.height * scale;
+        const context = canvas.getContext('2d');
+        if (!context) {
+            reject(new Error('Canvas is not available.'));
+            return;
+        }
+        context.scale(scale, scale);
+        context.drawImage(image, 0, 0, chart.width, chart.height);
+        resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => reject(new Error('The chart could not be drawn.'));
+    image.src = chartDataUrl(chart);
+});
@@ -0,0 +1,103 @@
+import { createZipArchive } from '../loaders/zipArchive';
+import { rasterizeChart } from './charts';
+import { Report, ReportBlock, TextRun } from './report';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+// A4 with 18 mm margins, in twentieths of a point; the width left for text and tables.
+const PAGE = '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1020" w:right="1020" w:bottom="1020" w:left="1020" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr>';
+const TEXT_WIDTH = 9866;
+// Charts are drawn at 96 dpi and scaled down to at most 6 inches; DrawingML measures in EMU.
+const EMU_PER_PIXEL = 9525;
+const MAX_CHART_EMU = 6 * 914400;
+const BORDER = '<w:top w:val="single" w:sz="4" w:color="D1D5DB"/><w:left w:val="single" w:sz="4" w:color="D1D5DB"/><w:bottom w:val="single" w:sz="4" w:color="D1D5DB"/><w:right w:val="single" w:sz="4" w:color="D1D5DB"/><w:insideH w:val="single" w:sz="4" w:color="D1D5DB"/><w:insideV w:val="single" w:sz="4" w:color="D1D5DB"/>';
+
+// XML 1.0 has no escape for most control characters, so they are dropped.
+const escapeText = (text: string) => text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Line breaks inside a run become <w:br/>.
+const run = ({ text, bold, color }: TextRun): string => {
+    const hex = color && /^#[0-9a-f]{6}$/i.test(color) ? color.slice(1) : null;
+    const properties = bold || hex ? `<w:rPr>${bold ? '<w:b/>' : ''}${hex ? `<w:color w:val="${hex}"/>` : ''}</w:rPr>` : '';
+    const content = text.split('\n').map(line => `<w:t xml:space="preserve">${escapeText(line)}</w:t>`).join('<w:br/>');
+    return `<w:r>${properties}${content}</w:r>`;
+};
+
+const paragraph = (runs: TextRun[], style?: string) =>
+    `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${runs.map(run).join('')}</w:p>`;
+
+const tableXml = (rows: string[][], columnShares: number[], hasHeader: boolean) => {
+    const widths = columnShares.map(share => Math.floor(share * TEXT_WIDTH));
+    const body = rows.map((row, r) => {
+        const header = hasHeader && r === 0;
+        const cells = widths.map((w, c) => {
+            const bold = header || (!hasHeader && c === 0);
+            const shading = header ? '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : '';
+            return `<w:tc><w:tcPr><w:tcW w:w="${w}" w:type="dxa"/>${shading}</w:tcPr>${paragraph([{ text: row[c] ?? '', bold }], 'TableText')}</w:tc>`;
+        }).join('');
+        // Header rows repeat at the top of every page the table runs onto.
+        return `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells}</w:tr>`;
+    }).join('');
+    return `<w:tbl><w:tblPr><w:tblW w:w="${TEXT_WIDTH}" w:type="dxa"/><w:tblBorders>${BORDER}</w:tblBorders><w:tblLayout w:type="fixed"/><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr>`
+        + `<w:tblGrid>${widths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>${body}</w:tbl><w:p/>`;
+};
+
+const drawing = (index: number, title: string, width: number, height: number) => {
+    const cx = Math.min(MAX_CHART_EMU, width * EMU_PER_PIXEL);
+    const cy = Math.round((height / width) * cx);
+    const id = index + 1;
+    return `<w:p><w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Chart ${id}" descr="${escapeText(title)}"/>`
+        + '<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">'
+        + `<pic:nvPicPr><pic:cNvPr id="${id}" name="chart${id}.png"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="rIdChart${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+        + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>`;
+};
+
+const STYLES = `${XML_HEADER}<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">`
+    + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Microsoft JhengHei" w:cs="Calibri"/><w:sz w:val="21"/><w:szCs w:val="21"/><w:color w:val="1F2937"/></w:rPr></w:rPrDefault>'
+    + '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+    + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>'
+    + [[1, 36], [2, 28], [3, 23]].map(([level, size]) => `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>`
+        + `<w:pPr><w:keepNext/><w:spacing w:before="${level === 1 ? 0 : 240}" w:after="80"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`).join('')
+    + '<w:style w:type="paragraph" w:customStyle="1" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:spacing w:after="120" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:sz w:val="17"/><w:szCs w:val="17"/><w:color w:val="374151"/></w:rPr></w:style>'
+    + '<w:style w:type="paragraph" w:customStyle="1" w:styleId="ListItem"><w:name w:val="List Item"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="40"/><w:ind w:left="360" w:hanging="240"/></w:pPr></w:style>'
+    + '<w:style w:type="paragraph" w:customStyle="1" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="20" w:after="20"/></w:pPr><w:rPr><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>'
+    + '</w:styles>';
+
+const pngBytes = (dataUrl: string) => Uint8Array.from(atob(dataUrl.slice(dataUrl.indexOf(',') + 1)), c => c.charCodeAt(0));
+
+// A Word document with the smallest set of parts Word, LibreOffice and Google Docs accept. Charts are embedded
+// as PNGs, so this runs in the browser only.
+export const reportToDocx = async (report: Report): Promise<Blob> => {
+    const media: [string, Uint8Array][] = [];
+    const blockXml = async (block: ReportBlock): Promise<string> => {
+        switch (block.type) {
+            case 'heading': return paragraph([{ text: block.text }], `Heading${block.level}`);
+            case 'paragraph': return paragraph(block.runs);
+            case 'preformatted': return paragraph([{ text: block.text }], 'Code');
+            case 'fields': return tableXml(block.pairs, [0.3, 0.7], false);
+            case 'list': return block.items.map(item => paragraph([{ text: `•\t${item}` }], 'ListItem')).join('');
+            case 'table': {
+                const columns = Math.max(...block.rows.map(r => r.length));
+                return tableXml(block.rows, Array(columns).fill(1 / columns), true);
+            }
+            case 'chart': {
+                media.push([`word/media/chart${media.length + 1}.png`, pngBytes(await rasterizeChart(block.chart))]);
+                return drawing(media.length - 1, block.title, block.chart.width, block.chart.height);
+            }
+        }
+    };
+    const body: string[] = [];
+    for (const block of report.blocks) body.push(await blockXml(block));
+
+    const relationships = media.map((_, i) => `<Relationship Id="rIdChart${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/chart${i + 1}.png"/>`).join('');
+    return createZipArchive([
+        ['[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`],
+        ['_rels/.rels', `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`],
+        ['docProps/core.xml', `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>${escapeText(report.title)}</dc:title></cp:coreProperties>`],
+        ['word/document.xml', `${XML_HEADER}<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"><w:body>${body.join('')}${PAGE}</w:body></w:document>`],
+        ['word/styles.xml', STYLES],
+        ['word/_rels/document.xml.rels', `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>${relationships}</Relationships>`],
+        ...media,
+    ], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+};
@@ -0,0 +1,43 @@
+import { jsPDF } from 'jspdf';
+import regularFontUrl from '@expo-google-fonts/noto-sans-tc/400Regular/NotoSansTC_400Regular.ttf?url';
+import boldFontUrl from '@expo-google-fonts/noto-sans-tc/700Bold/NotoSansTC_700Bold.ttf?url';
+
+export const UNICODE_FONT = 'NotoSansTC';
+
+// What the built-in PDF fonts can draw: Latin-1 and the extra punctuation of Windows-1252.
+const BUILT_IN_FONT_TEXT = /^[\t\n\r\u0020-\u007e\u00a0-\u00ff€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]*$/u;
+
+export const needsUnicodeFont = (texts: string[]): boolean => texts.some(text => !BUILT_IN_FONT_TEXT.test(text));
+
+interface FontFiles {
+    normal: string;
+    bold: string;
+}
+
+let loading: Promise<FontFiles> | null = null;
+
+const fetchBase64 = async (url: string): Promise<string> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`The PDF font could not be loaded (HTTP ${response.status}).`);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    let binary = '';
+    // In slices: String.fromCharCode takes the bytes as arguments.
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+// Noto Sans TC covers Latin, Traditional Chinese and common symbols. Each weight is about 7 MB, so the files
+// are only fetched for the first report that needs them; jsPDF embeds just the glyphs a report uses.
+export const addUnicodeFont = async (pdf: jsPDF): Promise<void> => {
+    loading ??= Promise.all([fetchBase64(regularFontUrl), fetchBase64(boldFontUrl)])
+        .then(([normal, bold]) => ({ normal, bold }))
+        .catch(error => {
+            loading = null;
+            throw error;
+        });
+    const files = await loading;
+    for (const style of ['normal', 'bold'] as const) {
+        pdf.addFileToVFS(`${UNICODE_FONT}-${style}.ttf`, files[style]);
+        pdf.addFont(`${UNICODE_FONT}-${style}.ttf`, UNICODE_FONT, style);
+    }
+};
@@ -0,0 +1,46 @@
+import { escapeXml } from './charts';
+import { Report, ReportBlock, TextRun } from './report';
+
+const STYLE = `body{font-family:Helvetica,Arial,sans-serif;color:#1f2937;max-width:860px;margin:2rem auto;padding:0 1rem;line-height:1.5}
+h1{font-size:1.8rem;border-bottom:2px solid #e5e7eb;padding-bottom:.3rem}h2{font-size:1.3rem;margin-top:2rem;border-bottom:1px solid #e5e7eb}h3{font-size:1.05rem;margin-top:1.2rem}
+pre{background:#f3f4f6;padding:.75rem;border-radius:6px;white-space:pre-wrap;font-size:.85rem}
+table{border-collapse:collapse;font-size:.9rem;margin:.5rem 0}th,td{border:1px solid #d1d5db;padding:.25rem .5rem;text-align:left;vertical-align:top}th{background:#f3f4f6}
+dl{display:grid;grid-template-columns:max-content 1fr;gap:.2rem 1rem}dt{font-weight:bold}dd{margin:0}
+figure{margin:1rem 0}figure svg{max-width:100%;height:auto}p{white-space:pre-wrap}`;
+
+const runsToHtml = (runs: TextRun[]) => runs.map(r => {
+    const text = escapeXml(r.text);
+    if (!r.bold && !r.color) return text;
+    return `<span style="${r.bold ? 'font-weight:bold;' : ''}${r.color ? `color:${escapeXml(r.color)};` : ''}">${text}</span>`;
+}).join('');
+
+const blockToHtml = (block: ReportBlock): string => {
+    switch (block.type) {
+        case 'heading': return `<h${block.level}>${escapeXml(block.text)}</h${block.level}>`;
+        case 'paragraph': return `<p>${runsToHtml(block.runs)}</p>`;
+        case 'preformatted': return `<pre>${escapeXml(block.text)}</pre>`;
+        case 'fields': return `<dl>${block.pairs.map(([key, value]) => `<dt>${escapeXml(key)}</dt><dd>${escapeXml(value)}</dd>`).join('')}</dl>`;
+        case 'list': return `<ul>${block.items.map(item => `<li>${escapeXml(item)}</li>`).join('')}</ul>`;
+        case 'table': {
+            const [header, ...rows] = block.rows;
+            return `<table><thead><tr>${header.map(c => `<th>${escapeXml(c)}</th>`).join('')}</tr></thead>`
+                + `<tbody>${rows.map(row => `<tr>${row.map(c => `<td>${escapeXml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+        }
+        case 'chart': return `<figure role="img" aria-label="${escapeXml(block.title)}">${block.chart.svg}</figure>`;
+    }
+};
+
+// One file with its styles and charts inline, so it opens anywhere and can be printed or mailed as is.
+export const reportToHtml = (report: Report): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(report.title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${report.blocks.map(blockToHtml).join('\n')}
+</body>
+</html>
+`;
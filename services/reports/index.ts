@@ -0,0 +1,25 @@
+import { ReportFormat } from '../../types';
+import { reportToDocx } from './docx';
+import { reportToHtml } from './html';
+import { reportToMarkdown } from './markdown';
+import { reportToPdf } from './pdf';
+import { Report } from './report';
+
+export { buildReport, DEFAULT_REPORT_TEMPLATE, REPORT_SECTIONS } from './report';
+export type { Report, ReportDashboardGroup, ReportInput } from './report';
+
+export const REPORT_FORMATS: Record<ReportFormat, { extension: string; mimeType: string }> = {
+    pdf: { extension: 'pdf', mimeType: 'application/pdf' },
+    docx: { extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+    html: { extension: 'html', mimeType: 'text/html;charset=utf-8' },
+    md: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+};
+
+export const renderReport = async (report: Report, format: ReportFormat): Promise<Blob> => {
+    switch (format) {
+        case 'pdf': return reportToPdf(report);
+        case 'docx': return reportToDocx(report);
+        case 'html': return new Blob([reportToHtml(report)], { type: REPORT_FORMATS.html.mimeType });
+        case 'md': return new Blob([reportToMarkdown(report)], { type: REPORT_FORMATS.md.mimeType });
+    }
+};
@@ -0,0 +1,34 @@
+import { chartDataUrl } from './charts';
+import { Report, ReportBlock, TextRun } from './report';
+
+// Characters Markdown would otherwise read as formatting.
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>|#])/g, '\\$1');
+
+// Markdown has no colour; highlighted runs are bold.
+const runsToMarkdown = (runs: TextRun[]) => runs.map(r => {
+    const text = escapeMarkdown(r.text);
+    return r.bold && text.trim() ? `**${text}**` : text;
+}).join('');
+
+const tableCell = (cell: string) => escapeMarkdown(cell).replace(/\n/g, '<br>');
+
+// A fence longer than any backtick run in the text, so the text cannot close it.
+const fence = (text: string) => '`'.repeat(Math.max(3, ...Array.from(text.matchAll(/`+/g), m => m[0].length + 1)));
+
+const blockToMarkdown = (block: ReportBlock): string => {
+    switch (block.type) {
+        case 'heading': return `${'#'.repeat(block.level)} ${escapeMarkdown(block.text)}`;
+        case 'paragraph': return runsToMarkdown(block.runs);
+        case 'preformatted': return `${fence(block.text)}\n${block.text}\n${fence(block.text)}`;
+        case 'fields': return block.pairs.map(([key, value]) => `- **${escapeMarkdown(key)}:** ${escapeMarkdown(value)}`).join('\n');
+        case 'list': return block.items.map(item => `- ${escapeMarkdown(item)}`).join('\n');
+        case 'table': {
+            const [header, ...rows] = block.rows;
+            return [header, header.map(() => '---'), ...rows].map(row => `| ${row.map(tableCell).join(' | ')} |`).join('\n');
+        }
+        // An SVG data URL keeps the file self-contained; most Markdown viewers show it.
+        case 'chart': return `![${escapeMarkdown(block.title)}](${chartDataUrl(block.chart)})`;
+    }
+};
+
+export const reportToMarkdown = (report: Report): string => `${report.blocks.map(blockToMarkdown).join('\n\n')}\n`;
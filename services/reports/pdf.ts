@@ -0,0 +1,179 @@
+import { jsPDF } from 'jspdf';
+import { rasterizeChart } from './charts';
+import { addUnicodeFont, needsUnicodeFont, UNICODE_FONT } from './fonts';
+import { Report, ReportBlock, TextRun } from './report';
+
+// A4 portrait, in millimetres.
+const MARGIN = 18;
+const PT_TO_MM = 0.3528;
+const HEADING_SIZES = { 1: 18, 2: 14, 3: 11.5 };
+const BODY_SIZE = 10;
+const TABLE_SIZE = 9;
+const CODE_SIZE = 8.5;
+const CHART_WIDTH = 140;
+
+const lineHeight = (size: number) => size * PT_TO_MM * 1.35;
+
+const blockTexts = (block: ReportBlock): string[] => {
+    switch (block.type) {
+        case 'heading': return [block.text];
+        case 'paragraph': return block.runs.map(run => run.text);
+        case 'preformatted': return [block.text];
+        case 'fields': return block.pairs.flat();
+        case 'table': return block.rows.flat();
+        case 'list': return block.items;
+        // Charts are drawn into an image by the browser, in its own fonts.
+        case 'chart': return [];
+    }
+};
+
+// Real text, not a screenshot: it wraps across pages and can be selected and searched. The built-in PDF fonts
+// only cover Latin text; any other script (such as the zh-TW labels) is written in an embedded Unicode font.
+export const reportToPdf = async (report: Report): Promise<Blob> => {
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+    const unicode = needsUnicodeFont([report.title, ...report.blocks.flatMap(blockTexts)]);
+    if (unicode) await addUnicodeFont(pdf);
+    const textFont = unicode ? UNICODE_FONT : 'helvetica';
+    const codeFont = unicode ? UNICODE_FONT : 'courier';
+    const width = pdf.internal.pageSize.getWidth() - 2 * MARGIN;
+    const bottom = pdf.internal.pageSize.getHeight() - MARGIN;
+    let y = MARGIN;
+
+    // Starts a new page unless `height` still fits on this one.
+    const ensureSpace = (height: number) => {
+        if (y + height > bottom && y > MARGIN) {
+            pdf.addPage();
+            y = MARGIN;
+        }
+    };
+
+    const setStyle = (size: number, bold = false, color = '#1f2937', font = textFont) => {
+        pdf.setFont(font, bold ? 'bold' : 'normal');
+        pdf.setFontSize(size);
+        pdf.setTextColor(color);
+    };
+
+    const writeLines = (lines: string[], size: number, x = MARGIN) => {
+        const height = lineHeight(size);
+        for (const line of lines) {
+            ensureSpace(height);
+            pdf.text(line, x, y + height * 0.75);
+            y += height;
+        }
+    };
+
+    const heading = (text: string, level: 1 | 2 | 3) => {
+        const size = HEADING_SIZES[level];
+        y += level === 1 ? 0 : size * PT_TO_MM * 0.8;
+        // Keeps a heading on the page of the line after it.
+        ensureSpace(lineHeight(size) * 2);
+        setStyle(size, true);
+        writeLines(pdf.splitTextToSize(text, width), size);
+        y += 1.5;
+    };
+
+    // Word by word, so bold and coloured runs can share a line.
+    const paragraph = (runs: TextRun[]) => {
+        const height = lineHeight(BODY_SIZE);
+        let x = MARGIN;
+        const newLine = (count = 1) => {
+            y += height * count;
+            x = MARGIN;
+            ensureSpace(height);
+        };
+        ensureSpace(height);
+        for (const run of runs) {
+            setStyle(BODY_SIZE, run.bold, run.color);
+            for (const token of run.text.split(/(\s+)/)) {
+                if (!token) continue;
+                if (!token.trim()) {
+                    const breaks = token.split('\n').length - 1;
+                    if (breaks > 0) newLine(breaks);
+                    else if (x > MARGIN) x += pdf.getTextWidth(' ');
+                    continue;
+                }
+                // A word wider than the page is broken up.
+                const pieces: string[] = pdf.getTextWidth(token) > width ? pdf.splitTextToSize(token, width) : [token];
+                for (const piece of pieces) {
+                    const pieceWidth = pdf.getTextWidth(piece);
+                    if (x + pieceWidth > MARGIN + width && x > MARGIN) newLine();
+                    pdf.text(piece, x, y + height * 0.75);
+                    x += pieceWidth;
+                }
+            }
+        }
+        y += height + 2;
+    };
+
+    const preformatted = (text: string) => {
+        setStyle(CODE_SIZE, false, '#374151', codeFont);
+        writeLines(pdf.splitTextToSize(text, width - 4), CODE_SIZE, MARGIN + 2);
+        y += 2;
+    };
+
+    const list = (items: string[]) => {
+        for (const item of items) {
+            setStyle(BODY_SIZE);
+            ensureSpace(lineHeight(BODY_SIZE));
+            pdf.text('•', MARGIN + 1, y + lineHeight(BODY_SIZE) * 0.75);
+            writeLines(pdf.splitTextToSize(item, width - 5), BODY_SIZE, MARGIN + 5);
+        }
+        y += 2;
+    };
+
+    // Rows move to the next page whole, and the header row is repeated there. Field tables have no header.
+    const table = (rows: string[][], columnShares?: number[]) => {
+        const hasHeader = !columnShares;
+        const columns = Math.max(...rows.map(r => r.length));
+        const widths = (columnShares ?? Array(columns).fill(1 / columns)).map(share => share * width);
+        const rowLine = lineHeight(TABLE_SIZE);
+        const measure = (row: string[], bold: boolean) => {
+            setStyle(TABLE_SIZE, bold);
+            const cells = widths.map((w, i) => pdf.splitTextToSize(row[i] ?? '', w - 3) as string[]);
+            return { cells, height: Math.max(...cells.map(c => c.length)) * rowLine + 2, bold };
+        };
+        const draw = ({ cells, height, bold }: ReturnType<typeof measure>) => {
+            setStyle(TABLE_SIZE, bold);
+            pdf.setDrawColor('#d1d5db');
+            pdf.setFillColor('#f3f4f6');
+            let x = MARGIN;
+            cells.forEach((lines, i) => {
+                pdf.rect(x, y, widths[i], height, bold ? 'FD' : 'S');
+                lines.forEach((line, l) => pdf.text(line, x + 1.5, y + 1 + rowLine * (l + 0.75)));
+                x += widths[i];
+            });
+            y += height;
+        };
+        rows.forEach((row, r) => {
+            const measured = measure(row, hasHeader && r === 0);
+            if (y + measured.height > bottom && y > MARGIN) {
+                pdf.addPage();
+                y = MARGIN;
+                if (hasHeader && r > 0) draw(measure(rows[0], true));
+            }
+            draw(measured);
+        });
+        y += 3;
+    };
+
+    const image = (dataUrl: string, chartWidth: number, chartHeight: number) => {
+        const w = Math.min(CHART_WIDTH, width);
+        const h = (chartHeight / chartWidth) * w;
+        ensureSpace(h);
+        pdf.addImage(dataUrl, 'PNG', MARGIN, y, w, h);
+        y += h + 3;
+    };
+
+    for (const block of report.blocks) {
+        switch (block.type) {
+            case 'heading': heading(block.text, block.level); break;
+            case 'paragraph': paragraph(block.runs); break;
+            case 'preformatted': preformatted(block.text); break;
+            case 'fields': table(block.pairs, [0.3, 0.7]); break;
+            case 'list': list(block.items); break;
+            case 'table': table(block.rows); break;
+            case 'chart': image(await rasterizeChart(block.chart), block.chart.width, block.chart.height); break;
+        }
+    }
+    return pdf.output('blob');
+};
@@ -0,0 +1,209 @@
+import { Agent, AgentStatus, DashboardWidget, DocumentFile, Keyword, ReportSectionKind, ReportTemplate } from '../../types';
+import { chartData, keyValuePairs, networkGraph, timelineEvents, valueAtPath, widgetItems, widgetTable } from '../dashboardWidgets';
+import { firstMatchAfter, KeywordMatches } from '../keywordMatching';
+import { barChartSvg, networkSvg, pieChartSvg, ReportChart } from './charts';
+
+export interface TextRun {
+    text: string;
+    bold?: boolean;
+    // Hex colour, e.g. of a keyword.
+    color?: string;
+}
+
+// The format-neutral content of a report; each writer turns these blocks into its own markup.
+export type ReportBlock =
+    | { type: 'heading'; level: 1 | 2 | 3; text: string }
+    | { type: 'paragraph'; runs: TextRun[] }
+    | { type: 'preformatted'; text: string }
+    | { type: 'fields'; pairs: [string, string][] }
+    // Header row first.
+    | { type: 'table'; rows: string[][] }
+    | { type: 'list'; items: string[] }
+    | { type: 'chart'; title: string; chart: ReportChart };
+
+export interface Report {
+    title: string;
+    blocks: ReportBlock[];
+}
+
+export interface ReportDashboardGroup {
+    name: string;
+    widgets: { widget: DashboardWidget; output: unknown }[];
+}
+
+export interface ReportInput {
+    document: DocumentFile;
+    // The agents' results for this document.
+    agents: Agent[];
+    dashboard: ReportDashboardGroup[];
+    followUpQuestions: string | null;
+    keywords: Keyword[];
+    keywordMatches: KeywordMatches;
+    generatedAt: Date;
+}
+
+export const REPORT_SECTIONS: ReportSectionKind[] = ['metadata', 'agents', 'dashboard', 'followUp', 'keywords', 'document'];
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+    title: '',
+    sections: ['metadata', 'agents', 'dashboard', 'followUp', 'keywords'],
+    agentFields: { prompt: true, model: true, output: true },
+};
+
+// Passages shown per keyword, with this many characters of context on each side.
+const KEYWORD_EXCERPTS = 3;
+const EXCERPT_CONTEXT = 80;
+
+const paragraph = (text: string): ReportBlock => ({ type: 'paragraph', runs: [{ text }] });
+const caption = (text: string): ReportBlock => ({ type: 'paragraph', runs: [{ text, bold: true }] });
+
+// Agent outputs are mostly Markdown-ish prose; blank lines separate paragraphs. JSON output stays verbatim.
+const outputBlocks = (agent: Agent): ReportBlock[] => {
+    if (agent.outputJson !== null && agent.outputJson !== undefined) return [{ type: 'preformatted', text: JSON.stringify(agent.outputJson, null, 2) }];
+    return (agent.output ?? '').split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).map(paragraph);
+};
+
+const widgetBlocks = ({ widget, output }: ReportDashboardGroup['widgets'][number]): ReportBlock[] => {
+    const data = valueAtPath(output, widget.path);
+    const items = widgetItems(data);
+    const content = ((): ReportBlock | null => {
+        switch (widget.type) {
+            case 'bar':
+            case 'pie': {
+                const points = chartData(widget.fields, items);
+                return points.length ? { type: 'chart', title: widget.title, chart: widget.type === 'pie' ? pieChartSvg(points) : barChartSvg(points) } : null;
+            }
+            case 'network': {
+                const graph = networkGraph(widget.fields, items);
+                return graph.edges.length ? { type: 'chart', title: widget.title, chart: networkSvg(graph) } : null;
+            }
+            case 'table': {
+                const { columns, rows } = widgetTable(widget.fields, items);
+                return rows.length ? { type: 'table', rows: [columns, ...rows] } : null;
+            }
+            case 'timeline': {
+                const events = timelineEvents(widget.fields, items);
+                const { date = 'date', label = 'label', detail = '' } = widget.fields;
+                return events.length ? { type: 'table', rows: [[date, label, detail], ...events.map(e => [e.date, e.label, e.detail ?? ''])] } : null;
+            }
+            case 'keyValue': {
+                const pairs = keyValuePairs(widget.fields, data);
+                return pairs.length ? { type: 'fields', pairs } : null;
+            }
+        }
+    })();
+    return content ? [{ type: 'heading', level: 3, text: widget.title }, content] : [];
+};
+
+// `text[from, to)` as runs, with keyword matches bold and in their keyword's colour.
+const highlightedRuns = (text: string, from: number, to: number, matches: KeywordMatches, colors: Map<string, string>): TextRun[] => {
+    const runs: TextRun[] = [];
+    let pos = from;
+    for (let i = firstMatchAfter(matches.matches, from); i < matches.matches.length && matches.matches[i].start < to; i++) {
+        const match = matches.matches[i];
+        const start = Math.max(match.start, from);
+        const end = Math.min(match.end, to);
+        if (start > pos) runs.push({ text: text.slice(pos, start) });
+        runs.push({ text: text.slice(start, end), bold: true, color: colors.get(match.keywordId) });
+        pos = end;
+    }
+    if (pos < to) runs.push({ text: text.slice(pos, to) });
+    return runs;
+};
+
+const keywordBlocks = (input: ReportInput, labels: Record<string, string>): ReportBlock[] => {
+    const { document, keywords, keywordMatches } = input;
+    if (keywords.length === 0) return [paragraph(labels.reportNoKeywords)];
+    const colors = new Map(keywords.map(k => [k.id, k.color]));
+    const blocks: ReportBlock[] = [{
+        type: 'table',
+        rows: [
+            [labels.reportKeyword, labels.synonyms, labels.reportMatches],
+            ...keywords.map(k => [k.mode === 'regex' ? `/${k.text}/` : k.text, (k.synonyms ?? []).join(', '), String(keywordMatches.byKeyword.get(k.id)?.length ?? 0)]),
+        ],
+    }];
+    for (const keyword of keywords) {
+        const occurrences = (keywordMatches.byKeyword.get(keyword.id) ?? []).slice(0, KEYWORD_EXCERPTS);
+        if (occurrences.length === 0) continue;
+        blocks.push({ type: 'heading', level: 3, text: keyword.text });
+        let shownTo = 0;
+        for (const { start, end } of occurrences) {
+            // Already inside the previous passage.
+            if (shownTo > start) continue;
+            const from = Math.max(shownTo, start - EXCERPT_CONTEXT);
+            const to = Math.min(document.content.length, end + EXCERPT_CONTEXT);
+            shownTo = to;
+            const runs = highlightedRuns(document.content, from, to, keywordMatches, colors).map(r => ({ ...r, text: r.text.replace(/\s+/g, ' ') }));
+            blocks.push({ type: 'paragraph', runs: [...(from > 0 ? [{ text: '…' }] : []), ...runs, ...(to < document.content.length ? [{ text: '…' }] : [])] });
+        }
+    }
+    return blocks;
+};
+
+// The processed text, one paragraph per blank-line-separated block, with keyword highlights.
+const documentBlocks = ({ document, keywords, keywordMatches }: ReportInput): ReportBlock[] => {
+    const colors = new Map(keywords.map(k => [k.id, k.color]));
+    const blocks: ReportBlock[] = [];
+    const separator = /\n\s*\n/g;
+    let start = 0;
+    for (let m = separator.exec(document.content); ; m = separator.exec(document.content)) {
+        const end = m ? m.index : document.content.length;
+        if (document.content.slice(start, end).trim()) blocks.push({ type: 'paragraph', runs: highlightedRuns(document.content, start, end, keywordMatches, colors) });
+        if (!m) break;
+        start = m.index + m[0].length;
+    }
+    return blocks;
+};
+
+const sectionBlocks = (kind: ReportSectionKind, input: ReportInput, template: ReportTemplate, labels: Record<string, string>): ReportBlock[] => {
+    switch (kind) {
+        case 'metadata': {
+            const { document, agents, generatedAt } = input;
+            const pairs: [string, string][] = [
+                [labels.reportDocument, document.name],
+                [labels.reportDocumentType, document.type],
+                [labels.reportCharacters, document.content.length.toLocaleString()],
+            ];
+            if (document.pdfDoc) pairs.push([labels.reportPages, String(document.pdfDoc.numPages)]);
+            pairs.push([labels.reportAgents, String(agents.length)], [labels.reportGenerated, generatedAt.toLocaleString()]);
+            return [{ type: 'heading', level: 2, text: labels.reportMetadata }, { type: 'fields', pairs }];
+        }
+        case 'agents': {
+            const { prompt, model, output } = template.agentFields;
+            return [{ type: 'heading', level: 2, text: labels.agentWorkflow }, ...input.agents.flatMap((agent): ReportBlock[] => [
+                { type: 'heading', level: 3, text: agent.name },
+                { type: 'fields', pairs: [
+                    ...(model ? [[labels.model, agent.model] as [string, string]] : []),
+                    [labels.reportStatus, agent.status],
+                ] },
+                ...(prompt ? [caption(labels.prompt), { type: 'preformatted', text: agent.prompt } as ReportBlock] : []),
+                ...(output && agent.status === AgentStatus.Success ? [caption(labels.output), ...outputBlocks(agent)] : []),
+                ...(agent.error ? [paragraph(agent.error)] : []),
+            ])];
+        }
+        case 'dashboard': {
+            const groups = input.dashboard.filter(g => g.widgets.length > 0);
+            if (groups.length === 0) return [];
+            return [{ type: 'heading', level: 2, text: labels.resultsDashboard }, ...groups.flatMap(group => [
+                ...(groups.length > 1 ? [paragraph(group.name)] : []),
+                ...group.widgets.flatMap(widgetBlocks),
+            ])];
+        }
+        case 'followUp': {
+            const questions = (input.followUpQuestions ?? '').split('\n').map(q => q.replace(/^- /, '').trim()).filter(Boolean);
+            return questions.length ? [{ type: 'heading', level: 2, text: labels.followUpQuestions }, { type: 'list', items: questions }] : [];
+        }
+        case 'keywords':
+            return [{ type: 'heading', level: 2, text: labels.reportKeywords }, ...keywordBlocks(input, labels)];
+        case 'document':
+            return [{ type: 'heading', level: 2, text: labels.processedDocument }, ...documentBlocks(input)];
+    }
+};
+
+export const buildReport = (input: ReportInput, template: ReportTemplate, labels: Record<string, string>): Report => {
+    const title = template.title.trim() || input.document.name;
+    return {
+        title,
+        blocks: [{ type: 'heading', level: 1, text: title }, ...template.sections.flatMap(kind => sectionBlocks(kind, input, template, labels))],
+    };
+};
@@ -0,0 +1,86 @@
+import { BatchItem } from '../types';
+import { tableToCsv } from './layoutBlocks';
+import { createZipArchive } from './loaders/zipArchive';
+
+export type TableCell = string | number | boolean | null;
+
+export interface ResultsTable {
+    columns: string[];
+    rows: TableCell[][];
+}
+
+const isScalar = (value: unknown): value is string | number | boolean => ['string', 'number', 'boolean'].includes(typeof value);
+
+// Nested objects become dotted columns ("Risk.score"); lists of plain values are joined, other lists stay JSON.
+export const flattenInto = (value: unknown, path: string, cells: Map<string, TableCell>) => {
+    if (value === null || value === undefined) cells.set(path, null);
+    else if (isScalar(value)) cells.set(path, value);
+    else if (Array.isArray(value)) cells.set(path, value.every(isScalar) ? value.join('; ') : JSON.stringify(value));
+    else if (typeof value === 'object' && Object.keys(value).length > 0) {
+        for (const [key, child] of Object.entries(value)) flattenInto(child, path ? `${path}.${key}` : key, cells);
+    } else cells.set(path, JSON.stringify(value));
+};
+
+// One row per file and one column per field of every agent's `outputJson`, in the order fields first appear.
+// Agents without structured output contribute no columns.
+export const buildResultsTable = (items: BatchItem[]): ResultsTable => {
+    const columns: string[] = [];
+    const rowCells = items.map(item => {
+        const cells = new Map<string, TableCell>();
+        for (const agent of item.agents ?? []) {
+            if (agent.outputJson !== null && agent.outputJson !== undefined) flattenInto(agent.outputJson, agent.name, cells);
+        }
+        for (const column of cells.keys()) if (!columns.includes(column)) columns.push(column);
+        return cells;
+    });
+    return {
+        columns: ['File', 'Status', 'Error', ...columns],
+        rows: items.map((item, i) => [item.name, item.status, item.error ?? null, ...columns.map(c => rowCells[i].get(c) ?? null)]),
+    };
+};
+
+export const resultsTableToCsv = ({ columns, rows }: ResultsTable): string =>
+    tableToCsv([columns, ...rows.map(row => row.map(cell => cell === null ? '' : String(cell)))]);
+
+// JSON keeps each agent's output as it was, nested objects and lists included.
+export const batchResultsToJson = (items: BatchItem[]): string => JSON.stringify(items.map(item => ({
+    file: item.name,
+    status: item.status,
+    error: item.error ?? null,
+    results: Object.fromEntries((item.agents ?? []).filter(a => a.outputJson !== null && a.outputJson !== undefined).map(a => [a.name, a.outputJson])),
+})), null, 2);
+
+const escapeXml = (text: string): string => text
+    // Control characters other than tab and line breaks are not allowed in XML at all.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + (n - 1) % 26) + name;
+    return name;
+};
+
+// Excel refuses to open a file with a longer cell.
+const MAX_XLSX_CELL_LENGTH = 32767;
+
+const xlsxCell = (cell: TableCell, ref: string): string => {
+    if (cell === null || cell === '') return '';
+    if (typeof cell === 'number' && Number.isFinite(cell)) return `<c r="${ref}"><v>${cell}</v></c>`;
+    if (typeof cell === 'boolean') return `<c r="${ref}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell).slice(0, MAX_XLSX_CELL_LENGTH))}</t></is></c>`;
+};
+
+// A single-sheet workbook with the smallest set of parts Excel, LibreOffice and Google Sheets accept.
+// Strings are stored inline, so no shared-strings table is needed.
+export const resultsTableToXlsx = ({ columns, rows }: ResultsTable): Blob => {
+    const sheetRows = [columns, ...rows].map((row, r) =>
+        `<row r="${r + 1}">${row.map((cell, c) => xlsxCell(cell, `${columnName(c)}${r + 1}`)).join('')}</row>`).join('');
+    return createZipArchive([
+        ['[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>'],
+        ['_rels/.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>'],
+        ['xl/workbook.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Results" sheetId="1" r:id="rId1"/></sheets></workbook>'],
+        ['xl/_rels/workbook.xml.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>'],
+        ['xl/worksheets/sheet1.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`],
+    ], 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+};
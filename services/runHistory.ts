@@ -0,0 +1,16 @@
+import { RunSnapshot } from '../types';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+
+const STORE = 'runs';
+
+export const saveRun = (snapshot: RunSnapshot) => putRecord(STORE, snapshot);
+
+// Newest first; limited to one document when a hash is given.
+export const listRuns = async (documentHash?: string): Promise<RunSnapshot[]> => {
+    const runs = documentHash
+        ? await getAllRecords<RunSnapshot>(STORE, 'documentHash', documentHash)
+        : await getAllRecords<RunSnapshot>(STORE);
+    return runs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteRun = (id: string) => deleteRecord(STORE, id);
@@ -0,0 +1,74 @@
+import { Agent, RunPolicy } from '../types';
+import { ModelRequestError } from './modelProvider';
+
+export const DEFAULT_RUN_POLICY: RunPolicy = {
+    maxRetries: 2,
+    backoffMs: 1000,
+    timeoutMs: 120000,
+    onFailure: 'stop',
+};
+
+export class AgentTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`Timed out after ${Math.round(timeoutMs / 1000)}s.`);
+        this.name = 'AgentTimeoutError';
+    }
+}
+
+export class AgentCancelledError extends Error {
+    constructor() {
+        super('Stopped by user.');
+        this.name = 'AgentCancelledError';
+    }
+}
+
+// Per-agent overrides win over the workflow policy; unset (undefined) fields inherit.
+export const resolveRunPolicy = (workflowPolicy: RunPolicy, agent: Agent): RunPolicy => {
+    const overrides = Object.fromEntries(Object.entries(agent.runPolicy ?? {}).filter(([, v]) => v !== undefined));
+    return { ...workflowPolicy, ...overrides };
+};
+
+export const isRetryableError = (error: unknown): boolean => error instanceof ModelRequestError && error.retryable;
+
+// The abort listener goes once the wait is over, so backoffs do not pile listeners onto the workflow's signal.
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new AgentCancelledError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs `task` with a fresh AbortSignal per attempt, aborting it after `timeoutMs` or when `signal` (the
+// user's Stop) fires, and retrying retryable errors with exponential backoff (backoffMs, 2 * backoffMs, ...).
+export const runWithPolicy = async <T>(
+    task: (signal: AbortSignal) => Promise<T>,
+    policy: RunPolicy,
+    onRetry: (nextAttempt: number, error: Error) => void,
+    signal?: AbortSignal,
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) throw new AgentCancelledError();
+        const controller = new AbortController();
+        const cancel = () => controller.abort(new AgentCancelledError());
+        signal?.addEventListener('abort', cancel, { once: true });
+        const timer = policy.timeoutMs > 0
+            ? setTimeout(() => controller.abort(new AgentTimeoutError(policy.timeoutMs)), policy.timeoutMs)
+            : undefined;
+        try {
+            return await task(controller.signal);
+        } catch (error) {
+            if (controller.signal.aborted) throw controller.signal.reason;
+            if (!isRetryableError(error) || attempt >= policy.maxRetries) throw error;
+            onRetry(attempt + 2, error as Error);
+            await sleep(policy.backoffMs * 2 ** attempt, signal);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', cancel);
+        }
+    }
+};
@@ -0,0 +1,61 @@
+import { JsonSchema } from '../types';
+
+export class SchemaValidationError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Output does not match the expected schema: ${issues.join('; ')}`);
+        this.name = 'SchemaValidationError';
+    }
+}
+
+const typeOf = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+};
+
+const matchesType = (value: unknown, type: NonNullable<JsonSchema['type']>): boolean => {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+};
+
+// Covers the subset of JSON Schema that Gemini response schemas use; returns one message per violation.
+export const validateAgainstSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+    const issues: string[] = [];
+
+    if (schema.type && !matchesType(value, schema.type)) {
+        return [`${path} should be ${schema.type} but is ${typeOf(value)}`];
+    }
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+        issues.push(`${path} should be one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}`);
+    }
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) issues.push(`${path} should be >= ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) issues.push(`${path} should be <= ${schema.maximum}`);
+    }
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, i) => issues.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+    if (typeOf(value) === 'object') {
+        const obj = value as Record<string, unknown>;
+        for (const key of schema.required ?? []) {
+            if (!Object.hasOwn(obj, key)) issues.push(`${path}.${key} is required`);
+        }
+        for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+            if (Object.hasOwn(obj, key)) issues.push(...validateAgainstSchema(obj[key], propSchema, `${path}.${key}`));
+        }
+    }
+    return issues;
+};
+
+export const parseStructuredOutput = (output: string, schema: JsonSchema): any => {
+    let value: unknown;
+    try {
+        value = JSON.parse(output);
+    } catch {
+        throw new SchemaValidationError(['response is not valid JSON']);
+    }
+    const issues = validateAgainstSchema(value, schema);
+    if (issues.length > 0) throw new SchemaValidationError(issues);
+    return value;
+};
@@ -0,0 +1,159 @@
+import { Agent, RetrievalSettings } from '../types';
+import { Passage, splitPassages } from './chunking';
+import { getRecord, putRecord } from './db';
+import { EMBEDDING_MODEL, embedTexts } from './geminiService';
+import { hashText } from './hashing';
+
+const STORE = 'embeddings';
+
+// Characters per passage: small enough to point at one spot, large enough to carry its context.
+export const PASSAGE_SIZE = 1200;
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = { enabled: false, topK: 5 };
+
+interface DocumentIndex {
+    id: string;
+    contentHash: string;
+    model: string;
+    passages: Passage[];
+    vectors: Float32Array[];
+    createdAt: number;
+}
+
+export interface SearchHit extends Passage {
+    text: string;
+    score: number;
+}
+
+export interface SearchResult {
+    hits: SearchHit[];
+    // Characters sent for embedding: the query, plus the whole document the first time it is searched.
+    embeddedCharacters: number;
+}
+
+interface IndexLookup {
+    index: DocumentIndex;
+    // Characters embedded to build the index, for the caller to pay for; 0 when it was already there.
+    characters: number;
+}
+
+interface PendingBuild {
+    built: Promise<IndexLookup>;
+    controller: AbortController;
+    waiters: number;
+    // The embedding is paid for once, by the first caller that gets the index.
+    claimed: boolean;
+}
+
+// The index depends on the content, the embedding model and how the content was cut into passages.
+const indexId = (contentHash: string) => `${contentHash}:${EMBEDDING_MODEL}:${PASSAGE_SIZE}`;
+
+// Agents of one run share the document, so an index being built is shared instead of built once per agent.
+const pending = new Map<string, PendingBuild>();
+
+const normalize = (vector: number[]): Float32Array => {
+    const norm = Math.hypot(...vector) || 1;
+    return Float32Array.from(vector, v => v / norm);
+};
+
+const buildIndex = async (content: string, id: string, contentHash: string, signal: AbortSignal): Promise<IndexLookup> => {
+    const passages = splitPassages(content, PASSAGE_SIZE);
+    const { vectors, characters } = await embedTexts(passages.map(p => content.slice(p.start, p.end)), 'document', signal);
+    const index: DocumentIndex = { id, contentHash, model: EMBEDDING_MODEL, passages, vectors: vectors.map(normalize), createdAt: Date.now() };
+    try {
+        await putRecord(STORE, index);
+    } catch (error) {
+        // Without storage the index still works for this session; it is only rebuilt next time.
+        console.error("Failed to store the search index:", error);
+    }
+    return { index, characters };
+};
+
+const getStoredIndex = (id: string): Promise<DocumentIndex | undefined> => getRecord<DocumentIndex>(STORE, id).catch(() => undefined);
+
+// Each caller waits with its own signal. The shared build is only stopped once every caller has given up,
+// so one cancelled agent does not fail the others that wait for the same index.
+const waitForBuild = (build: PendingBuild, signal?: AbortSignal): Promise<IndexLookup> => {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    build.waiters++;
+    return new Promise((resolve, reject) => {
+        let waiting = true;
+        const leave = () => {
+            waiting = false;
+            build.waiters--;
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+            leave();
+            if (build.waiters === 0) build.controller.abort(signal!.reason);
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        build.built.then(({ index, characters }) => {
+            if (!waiting) return;
+            leave();
+            resolve({ index, characters: build.claimed ? 0 : characters });
+            build.claimed = true;
+        }, error => {
+            if (!waiting) return;
+            leave();
+            reject(error);
+        });
+    });
+};
+
+// Embeds the content once; later searches (also after a reload) reuse the vectors stored for its hash.
+const getDocumentIndex = async (content: string, signal?: AbortSignal): Promise<IndexLookup> => {
+    const contentHash = await hashText(content);
+    const id = indexId(contentHash);
+    const stored = await getStoredIndex(id);
+    if (stored) return { index: stored, characters: 0 };
+    let build = pending.get(id);
+    // A build whose callers all gave up is on its way out; the next caller starts over.
+    if (!build || build.controller.signal.aborted) {
+        const controller = new AbortController();
+        const built: Promise<IndexLookup> = buildIndex(content, id, contentHash, controller.signal).finally(() => {
+            if (pending.get(id)?.built === built) pending.delete(id);
+        });
+        build = { built, controller, waiters: 0, claimed: false };
+        pending.set(id, build);
+    }
+    return waitForBuild(build, signal);
+};
+
+// Whether searching `content` would only embed the query, because its index is already stored.
+export const isDocumentIndexed = async (content: string): Promise<boolean> =>
+    Boolean(await getStoredIndex(indexId(await hashText(content))));
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+};
+
+// Passages ranked by cosine similarity to the query, best first.
+export const searchDocument = async (content: string, query: string, topK: number, signal?: AbortSignal): Promise<SearchResult> => {
+    if (!content.trim() || !query.trim()) return { hits: [], embeddedCharacters: 0 };
+    const { index, characters: indexCharacters } = await getDocumentIndex(content, signal);
+    if (index.passages.length === 0) return { hits: [], embeddedCharacters: indexCharacters };
+    const { vectors: [queryVector], characters: queryCharacters } = await embedTexts([query], 'query', signal);
+    const normalizedQuery = normalize(queryVector);
+    const hits = index.passages
+        .map((passage, i) => ({ ...passage, text: content.slice(passage.start, passage.end), score: dot(normalizedQuery, index.vectors[i]) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    return { hits, embeddedCharacters: indexCharacters + queryCharacters };
+};
+
+export const retrievalQuery = (agent: Agent): string => agent.retrieval?.query?.trim() || agent.prompt;
+
+// What a retrieval-mode agent gets in place of the document: its top passages, back in document order and
+// labelled with their pages, so page citations keep working.
+export const retrieveForAgent = async (agent: Agent, content: string, signal?: AbortSignal): Promise<{ document: string; embeddedCharacters: number }> => {
+    const { hits, embeddedCharacters } = await searchDocument(content, retrievalQuery(agent), agent.retrieval!.topK, signal);
+    const document = hits
+        .sort((a, b) => a.start - b.start)
+        .map((hit, i) => `--- Passage ${i + 1}${hit.page !== null ? ` (Page ${hit.page})` : ''} ---\n${hit.text}`)
+        .join('\n\n');
+    return { document, embeddedCharacters };
+};
@@ -0,0 +1,330 @@
+import { Agent, AgentInputs, AgentStatus, ChunkProgress, LongDocumentSettings, RunPolicy, TokenUsage } from '../types';
+import { formatPageRange, splitDocument } from './chunking';
+import { citationInstructions, splitCitedOutput, verifyCitation } from './citations';
+import { mapWithConcurrency } from './concurrency';
+import { runAgent, streamAgent } from './geminiService';
+import { AgentCancelledError, AgentTimeoutError, resolveRunPolicy, runWithPolicy } from './runPolicy';
+import { parseStructuredOutput, SchemaValidationError } from './schemaValidation';
+import { resolveAgentVariables } from './promptVariables';
+import { retrieveForAgent } from './semanticSearch';
+
+export const DEFAULT_AGENT_INPUTS: AgentInputs = { document: true, upstream: [] };
+
+export const DEFAULT_LONG_DOCUMENT_SETTINGS: LongDocumentSettings = {
+    enabled: false,
+    chunkSize: 30000,
+    overlap: 1000,
+    concurrency: 3,
+    reducePrompt: 'Combine the partial results below into a single result for the whole document. Remove duplicates, reconcile overlaps between consecutive parts and keep page references where they matter.',
+};
+
+const DOCUMENT_PLACEHOLDER = /\{\{\s*document\s*\}\}/g;
+const AGENT_PLACEHOLDER = /\{\{\s*agent:([^}]+?)\s*\}\}/g;
+
+export class WorkflowGraphError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkflowGraphError';
+    }
+}
+
+export const getAgentInputs = (agent: Agent): AgentInputs => agent.inputs ?? DEFAULT_AGENT_INPUTS;
+
+const isJsonAgent = (agent: Agent): boolean => Boolean(agent.outputSchema || agent.outputMode === 'json');
+
+export const documentFor = (agent: Agent, documentContent: string, structuredContent?: string): string =>
+    getAgentInputs(agent).structuredDocument && structuredContent ? structuredContent : documentContent;
+
+const findAgentByName = (agents: Agent[], name: string, referencedBy: Agent): Agent => {
+    const matches = agents.filter(a => a.name === name);
+    if (matches.length === 0) {
+        throw new WorkflowGraphError(`Agent "${referencedBy.name}" references unknown agent "${name}".`);
+    }
+    if (matches.length > 1) {
+        throw new WorkflowGraphError(`Agent "${referencedBy.name}" references "${name}", but several agents share that name.`);
+    }
+    return matches[0];
+};
+
+// Upstream agents are the ones declared in `inputs` plus any referenced through {{agent:Name}} placeholders.
+export const resolveDependencies = (agents: Agent[]): Map<string, string[]> => {
+    const ids = new Set(agents.map(a => a.id));
+    const dependencies = new Map<string, string[]>();
+
+    for (const agent of agents) {
+        const deps = new Set<string>();
+        for (const upstreamId of getAgentInputs(agent).upstream) {
+            if (!ids.has(upstreamId)) {
+                throw new WorkflowGraphError(`Agent "${agent.name}" depends on an agent that is no longer in the workflow.`);
+            }
+            deps.add(upstreamId);
+        }
+        for (const match of agent.prompt.matchAll(AGENT_PLACEHOLDER)) {
+            deps.add(findAgentByName(agents, match[1].trim(), agent).id);
+        }
+        if (deps.has(agent.id)) {
+            throw new WorkflowGraphError(`Agent "${agent.name}" cannot use its own output as an input.`);
+        }
+        dependencies.set(agent.id, Array.from(deps));
+    }
+    return dependencies;
+};
+
+const findCycle = (agents: Agent[], dependencies: Map<string, string[]>): string[] | null => {
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+        if (visiting.has(id)) return path.slice(path.indexOf(id)).concat(id);
+        if (visited.has(id)) return null;
+        visiting.add(id);
+        path.push(id);
+        for (const dep of dependencies.get(id) ?? []) {
+            const cycle = visit(dep);
+            if (cycle) return cycle;
+        }
+        path.pop();
+        visiting.delete(id);
+        visited.add(id);
+        return null;
+    };
+
+    for (const agent of agents) {
+        const cycle = visit(agent.id);
+        if (cycle) return cycle;
+    }
+    return null;
+};
+
+export const validateWorkflow = (agents: Agent[]): Map<string, string[]> => {
+    const dependencies = resolveDependencies(agents);
+    const cycle = findCycle(agents, dependencies);
+    if (cycle) {
+        const names = cycle.map(id => agents.find(a => a.id === id)?.name ?? id);
+        throw new WorkflowGraphError(`The workflow contains a cycle: ${names.join(' → ')}.`);
+    }
+    return dependencies;
+};
+
+export const buildAgentPrompt = (agent: Agent, documentContent: string, upstream: Agent[]): string => {
+    const inputs = getAgentInputs(agent);
+    const usesDocumentPlaceholder = agent.prompt.search(DOCUMENT_PLACEHOLDER) !== -1;
+    const placedAgents = new Set<string>();
+
+    const task = agent.prompt
+        .replace(DOCUMENT_PLACEHOLDER, () => documentContent)
+        .replace(AGENT_PLACEHOLDER, (_, name: string) => {
+            const source = upstream.find(a => a.name === name.trim());
+            if (!source) return '';
+            placedAgents.add(source.id);
+            return source.output ?? '';
+        });
+
+    // Inputs that were declared but not placed by a placeholder are prepended as labelled sections.
+    const sections: string[] = [];
+    if (inputs.document && !usesDocumentPlaceholder) {
+        sections.push(`DOCUMENT CONTENT:\n---\n${documentContent}\n---`);
+    }
+    for (const source of upstream) {
+        if (placedAgents.has(source.id)) continue;
+        sections.push(`OUTPUT OF AGENT "${source.name}":\n---\n${source.output ?? ''}\n---`);
+    }
+
+    const prompt = sections.length > 0 ? `${sections.join('\n\n')}\n\nTASK:\n${task}` : task;
+    return agent.citeSources ? `${prompt}\n\n${citationInstructions(isJsonAgent(agent))}` : prompt;
+};
+
+export const parseAgentJson = (output: string): any | null => {
+    try {
+        const jsonMatch = output.match(/```json\n([\s\S]*?)\n```/);
+        if (jsonMatch?.[1]) {
+            return JSON.parse(jsonMatch[1]);
+        }
+    } catch (e) {
+        console.error("Failed to parse agent JSON output:", e);
+    }
+    return null;
+};
+
+type AgentCall = (prompt: string, options?: { onText?: (text: string) => void; onRetry?: (attempt: number, error: Error) => void }) => Promise<string>;
+
+const buildReducePrompt = (agent: Agent, settings: LongDocumentSettings, chunks: ChunkProgress[]): string => {
+    const parts = chunks.map(c => `--- Part ${c.index + 1}${c.pages ? ` (${formatPageRange(c.pages)})` : ''} ---\n${c.output ?? ''}`);
+    const prompt = `PARTIAL RESULTS:\n${parts.join('\n\n')}\n\nORIGINAL TASK:\n${agent.prompt}\n\nINSTRUCTIONS:\n${settings.reducePrompt}`;
+    return agent.citeSources ? `${prompt} Keep the sources of the partial results.\n\n${citationInstructions(isJsonAgent(agent))}` : prompt;
+};
+
+// Map step: the agent's prompt runs on each overlapping chunk of the document with bounded concurrency.
+// Reduce step: the partial results, labelled with their page ranges, are merged by the reduce prompt.
+const runMapReduce = async (
+    agent: Agent, documentContent: string, upstream: Agent[], call: AgentCall,
+    onChunks: (chunks: ChunkProgress[]) => void, onText: (text: string) => void,
+): Promise<string> => {
+    const settings = agent.longDocument!;
+    const pieces = splitDocument(documentContent, settings.chunkSize, settings.overlap);
+    let chunks: ChunkProgress[] = pieces.map(p => ({ index: p.index, pages: p.pages, status: AgentStatus.Pending, output: null }));
+    const updateChunk = (index: number, partial: Partial<ChunkProgress>) => {
+        chunks = chunks.map(c => c.index === index ? { ...c, ...partial } : c);
+        onChunks(chunks);
+    };
+    onChunks(chunks);
+
+    await mapWithConcurrency(pieces, settings.concurrency, async piece => {
+        updateChunk(piece.index, { status: AgentStatus.Running });
+        try {
+            const output = await call(buildAgentPrompt(agent, piece.text, upstream), {
+                onRetry: () => updateChunk(piece.index, { status: AgentStatus.Retrying }),
+            });
+            updateChunk(piece.index, { status: AgentStatus.Success, output });
+        } catch (error) {
+            updateChunk(piece.index, { status: error instanceof AgentCancelledError ? AgentStatus.Cancelled : AgentStatus.Error });
+            throw error;
+        }
+    });
+
+    if (chunks.length === 1) return chunks[0].output ?? '';
+    return call(buildReducePrompt(agent, settings, chunks), { onText });
+};
+
+const anySignal = (signals: (AbortSignal | undefined)[]): AbortSignal | undefined => {
+    const defined = signals.filter((s): s is AbortSignal => s !== undefined);
+    return defined.length > 1 ? AbortSignal.any(defined) : defined[0];
+};
+
+const addUsage = (total: TokenUsage | undefined, usage: TokenUsage): TokenUsage => ({
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+    totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens,
+});
+
+const FAILED_STATUSES = new Set([AgentStatus.Error, AgentStatus.InvalidOutput, AgentStatus.TimedOut, AgentStatus.Skipped, AgentStatus.Cancelled]);
+
+interface WorkflowOptions {
+    policy: RunPolicy;
+    onAgentUpdate: (id: string, update: Partial<Agent>) => void;
+    // Markdown version of the document, given to agents with `inputs.structuredDocument`.
+    structuredContent?: string;
+    // Agents that already ran elsewhere (e.g. per document, before a comparison). They satisfy dependencies
+    // and can be referenced like any other agent, but are not run again.
+    finished?: Agent[];
+    // Aborting `signal` stops the whole workflow; `agentSignal` lets a single agent be stopped on its own.
+    signal?: AbortSignal;
+    agentSignal?: (id: string) => AbortSignal | undefined;
+}
+
+// Runs every agent as soon as all of its upstream agents have succeeded, so independent branches run in parallel.
+// A failure either stops the workflow (no new agents start) or, with onFailure 'continue', only skips the
+// failed agent's downstream agents. Agents that never get to run end up Skipped. Output is streamed into
+// `output` while an agent runs.
+export const executeWorkflow = async (agents: Agent[], documentContent: string, { policy, onAgentUpdate, structuredContent, finished = [], signal, agentSignal }: WorkflowOptions): Promise<Agent[]> => {
+    const dependencies = validateWorkflow([...finished, ...agents]);
+    const states = new Map([...finished, ...agents].map(a => [a.id, a]));
+    const running = new Map<string, Promise<void>>();
+    const waiting = new Set(agents.map(a => a.id));
+    let stopped = false;
+
+    const update = (id: string, partial: Partial<Agent>) => {
+        states.set(id, { ...states.get(id)!, ...partial });
+        onAgentUpdate(id, partial);
+    };
+
+    const fail = (agent: Agent, partial: Partial<Agent>) => {
+        update(agent.id, partial);
+        if (resolveRunPolicy(policy, agent).onFailure === 'stop') stopped = true;
+    };
+
+    const start = (configuredAgent: Agent) => {
+        const agent = resolveAgentVariables(configuredAgent);
+        const upstream = dependencies.get(agent.id)!.map(id => states.get(id)!);
+        const agentDocument = documentFor(agent, documentContent, structuredContent);
+        const agentPolicy = resolveRunPolicy(policy, agent);
+        const cancelSignal = anySignal([signal, agentSignal?.(agent.id)]);
+        const onText = (text: string) => update(agent.id, { status: AgentStatus.Running, output: text });
+        const recordUsage = (usage: TokenUsage | null) => {
+            if (usage) update(agent.id, { usage: addUsage(states.get(agent.id)!.usage, usage) });
+        };
+        const onRetry = (attempt: number, error: Error) =>
+            update(agent.id, { status: AgentStatus.Retrying, output: null, error: `(${attempt}/${agentPolicy.maxRetries + 1}) ${error.message}` });
+        const call: AgentCall = (prompt, options = {}) => runWithPolicy(
+            async attemptSignal => {
+                const result = options.onText ? await streamAgent(agent, prompt, options.onText, attemptSignal) : await runAgent(agent, prompt, attemptSignal);
+                recordUsage(result.usage);
+                return result.text;
+            },
+            agentPolicy,
+            options.onRetry ?? onRetry,
+            cancelSignal,
+        );
+        // Retrieval mode swaps the document for its most relevant passages; the search is retried like a call.
+        const resolveDocument = (): Promise<string> => agent.retrieval?.enabled
+            ? runWithPolicy(async attemptSignal => {
+                const { document, embeddedCharacters } = await retrieveForAgent(agent, agentDocument, attemptSignal);
+                update(agent.id, { embeddedCharacters: (states.get(agent.id)!.embeddedCharacters ?? 0) + embeddedCharacters });
+                return document;
+            }, agentPolicy, onRetry, cancelSignal)
+            : Promise.resolve(agentDocument);
+        update(agent.id, { status: AgentStatus.Running, chunks: undefined, usage: undefined, embeddedCharacters: undefined, sources: undefined, startedAt: Date.now() });
+        const task = (async () => {
+            try {
+                const document = await resolveDocument();
+                const response = agent.longDocument?.enabled
+                    ? await runMapReduce(agent, document, upstream, call, chunks => update(agent.id, { chunks }), onText)
+                    : await call(buildAgentPrompt(agent, document, upstream), { onText });
+                // Citations are checked against the document itself, so their spans point into what the viewer shows.
+                const { output, reported } = agent.citeSources ? splitCitedOutput(response, isJsonAgent(agent)) : { output: response, reported: [] };
+                const sources = agent.citeSources ? reported.map(c => verifyCitation(documentContent, c)) : undefined;
+                try {
+                    const outputJson = isJsonAgent(agent)
+                        ? parseStructuredOutput(output, agent.outputSchema ?? {})
+                        : parseAgentJson(output);
+                    update(agent.id, { status: AgentStatus.Success, output, outputJson, sources, error: null });
+                } catch (error) {
+                    if (!(error instanceof SchemaValidationError)) throw error;
+                    fail(agent, { status: AgentStatus.InvalidOutput, output, outputJson: null, error: error.message });
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+                if (error instanceof AgentCancelledError) {
+                    // A user stop never triggers the stop-on-failure policy; it only skips downstream agents.
+                    update(agent.id, { status: AgentStatus.Cancelled, error: errorMessage });
+                } else {
+                    fail(agent, { status: error instanceof AgentTimeoutError ? AgentStatus.TimedOut : AgentStatus.Error, error: errorMessage });
+                }
+            } finally {
+                update(agent.id, { finishedAt: Date.now() });
+                running.delete(agent.id);
+            }
+        })();
+        running.set(agent.id, task);
+    };
+
+    while (true) {
+        if (!stopped && !signal?.aborted) {
+            let progressed = true;
+            while (progressed) {
+                progressed = false;
+                for (const id of Array.from(waiting)) {
+                    const deps = dependencies.get(id)!.map(dep => states.get(dep)!);
+                    const failedDep = deps.find(dep => FAILED_STATUSES.has(dep.status));
+                    if (failedDep) {
+                        waiting.delete(id);
+                        update(id, { status: AgentStatus.Skipped, error: `Skipped because "${failedDep.name}" did not succeed.` });
+                        progressed = true;
+                    } else if (deps.every(dep => dep.status === AgentStatus.Success)) {
+                        waiting.delete(id);
+                        start(states.get(id)!);
+                    }
+                }
+            }
+        }
+        if (running.size === 0) break;
+        await Promise.race(running.values());
+    }
+
+    for (const id of waiting) {
+        update(id, { status: AgentStatus.Skipped, error: signal?.aborted ? 'Skipped because the workflow was stopped.' : 'Skipped because the workflow stopped after a failure.' });
+    }
+
+    return agents.map(a => states.get(a.id)!);
+};
@@ -0,0 +1,227 @@
+import { Agent, AgentConfig, AgentStatus, DashboardWidget, JsonSchema, RunPolicy, WorkflowTemplate } from '../types';
+import { maxOverlap } from './chunking';
+import { WIDGET_TYPES } from './dashboardWidgets';
+import { validateAgainstSchema } from './schemaValidation';
+import { WorkflowGraphError } from './workflowService';
+import { validateWorkspace } from './workspaceService';
+
+const FILE_FORMAT = 'cogniflow-workflows';
+const FILE_FORMAT_VERSION = 1;
+
+export interface WorkflowTemplateFile {
+    format: typeof FILE_FORMAT;
+    formatVersion: number;
+    templates: WorkflowTemplate[];
+}
+
+export class TemplateImportError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`The file is not a valid workflow template file (${issues.length} problem${issues.length === 1 ? '' : 's'}).`);
+        this.name = 'TemplateImportError';
+    }
+}
+
+const RUN_POLICY_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        maxRetries: { type: 'integer', minimum: 0 },
+        backoffMs: { type: 'number', minimum: 0 },
+        timeoutMs: { type: 'number', minimum: 0 },
+        onFailure: { type: 'string', enum: ['stop', 'continue'] },
+    },
+};
+
+const AGENT_CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        prompt: { type: 'string' },
+        model: { type: 'string' },
+        inputs: {
+            type: 'object',
+            properties: { document: { type: 'boolean' }, upstream: { type: 'array', items: { type: 'string' } }, structuredDocument: { type: 'boolean' } },
+            required: ['document', 'upstream'],
+        },
+        outputSchema: { type: 'object' },
+        runPolicy: RUN_POLICY_SCHEMA,
+        longDocument: {
+            type: 'object',
+            properties: {
+                enabled: { type: 'boolean' },
+                chunkSize: { type: 'integer', minimum: 1000 },
+                overlap: { type: 'integer', minimum: 0 },
+                concurrency: { type: 'integer', minimum: 1 },
+                reducePrompt: { type: 'string' },
+            },
+            required: ['enabled', 'chunkSize', 'overlap', 'concurrency', 'reducePrompt'],
+        },
+        retrieval: {
+            type: 'object',
+            properties: {
+                enabled: { type: 'boolean' },
+                topK: { type: 'integer', minimum: 1 },
+                query: { type: 'string' },
+            },
+            required: ['enabled', 'topK'],
+        },
+        systemInstruction: { type: 'string' },
+        generation: {
+            type: 'object',
+            properties: {
+                temperature: { type: 'number', minimum: 0, maximum: 2 },
+                topP: { type: 'number', minimum: 0, maximum: 1 },
+                maxOutputTokens: { type: 'integer', minimum: 1 },
+            },
+        },
+        outputMode: { type: 'string', enum: ['text', 'json'] },
+        documentMode: { type: 'string', enum: ['each', 'compare'] },
+        citeSources: { type: 'boolean' },
+        variables: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    type: { type: 'string', enum: ['text', 'number', 'select'] },
+                    options: { type: 'array', items: { type: 'string' } },
+                    defaultValue: { type: 'string' },
+                    value: { type: 'string' },
+                },
+                required: ['name', 'type'],
+            },
+        },
+    },
+    required: ['id', 'name', 'prompt', 'model'],
+};
+
+const DASHBOARD_WIDGET_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        type: { type: 'string', enum: WIDGET_TYPES },
+        title: { type: 'string' },
+        agentId: { type: 'string' },
+        path: { type: 'string' },
+        fields: {
+            type: 'object',
+            properties: {
+                label: { type: 'string' },
+                value: { type: 'string' },
+                date: { type: 'string' },
+                detail: { type: 'string' },
+                source: { type: 'string' },
+                target: { type: 'string' },
+                columns: { type: 'array', items: { type: 'string' } },
+            },
+        },
+    },
+    required: ['id', 'type', 'title', 'agentId', 'path', 'fields'],
+};
+
+const TEMPLATE_FILE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        format: { type: 'string', enum: [FILE_FORMAT] },
+        formatVersion: { type: 'integer', maximum: FILE_FORMAT_VERSION },
+        templates: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    version: { type: 'integer', minimum: 1 },
+                    updatedAt: { type: 'number' },
+                    agents: { type: 'array', items: AGENT_CONFIG_SCHEMA },
+                    runPolicy: RUN_POLICY_SCHEMA,
+                    dashboard: { type: 'array', items: DASHBOARD_WIDGET_SCHEMA },
+                },
+                required: ['id', 'name', 'version', 'agents'],
+            },
+        },
+    },
+    required: ['format', 'formatVersion', 'templates'],
+};
+
+export const toAgentConfig = ({ id, name, prompt, model, inputs, outputSchema, runPolicy, longDocument, retrieval, systemInstruction, generation, outputMode, variables, documentMode, citeSources }: Agent): AgentConfig =>
+    ({ id, name, prompt, model, inputs, outputSchema, runPolicy, longDocument, retrieval, systemInstruction, generation, outputMode, variables, documentMode, citeSources });
+
+// Fresh agent ids are assigned on every load, so the same template can be loaded more than once.
+export const instantiateTemplate = (template: WorkflowTemplate): Agent[] => {
+    const stamp = Date.now();
+    const idMap = new Map(template.agents.map((a, i) => [a.id, `agent-${stamp}-${i}`]));
+    return template.agents.map(config => ({
+        ...config,
+        id: idMap.get(config.id)!,
+        inputs: config.inputs && { ...config.inputs, upstream: config.inputs.upstream.map(id => idMap.get(id) ?? id) },
+        status: AgentStatus.Pending,
+        output: null,
+        error: null,
+        outputJson: null,
+    }));
+};
+
+// The template's dashboard for agents made by instantiateTemplate, which keeps the agents' order.
+// Null when the template uses the automatic dashboard.
+export const instantiateDashboard = (template: WorkflowTemplate, agents: Agent[]): DashboardWidget[] | null => {
+    if (!template.dashboard) return null;
+    const idMap = new Map(template.agents.map((a, i) => [a.id, agents[i].id]));
+    return template.dashboard.map(widget => ({ ...widget, agentId: idMap.get(widget.agentId) ?? widget.agentId }));
+};
+
+export const createTemplate = (
+    name: string, agents: Agent[], runPolicy: RunPolicy, dashboard: DashboardWidget[] | null, previous?: WorkflowTemplate,
+): WorkflowTemplate => ({
+    id: previous?.id ?? `template-${Date.now()}`,
+    name,
+    version: (previous?.version ?? 0) + 1,
+    updatedAt: Date.now(),
+    agents: agents.map(toAgentConfig),
+    runPolicy,
+    ...(dashboard && { dashboard }),
+});
+
+export const serializeTemplates = (templates: WorkflowTemplate[]): string =>
+    JSON.stringify({ format: FILE_FORMAT, formatVersion: FILE_FORMAT_VERSION, templates } satisfies WorkflowTemplateFile, null, 2);
+
+// Validates the file structure first, then that every template's agents form a runnable graph.
+export const parseTemplateFile = (text: string): WorkflowTemplate[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new TemplateImportError([`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+
+    const issues = validateAgainstSchema(data, TEMPLATE_FILE_SCHEMA);
+    if (issues.length > 0) throw new TemplateImportError(issues);
+
+    const templates = (data as WorkflowTemplateFile).templates;
+    // Inputs refer to agents by id, so a repeated id would make them ambiguous.
+    const duplicateIssues = templates.flatMap((template, i) => template.agents.flatMap((agent, j) => {
+        const first = template.agents.findIndex(a => a.id === agent.id);
+        return first < j ? [`$.templates[${i}].agents[${j}].id "${agent.id}" is already used by agents[${first}]`] : [];
+    }));
+    if (duplicateIssues.length > 0) throw new TemplateImportError(duplicateIssues);
+
+    // JSON Schema cannot compare two fields, so the overlap limit is checked here.
+    const overlapIssues = templates.flatMap((template, i) => template.agents.flatMap((agent, j) =>
+        agent.longDocument && agent.longDocument.overlap > maxOverlap(agent.longDocument.chunkSize)
+            ? [`$.templates[${i}].agents[${j}].longDocument.overlap should be at most half of chunkSize (${maxOverlap(agent.longDocument.chunkSize)})`]
+            : []));
+    if (overlapIssues.length > 0) throw new TemplateImportError(overlapIssues);
+
+    const graphIssues: string[] = [];
+    templates.forEach((template, i) => {
+        try {
+            validateWorkspace(instantiateTemplate(template));
+        } catch (error) {
+            if (!(error instanceof WorkflowGraphError)) throw error;
+            graphIssues.push(`$.templates[${i}] ("${template.name}"): ${error.message}`);
+        }
+    });
+    if (graphIssues.length > 0) throw new TemplateImportError(graphIssues);
+
+    return templates;
+};
@@ -0,0 +1,85 @@
+import { Agent, AgentStatus, DocumentFile, RunPolicy } from '../types';
+import { executeWorkflow, validateWorkflow, WorkflowGraphError } from './workflowService';
+
+// Results of the comparison agents are grouped under this id, next to the ids of the documents.
+export const COMPARE_GROUP = 'compare';
+
+export type WorkspaceDocument = Pick<DocumentFile, 'id' | 'name' | 'content' | 'structuredContent'>;
+
+export const isCompareAgent = (agent: Agent): boolean => agent.documentMode === 'compare';
+
+// Per-document agents all run before the comparison, so they cannot use a comparison's output.
+export const validateWorkspace = (agents: Agent[]): Map<string, string[]> => {
+    const dependencies = validateWorkflow(agents);
+    for (const agent of agents.filter(a => !isCompareAgent(a))) {
+        const comparison = dependencies.get(agent.id)!.map(id => agents.find(a => a.id === id)!).find(isCompareAgent);
+        if (comparison) {
+            throw new WorkflowGraphError(`Agent "${agent.name}" runs per document and cannot use the output of "${comparison.name}", which compares documents.`);
+        }
+    }
+    return dependencies;
+};
+
+// Every document is fenced with its number and name, so the model can tell them apart and refer to them.
+export const combineDocuments = (documents: WorkspaceDocument[], texts: string[] = documents.map(d => d.content)): string =>
+    documents.map((doc, i) => `===== DOCUMENT ${i + 1} OF ${documents.length}: "${doc.name}" =====\n${texts[i]}\n===== END OF DOCUMENT ${i + 1} =====`).join('\n\n');
+
+// Documents without a Markdown version contribute their plain text.
+export const combineStructuredDocuments = (documents: WorkspaceDocument[]): string | undefined =>
+    documents.some(d => d.structuredContent)
+        ? combineDocuments(documents, documents.map(d => d.structuredContent ?? d.content))
+        : undefined;
+
+// A per-document agent as the comparison sees it: its outputs for all documents, fenced like the documents.
+// It only counts as succeeded when it succeeded on every document.
+const mergeDocumentResults = (agent: Agent, documents: WorkspaceDocument[], results: Map<string, Agent[]>): Agent => {
+    const perDocument = documents.map(d => results.get(d.id)!.find(a => a.id === agent.id)!);
+    const failed = perDocument.find(a => a.status !== AgentStatus.Success);
+    return {
+        ...agent,
+        status: failed?.status ?? AgentStatus.Success,
+        output: combineDocuments(documents, perDocument.map(a => a.output ?? '')),
+        outputJson: null,
+    };
+};
+
+interface WorkspaceRunOptions {
+    policy: RunPolicy;
+    onAgentUpdate: (group: string, id: string, update: Partial<Agent>) => void;
+    signal?: AbortSignal;
+    agentSignal?: (id: string) => AbortSignal | undefined;
+}
+
+// The documents go through the per-document agents one after another, each as its own workflow; a failure
+// in one document does not stop the others. The comparison agents then run once on all documents. Returns
+// the final agents of every group (document ids and COMPARE_GROUP).
+export const executeWorkspace = async (
+    agents: Agent[], documents: WorkspaceDocument[], { policy, onAgentUpdate, signal, agentSignal }: WorkspaceRunOptions,
+): Promise<Map<string, Agent[]>> => {
+    validateWorkspace(agents);
+    const perDocument = agents.filter(a => !isCompareAgent(a));
+    const compare = agents.filter(isCompareAgent);
+    const results = new Map<string, Agent[]>();
+
+    for (const doc of documents) {
+        results.set(doc.id, perDocument.length === 0 ? [] : await executeWorkflow(perDocument, doc.content, {
+            policy,
+            structuredContent: doc.structuredContent,
+            onAgentUpdate: (id, update) => onAgentUpdate(doc.id, id, update),
+            signal,
+            agentSignal,
+        }));
+    }
+
+    if (compare.length > 0) {
+        results.set(COMPARE_GROUP, await executeWorkflow(compare, combineDocuments(documents), {
+            policy,
+            structuredContent: combineStructuredDocuments(documents),
+            finished: perDocument.map(a => mergeDocumentResults(a, documents, results)),
+            onAgentUpdate: (id, update) => onAgentUpdate(COMPARE_GROUP, id, update),
+            signal,
+            agentSignal,
+        }));
+    }
+    return results;
+};
@@ -0,0 +1,6 @@
+import { Agent, AgentStatus } from '../types';
+
+// An agent that has not run yet, with the fields every test needs; `extra` sets the rest.
+export const makeAgent = (id: string, name: string, prompt: string, extra: Partial<Agent> = {}): Agent => ({
+    id, name, prompt, model: 'gemini-2.5-flash', status: AgentStatus.Pending, output: null, error: null, outputJson: null, ...extra,
+});
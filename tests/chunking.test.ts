@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { maxOverlap, splitDocument, splitPassages } from '../services/chunking';
+
+const pages = (count: number, words: number) => Array.from({ length: count }, (_, p) =>
+    `--- Page ${p + 1} ---\n${Array.from({ length: words }, (_, w) => `p${p + 1}w${w}`).join(' ')}`).join('\n\n');
+
+describe('splitDocument', () => {
+    it('keeps a short document in one chunk', () => {
+        expect(splitDocument('A short note.', 1000, 100)).toEqual([{ index: 0, text: 'A short note.', pages: null }]);
+    });
+
+    it('never makes a chunk longer than the chunk size', () => {
+        const chunks = splitDocument(pages(6, 120), 500, 50);
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks) expect(chunk.text.length).toBeLessThanOrEqual(500);
+        expect(chunks.map(c => c.index)).toEqual(chunks.map((_, i) => i));
+    });
+
+    it('repeats the end of each chunk at the start of the next', () => {
+        const chunks = splitDocument(pages(1, 400), 500, 60);
+        for (let i = 1; i < chunks.length; i++) expect(chunks[i].text.startsWith(chunks[i - 1].text.slice(-60))).toBe(true);
+    });
+
+    it('tracks the pages each chunk covers', () => {
+        const chunks = splitDocument(pages(3, 20), 10_000, 0);
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0].pages).toEqual([1, 3]);
+    });
+
+    it('caps the overlap at half the chunk size', () => {
+        expect(maxOverlap(1000)).toBe(500);
+        const capped = splitDocument(pages(2, 600), 1000, 999);
+        const halved = splitDocument(pages(2, 600), 1000, 500);
+        expect(capped).toEqual(halved);
+    });
+});
+
+describe('splitPassages', () => {
+    it('points into the content and never crosses a page marker', () => {
+        const content = pages(3, 30);
+        const passages = splitPassages(content, 200);
+        for (const passage of passages) {
+            const text = content.slice(passage.start, passage.end);
+            expect(text).not.toContain('--- Page');
+            expect(text.length).toBeLessThanOrEqual(200);
+            expect(text.startsWith(`p${passage.page}w`)).toBe(true);
+        }
+        expect(new Set(passages.map(p => p.page))).toEqual(new Set([1, 2, 3]));
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { locateQuote, splitCitedOutput, verifyCitation } from '../services/citations';
+
+const DOCUMENT = '--- Page 1 ---\nAcme Corp agrees to deliver\n500 units.\n\n--- Page 2 ---\nLate delivery costs 2% per week.';
+
+describe('locateQuote', () => {
+    it('finds a quote verbatim, or with different case and spacing', () => {
+        const exact = locateQuote(DOCUMENT, 'costs 2% per week')!;
+        expect(DOCUMENT.slice(exact.start, exact.end)).toBe('costs 2% per week');
+        const loose = locateQuote(DOCUMENT, 'agrees to DELIVER 500   units')!;
+        expect(DOCUMENT.slice(loose.start, loose.end)).toBe('agrees to deliver\n500 units');
+        expect(locateQuote(DOCUMENT, 'not in the document')).toBeNull();
+    });
+});
+
+describe('splitCitedOutput', () => {
+    it('takes the sources block out of text output', () => {
+        const output = 'Acme delivers 500 units [1].\n\n```sources\n[{"claim":"500 units","quote":"500 units.","page":1}]\n```';
+        expect(splitCitedOutput(output, false)).toEqual({
+            output: 'Acme delivers 500 units [1].',
+            reported: [{ claim: '500 units', quote: '500 units.', page: 1 }],
+        });
+    });
+
+    it('unwraps structured output', () => {
+        const output = JSON.stringify({ result: { units: 500 }, sources: [{ claim: 'units', quote: '500 units', start: 1, end: 2 }] });
+        const { output: result, reported } = splitCitedOutput(output, true);
+        expect(JSON.parse(result)).toEqual({ units: 500 });
+        expect(reported).toEqual([{ claim: 'units', quote: '500 units', page: null, start: 1, end: 2 }]);
+    });
+
+    it('leaves output without sources as it is', () => {
+        expect(splitCitedOutput('Just an answer.', false)).toEqual({ output: 'Just an answer.', reported: [] });
+    });
+});
+
+describe('verifyCitation', () => {
+    it('trusts offsets only when they hold the quote', () => {
+        const start = DOCUMENT.indexOf('Late delivery');
+        const right = verifyCitation(DOCUMENT, { claim: 'fee', quote: 'Late delivery', page: 2, start, end: start + 13 });
+        expect(right).toMatchObject({ verified: true, span: { start, end: start + 13 } });
+        const wrong = verifyCitation(DOCUMENT, { claim: 'fee', quote: 'Late delivery', page: 2, start: 0, end: 13 });
+        expect(wrong).toMatchObject({ verified: true, span: { start, end: start + 13 } });
+    });
+
+    it('falls back to the page marker for a quote that is not in the document', () => {
+        const citation = verifyCitation(DOCUMENT, { claim: 'fee', quote: 'a 5% fee', page: 2 });
+        expect(citation.verified).toBe(false);
+        expect(DOCUMENT.slice(citation.span!.start, citation.span!.end)).toBe('--- Page 2 ---');
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { AgentStatus, EvalCase, EvalDataset, EvalRun } from '../types';
+import { baselineFor, compareRuns, DatasetImportError, parseDatasetFile, scoreOutput, serializeDataset } from '../services/evaluation';
+import { toAgentConfig } from '../services/workflowTemplates';
+import { makeAgent } from './agents';
+
+const dataset = (extra: Partial<EvalDataset>): EvalDataset => ({ id: 'd', name: 'Contracts', cases: [], metric: 'exactMatch', updatedAt: 0, ...extra });
+const evalCase = (expected: string): EvalCase => ({ id: 'c', name: 'Case', content: 'A contract.', expected });
+const answered = (output: string, outputJson: unknown = null) => makeAgent('a', 'Extractor', 'Extract.', { status: AgentStatus.Success, output, outputJson });
+
+describe('scoreOutput', () => {
+    it('compares exact values ignoring case, spacing and key order', async () => {
+        expect((await scoreOutput(dataset({}), evalCase('{"b":1,"a":"X  y"}'), answered('{"a":"x y","b":1}'))).score).toBe(1);
+        expect((await scoreOutput(dataset({ path: 'sentiment' }), evalCase('positive'), answered('', { sentiment: 'Positive' }))).score).toBe(1);
+        expect(await scoreOutput(dataset({ path: 'sentiment' }), evalCase('{"sentiment":"Negative"}'), answered('', { sentiment: 'Positive' })))
+            .toEqual({ score: 0, detail: 'positive', cost: 0 });
+    });
+
+    it('scores lists by F1 and names the missing and extra values', async () => {
+        const scored = await scoreOutput(dataset({ metric: 'setF1' }), evalCase('["Acme", "Globex", "Initech"]'), answered('- acme\n- Globex\n- Umbrella'));
+        expect(scored.score).toBeCloseTo(2 / 3);
+        expect(scored.detail).toBe('P 0.67 · R 0.67 · − initech · + umbrella');
+    });
+
+    it('counts the matching JSON fields', async () => {
+        const expected = '{"party":"Acme","terms":{"units":500,"price":10}}';
+        expect((await scoreOutput(dataset({ metric: 'jsonFields' }), evalCase(expected), answered('', { party: 'ACME', terms: { units: 500, price: 12 } }))))
+            .toEqual({ score: 2 / 3, detail: '2/3 · ≠ terms.price', cost: 0 });
+        expect((await scoreOutput(dataset({ metric: 'jsonFields', fields: ['party'] }), evalCase(expected), answered('', { party: 'Acme' }))).score).toBe(1);
+    });
+});
+
+const run = (id: string, createdAt: number, scores: Record<string, number>): EvalRun => {
+    const results = Object.entries(scores).map(([caseId, score]) => ({ caseId, caseName: caseId, output: null, score, detail: '', cost: 0 }));
+    return {
+        id, datasetId: 'd', createdAt, agent: toAgentConfig(answered('')), metric: 'exactMatch', cost: 0, results,
+        score: results.reduce((sum, r) => sum + r.score, 0) / results.length,
+    };
+};
+
+describe('compareRuns', () => {
+    it('counts the cases that improved and regressed', () => {
+        const comparison = compareRuns(run('new', 2, { a: 1, b: 0, c: 0.5, d: 1 }), run('old', 1, { a: 0, b: 1, c: 0.5 }));
+        expect(comparison.delta).toBeCloseTo(0.625 - 0.5);
+        expect(comparison.caseDeltas).toEqual(new Map([['a', 1], ['b', -1], ['c', 0]]));
+        expect(comparison).toMatchObject({ improved: 1, regressed: 1 });
+    });
+});
+
+describe('baselineFor', () => {
+    it('prefers the chosen baseline, else the latest earlier run', () => {
+        const runs = [run('r3', 3, { a: 1 }), run('r2', 2, { a: 1 }), run('r1', 1, { a: 1 })];
+        expect(baselineFor(runs[0], runs, dataset({}))?.id).toBe('r2');
+        expect(baselineFor(runs[0], runs, dataset({ baselineRunId: 'r1' }))?.id).toBe('r1');
+        expect(baselineFor(runs[2], runs, dataset({ baselineRunId: 'r1' }))).toBeNull();
+    });
+});
+
+describe('dataset files', () => {
+    it('round-trip with fresh ids', () => {
+        const original = dataset({ metric: 'setF1', path: 'names', cases: [evalCase('["Acme"]')], baselineRunId: 'r1' });
+        const imported = parseDatasetFile(serializeDataset(original));
+        expect(imported).toMatchObject({ name: 'Contracts', metric: 'setF1', path: 'names' });
+        expect(imported.baselineRunId).toBeUndefined();
+        expect(imported.cases.map(({ name, content, expected }) => ({ name, content, expected }))).toEqual([{ name: 'Case', content: 'A contract.', expected: '["Acme"]' }]);
+        expect(imported.cases[0].id).not.toBe('c');
+    });
+
+    it('list what is wrong with an invalid file', () => {
+        expect(() => parseDatasetFile('{')).toThrow(DatasetImportError);
+        try {
+            parseDatasetFile(JSON.stringify({ format: 'cogniflow-eval-dataset', formatVersion: 1, dataset: { name: 'x', metric: 'bleu', cases: [{}] } }));
+            expect.unreachable();
+        } catch (error) {
+            expect((error as DatasetImportError).issues).toContain('$.dataset.cases[0].content is required');
+            expect((error as DatasetImportError).issues.some(issue => issue.startsWith('$.dataset.metric'))).toBe(true);
+        }
+    });
+});
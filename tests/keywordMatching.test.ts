@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { Keyword } from '../types';
+import { findKeywordMatches, firstMatchAfter, keywordError } from '../services/keywordMatching';
+
+const keyword = (id: string, text: string, extra: Partial<Keyword> = {}): Keyword => ({ id, text, color: '#ff0000', ...extra });
+
+const matchedTexts = (text: string, keywords: Keyword[]) => findKeywordMatches(text, keywords).matches.map(m => text.slice(m.start, m.end));
+
+describe('findKeywordMatches', () => {
+    it('matches text case-insensitively, across line breaks', () => {
+        expect(matchedTexts('The Late\nDelivery fee and a late delivery.', [keyword('k', 'late delivery')])).toEqual(['Late\nDelivery', 'late delivery']);
+    });
+
+    it('matches whole words only in word mode, in any script', () => {
+        expect(matchedTexts('cat catalog cat.', [keyword('k', 'cat', { mode: 'word' })])).toEqual(['cat', 'cat']);
+        expect(matchedTexts('Ärger ärgerlich', [keyword('k', 'ärger', { mode: 'word' })])).toEqual(['Ärger']);
+    });
+
+    it('honours case sensitivity and synonyms', () => {
+        expect(matchedTexts('Fee, fee, charge', [keyword('k', 'Fee', { caseSensitive: true, synonyms: ['charge'] })])).toEqual(['Fee', 'charge']);
+    });
+
+    it('lets the earlier keyword win an overlap and groups matches by keyword', () => {
+        const text = 'late delivery';
+        const result = findKeywordMatches(text, [keyword('a', 'late delivery'), keyword('b', 'delivery')]);
+        expect(result.matches).toEqual([{ start: 0, end: 13, keywordId: 'a' }]);
+        expect(result.byKeyword.get('b')).toEqual([]);
+    });
+
+    it('skips invalid regex keywords', () => {
+        const broken = keyword('k', '(unclosed', { mode: 'regex' });
+        expect(keywordError(broken)).not.toBeNull();
+        expect(findKeywordMatches('(unclosed', [broken]).matches).toEqual([]);
+        expect(matchedTexts('a1 b22 c333', [keyword('r', '\\d{2,}', { mode: 'regex' })])).toEqual(['22', '333']);
+    });
+});
+
+describe('firstMatchAfter', () => {
+    it('finds the first match that ends after the offset', () => {
+        const { matches } = findKeywordMatches('x.x.x.x', [keyword('k', 'x')]);
+        expect(firstMatchAfter(matches, 0)).toBe(0);
+        expect(firstMatchAfter(matches, 3)).toBe(2);
+        expect(firstMatchAfter(matches, 100)).toBe(4);
+    });
+});
@@ -0,0 +1,65 @@
+import { readFileSync } from 'node:fs';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AgentStatus } from '../types';
+import { setModelProvider } from '../services/modelProvider';
+import { createMockProvider, sampleFromSchema } from '../services/providers/mockProvider';
+import { parseReplayFixture } from '../services/providers/replay';
+import { PARTIES_SCHEMA, runFollowUp, runOcr, runWorkflow } from './workflowScenario';
+
+// Responses to the requests in workflowScenario.ts; `npm run test:record` records them again from the live API.
+const fixture = parseReplayFixture(readFileSync(new URL('./fixtures/replay.json', import.meta.url), 'utf8'));
+
+describe('canned responses', () => {
+    beforeEach(() => setModelProvider(createMockProvider()));
+
+    it('runs a workflow end to end', async () => {
+        const [parties, summary] = await runWorkflow();
+        expect(parties.status).toBe(AgentStatus.Success);
+        expect(parties.outputJson).toEqual(sampleFromSchema(PARTIES_SCHEMA));
+        expect(summary.status).toBe(AgentStatus.Success);
+        expect(summary.output).toMatch(/^Mock response from gemini-2\.5-flash\./);
+        expect(summary.usage?.totalTokens).toBeGreaterThan(0);
+    });
+
+    it('recognizes text and layout', async () => {
+        expect((await runOcr('text')).text).toMatch(/^Mock OCR text recognized from a \d+ KB image\/jpeg image\.$/);
+        const layout = await runOcr('layout');
+        expect(layout.blocks).toHaveLength(1);
+    });
+
+    it('suggests three follow-up questions', async () => {
+        const { text } = await runFollowUp(await runWorkflow());
+        expect(text.split('\n').filter(line => line.startsWith('- '))).toHaveLength(3);
+    });
+});
+
+describe('replay fixture', () => {
+    // Whatever was recorded, live or by hand: strict replay can only answer with these.
+    const recorded = fixture.entries.map(e => e.text);
+
+    beforeEach(() => setModelProvider(createMockProvider({ fixture, strict: true })));
+
+    it('replays the recorded workflow', async () => {
+        const [parties, summary] = await runWorkflow();
+        expect(parties.status).toBe(AgentStatus.Success);
+        expect(recorded).toContain(parties.output);
+        expect(parties.outputJson).toEqual(JSON.parse(parties.output!));
+        expect(summary.status).toBe(AgentStatus.Success);
+        expect(recorded).toContain(summary.output);
+    });
+
+    it('replays recorded OCR', async () => {
+        expect(recorded).toContain((await runOcr('text')).text);
+        const layout = await runOcr('layout');
+        expect(layout.blocks?.length).toBeGreaterThan(0);
+    });
+
+    it('replays recorded follow-up questions', async () => {
+        const { text } = await runFollowUp(await runWorkflow());
+        expect(recorded).toContain(text);
+    });
+
+    it('fails a request that was not recorded', async () => {
+        await expect(runFollowUp([])).rejects.toThrow('Failed to generate follow-up questions.');
+    });
+});
@@ -0,0 +1,25 @@
+import { writeFileSync } from 'node:fs';
+import { AgentStatus } from '../types';
+import { setModelProvider } from '../services/modelProvider';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createRecordingProvider } from '../services/providers/replay';
+import { runFollowUp, runOcr, runWorkflow } from './workflowScenario';
+
+// Sends the scenario's requests to the live Gemini API and saves the answers as tests/fixtures/replay.json:
+//     GEMINI_API_KEY=... npm run test:record
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) throw new Error('Set GEMINI_API_KEY to record the fixture.');
+
+const recorder = createRecordingProvider(createGeminiProvider(apiKey));
+setModelProvider(recorder);
+
+const agents = await runWorkflow();
+const failed = agents.filter(a => a.status !== AgentStatus.Success);
+if (failed.length > 0) throw new Error(`Not recorded: ${failed.map(a => `${a.name} (${a.error})`).join(', ')}`);
+await runOcr('text');
+await runOcr('layout');
+await runFollowUp(agents);
+
+writeFileSync(new URL('./fixtures/replay.json', import.meta.url), `${JSON.stringify(recorder.toFixture(), null, 2)}\n`);
+console.log(`Recorded ${recorder.entryCount} responses.`);
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createRedactor, DEFAULT_PII_DETECTORS, findPii } from '../services/redaction';
+
+const detectors = DEFAULT_PII_DETECTORS.map(d => d.id === 'person-names' ? { ...d, terms: ['Chen Mei-Ling'] } : d);
+
+const found = (text: string) => findPii(text, detectors).map(m => [m.label, text.slice(m.start, m.end)]);
+
+describe('findPii', () => {
+    it('finds the default kinds of personal data', () => {
+        expect(found('Mail jane.doe+work@example.co.uk or ask Dr. Jane Smith.')).toEqual([['EMAIL', 'jane.doe+work@example.co.uk'], ['PERSON', 'Dr. Jane Smith']]);
+        expect(found('ID A123456789, SSN 078-05-1120, IBAN DE89 3704 0044 0532 0130 00.')).toEqual([
+            ['NATIONAL_ID', 'A123456789'], ['NATIONAL_ID', '078-05-1120'], ['ACCOUNT', 'DE89 3704 0044 0532 0130 00'],
+        ]);
+        expect(found('Signed by chen mei-ling.')).toEqual([['PERSON', 'chen mei-ling']]);
+    });
+
+    it('finds phone numbers in the usual shapes', () => {
+        for (const phone of ['+1 415 555 0132', '+44 20 7946 0958', '+886 2 2345 6789', '(02) 2345-6789', '02-2345-6789', '020 7946 0958', '0912345678', '415-555-0132']) {
+            expect(found(`Call ${phone} today.`)).toEqual([['PHONE', phone]]);
+        }
+    });
+
+    it('finds card numbers only when they pass the Luhn check', () => {
+        expect(found('Card 4111 1111 1111 1111 on file.')).toEqual([['ACCOUNT', '4111 1111 1111 1111']]);
+        expect(found('Card 5500-0000-0000-0004.')).toEqual([['ACCOUNT', '5500-0000-0000-0004']]);
+        expect(found('Card 4111 1111 1111 1112 on file.')).toEqual([]);
+    });
+
+    it('leaves ordinary numbers alone', () => {
+        for (const text of ['Sales in 1999 2000 2001 rose.', 'Invoice 2024 0001 2345 of 12.500.000 units.', 'Order 1234567890123.', 'Page 12 of 340, 2023-05-01.']) {
+            expect(found(text)).toEqual([]);
+        }
+    });
+});
+
+describe('createRedactor', () => {
+    it('gives each distinct value one placeholder, numbered per label, across texts', () => {
+        const redactor = createRedactor(detectors);
+        expect(redactor.redact('a@x.com wrote to b@x.com')).toBe('[EMAIL_1] wrote to [EMAIL_2]');
+        expect(redactor.redact('Call +1 415 555 0132, then a@x.com')).toBe('Call [PHONE_1], then [EMAIL_1]');
+        expect(redactor.entries().map(e => [e.placeholder, e.value])).toEqual([
+            ['[EMAIL_1]', 'a@x.com'], ['[EMAIL_2]', 'b@x.com'], ['[PHONE_1]', '+1 415 555 0132'],
+        ]);
+    });
+
+    it('restores the original values, escaped inside JSON', () => {
+        const redactor = createRedactor(detectors);
+        const original = 'Contact Mr. O "Quote" Brien at a@x.com.';
+        const redacted = redactor.redact('Contact Mr. Brien at a@x.com.');
+        expect(redacted).toBe('Contact [PERSON_1] at [EMAIL_1].');
+        expect(redactor.restore(`${redacted} [UNKNOWN_1] stays.`)).toBe('Contact Mr. Brien at a@x.com. [UNKNOWN_1] stays.');
+
+        const quoted = createRedactor([{ id: 'names', label: 'PERSON', kind: 'dictionary', terms: ['O "Quote" Brien'], enabled: true }]);
+        const json = JSON.stringify({ who: quoted.redact(original) });
+        expect(JSON.parse(quoted.restore(json, true))).toEqual({ who: original });
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { AgentStatus, BatchItem } from '../types';
+import { buildResultsTable, resultsTableToCsv, resultsTableToXlsx } from '../services/resultsTable';
+import { openZipArchive } from '../services/loaders/zipArchive';
+import { makeAgent } from './agents';
+
+const item = (name: string, outputJson: unknown, extra: Partial<BatchItem> = {}): BatchItem => ({
+    id: name, name, file: new File([''], name), status: 'done',
+    agents: [makeAgent('a', 'Risk', 'Rate.', { status: AgentStatus.Success, outputJson }), makeAgent('b', 'Summary', 'Sum up.', { output: 'text only' })],
+    ...extra,
+});
+
+describe('buildResultsTable', () => {
+    it('flattens structured output into columns in order of first appearance', () => {
+        const table = buildResultsTable([
+            item('a.pdf', { score: 3, flags: ['late', 'penalty'] }),
+            item('b.pdf', { score: 1, owner: { name: 'Acme' }, notes: [{ page: 2 }] }),
+            item('c.pdf', null, { status: 'failed', error: 'Could not read the file.' }),
+        ]);
+        expect(table.columns).toEqual(['File', 'Status', 'Error', 'Risk.score', 'Risk.flags', 'Risk.owner.name', 'Risk.notes']);
+        expect(table.rows).toEqual([
+            ['a.pdf', 'done', null, 3, 'late; penalty', null, null],
+            ['b.pdf', 'done', null, 1, null, 'Acme', '[{"page":2}]'],
+            ['c.pdf', 'failed', 'Could not read the file.', null, null, null, null],
+        ]);
+    });
+});
+
+describe('resultsTableToCsv', () => {
+    it('quotes cells with commas, quotes and line breaks', () => {
+        expect(resultsTableToCsv({ columns: ['A', 'B'], rows: [['x, y', 'say "hi"'], ['two\nlines', null], [true, 2]] }))
+            .toBe('A,B\r\n"x, y","say ""hi"""\r\n"two\nlines",\r\ntrue,2');
+    });
+});
+
+describe('resultsTableToXlsx', () => {
+    it('writes a workbook with typed, escaped cells', async () => {
+        const blob = resultsTableToXlsx({ columns: ['File', 'Score', 'Ok'], rows: [['<a & b>', 2.5, false], [null, null, true]] });
+        expect(blob.type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        const archive = openZipArchive(await blob.arrayBuffer());
+        expect(archive.paths).toContain('[Content_Types].xml');
+        const sheet = await archive.readText('xl/worksheets/sheet1.xml');
+        expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">&lt;a &amp; b&gt;</t></is></c>');
+        expect(sheet).toContain('<c r="B2"><v>2.5</v></c>');
+        expect(sheet).toContain('<c r="C2" t="b"><v>0</v></c>');
+        expect(sheet).toContain('<row r="3"><c r="C3" t="b"><v>1</v></c></row>');
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { JsonSchema } from '../types';
+import { parseStructuredOutput, SchemaValidationError, validateAgainstSchema } from '../services/schemaValidation';
+
+const SENTIMENT: JsonSchema = {
+    type: 'object',
+    properties: {
+        sentiment: { type: 'string', enum: ['Positive', 'Negative', 'Neutral'] },
+        score: { type: 'number', minimum: 0, maximum: 1 },
+        tags: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['sentiment', 'score'],
+};
+
+describe('validateAgainstSchema', () => {
+    it('accepts a matching value', () => {
+        expect(validateAgainstSchema({ sentiment: 'Positive', score: 1, tags: ['a'] }, SENTIMENT)).toEqual([]);
+    });
+
+    it('reports every violation with its path', () => {
+        expect(validateAgainstSchema({ sentiment: 'Happy', score: 2, tags: ['a', 3] }, SENTIMENT)).toEqual([
+            '$.sentiment should be one of "Positive", "Negative", "Neutral"',
+            '$.score should be <= 1',
+            '$.tags[1] should be string but is integer',
+        ]);
+    });
+
+    it('reports missing required keys', () => {
+        expect(validateAgainstSchema({ sentiment: 'Neutral' }, SENTIMENT)).toEqual(['$.score is required']);
+    });
+
+    it('only counts keys of the value itself, not inherited ones', () => {
+        const text: JsonSchema = { type: 'string' };
+        const schema: JsonSchema = { type: 'object', properties: { constructor: text }, required: ['constructor', 'toString'] };
+        expect(validateAgainstSchema({}, schema)).toEqual(['$.constructor is required', '$.toString is required']);
+        expect(validateAgainstSchema({ constructor: 'x', toString: 1 }, schema)).toEqual([]);
+    });
+
+    it('accepts integers for numbers but not the other way round', () => {
+        expect(validateAgainstSchema(3, { type: 'number' })).toEqual([]);
+        expect(validateAgainstSchema(1.5, { type: 'integer' })).toEqual(['$ should be integer but is number']);
+    });
+});
+
+describe('parseStructuredOutput', () => {
+    it('returns the parsed value', () => {
+        expect(parseStructuredOutput('{"sentiment":"Negative","score":0}', SENTIMENT)).toEqual({ sentiment: 'Negative', score: 0 });
+    });
+
+    it('throws a SchemaValidationError for invalid JSON or a mismatch', () => {
+        expect(() => parseStructuredOutput('not json', SENTIMENT)).toThrow(SchemaValidationError);
+        expect(() => parseStructuredOutput('{"sentiment":"Negative"}', SENTIMENT)).toThrow('$.score is required');
+    });
+});
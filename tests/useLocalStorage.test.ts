@@ -0,0 +1,25 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+
+describe('useLocalStorage', () => {
+    beforeEach(() => window.localStorage.clear());
+
+    it('starts from the stored value', () => {
+        window.localStorage.setItem('spend', '5');
+        const { result } = renderHook(() => useLocalStorage('spend', 0));
+        expect(result.current[0]).toBe(5);
+    });
+
+    it('keeps every update made in one go', () => {
+        const { result } = renderHook(() => useLocalStorage('spend', 0));
+        act(() => {
+            const [, setSpend] = result.current;
+            setSpend(prev => prev + 1);
+            setSpend(prev => prev + 2);
+        });
+        expect(result.current[0]).toBe(3);
+        expect(window.localStorage.getItem('spend')).toBe('3');
+    });
+});
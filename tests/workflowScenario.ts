@@ -0,0 +1,43 @@
+import { readFileSync } from 'node:fs';
+import { Agent, JsonSchema, OcrOutputFormat } from '../types';
+import { executeWorkflow } from '../services/workflowService';
+import { generateFollowUpQuestions, performOcr } from '../services/geminiService';
+import { DEFAULT_RUN_POLICY } from '../services/runPolicy';
+import { makeAgent } from './agents';
+
+// The requests the tests send, shared with recordFixture.ts: a fixture only answers requests that are byte for
+// byte the same as the recorded ones, so changing anything here (or a built-in prompt) means recording again.
+
+export const DOCUMENT = `--- Page 1 ---
+Acme Corp agrees to deliver 500 units to Globex Ltd by 1 March 2025.
+
+--- Page 2 ---
+A late delivery costs 2% of the order value per week.`;
+
+export const PAGE_IMAGE = readFileSync(new URL('./fixtures/page.jpg', import.meta.url)).toString('base64');
+
+export const PARTIES_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        parties: { type: 'array', items: { type: 'string' } },
+        deadline: { type: 'string' },
+    },
+    required: ['parties', 'deadline'],
+};
+
+// A structured agent and a text agent that reads its output.
+export const workflowAgents = (): Agent[] => [
+    makeAgent('parties', 'Parties', 'List the parties and the delivery deadline in this contract:\n\n{{document}}', { outputSchema: PARTIES_SCHEMA }),
+    makeAgent('summary', 'Summary', 'Summarize the obligations of each party, using these details: {{agent: Parties}}\n\n{{document}}'),
+];
+
+// No retries, so a request the provider cannot answer fails at once.
+export const runWorkflow = () => executeWorkflow(workflowAgents(), DOCUMENT, {
+    policy: { ...DEFAULT_RUN_POLICY, maxRetries: 0 },
+    onAgentUpdate: () => {},
+});
+
+export const runOcr = (format: OcrOutputFormat) => performOcr(PAGE_IMAGE, format);
+
+export const runFollowUp = (agents: Agent[]) =>
+    generateFollowUpQuestions(DOCUMENT, agents.map(a => `--- Agent: ${a.name} ---\n${a.output}`).join('\n\n'));
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { validateWorkflow, WorkflowGraphError } from '../services/workflowService';
+import { makeAgent } from './agents';
+
+describe('validateWorkflow', () => {
+    it('resolves declared inputs and {{agent:Name}} placeholders', () => {
+        const dependencies = validateWorkflow([
+            makeAgent('a', 'Extractor', 'Extract the parties.'),
+            makeAgent('b', 'Checker', 'Check the parties.', { inputs: { document: true, upstream: ['a'] } }),
+            makeAgent('c', 'Writer', 'Write it up from {{agent: Checker }} and {{agent:Extractor}}.'),
+        ]);
+        expect(dependencies.get('a')).toEqual([]);
+        expect(dependencies.get('b')).toEqual(['a']);
+        expect(dependencies.get('c')).toEqual(['b', 'a']);
+    });
+
+    it('names the agents of a cycle', () => {
+        const agents = [
+            makeAgent('a', 'First', 'Use {{agent:Third}}.'),
+            makeAgent('b', 'Second', 'Use {{agent:First}}.'),
+            makeAgent('c', 'Third', 'Use {{agent:Second}}.'),
+        ];
+        expect(() => validateWorkflow(agents)).toThrow(WorkflowGraphError);
+        expect(() => validateWorkflow(agents)).toThrow('The workflow contains a cycle: First → Third → Second → First.');
+    });
+
+    it('rejects an agent that reads its own output', () => {
+        expect(() => validateWorkflow([makeAgent('a', 'Loop', 'Improve {{agent:Loop}}.')])).toThrow('cannot use its own output');
+    });
+
+    it('rejects unknown and ambiguous agent names', () => {
+        expect(() => validateWorkflow([makeAgent('a', 'Writer', 'Use {{agent:Missing}}.')])).toThrow('unknown agent "Missing"');
+        expect(() => validateWorkflow([
+            makeAgent('a', 'Twin', 'One.'),
+            makeAgent('b', 'Twin', 'Two.'),
+            makeAgent('c', 'Writer', 'Use {{agent:Twin}}.'),
+        ])).toThrow('several agents share that name');
+    });
+
+    it('rejects an input from an agent that was removed', () => {
+        expect(() => validateWorkflow([makeAgent('a', 'Writer', 'Write.', { inputs: { document: true, upstream: ['gone'] } })]))
+            .toThrow('no longer in the workflow');
+    });
+});
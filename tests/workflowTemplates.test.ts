@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { RunPolicy } from '../types';
+import { createTemplate, parseTemplateFile, serializeTemplates, TemplateImportError } from '../services/workflowTemplates';
+import { makeAgent } from './agents';
+
+const POLICY: RunPolicy = { maxRetries: 0, backoffMs: 0, timeoutMs: 0, onFailure: 'stop' };
+
+const issuesOf = (text: string): string[] => {
+    try {
+        parseTemplateFile(text);
+    } catch (error) {
+        if (error instanceof TemplateImportError) return error.issues;
+        throw error;
+    }
+    return [];
+};
+
+describe('parseTemplateFile', () => {
+    it('reads back what was exported', () => {
+        const template = createTemplate('Contracts', [
+            makeAgent('a', 'Extractor', 'Extract.'),
+            makeAgent('b', 'Checker', 'Check.', { inputs: { document: false, upstream: ['a'] } }),
+        ], POLICY, null);
+        expect(parseTemplateFile(serializeTemplates([template]))).toEqual([template]);
+    });
+
+    it('rejects agents that share an id', () => {
+        const template = createTemplate('Contracts', [
+            makeAgent('a', 'Extractor', 'Extract.'),
+            makeAgent('b', 'Checker', 'Check.'),
+            makeAgent('a', 'Writer', 'Write.'),
+        ], POLICY, null);
+        expect(issuesOf(serializeTemplates([template]))).toEqual(['$.templates[0].agents[2].id "a" is already used by agents[0]']);
+    });
+});
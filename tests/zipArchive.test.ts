@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createZipArchive, openZipArchive, resolveArchivePath } from '../services/loaders/zipArchive';
+
+describe('zip archives', () => {
+    it('read back what was written, UTF-8 names and bytes included', async () => {
+        const blob = createZipArchive([['a.txt', 'hello'], ['文件/說明.txt', '你好'], ['raw.bin', new Uint8Array([0, 255, 1])]]);
+        const archive = openZipArchive(await blob.arrayBuffer());
+        expect(archive.paths).toEqual(['a.txt', '文件/說明.txt', 'raw.bin']);
+        expect(archive.has('a.txt')).toBe(true);
+        expect(await archive.readText('a.txt')).toBe('hello');
+        expect(await archive.readText('文件/說明.txt')).toBe('你好');
+        await expect(archive.readText('missing.txt')).rejects.toThrow('"missing.txt" is missing');
+    });
+
+    it('refuse data that is not an archive', () => {
+        expect(() => openZipArchive(new TextEncoder().encode('just some text that is not a zip file').buffer)).toThrow('not a ZIP archive');
+    });
+});
+
+describe('resolveArchivePath', () => {
+    it('resolves relative links against the linking file', () => {
+        expect(resolveArchivePath('OEBPS/text/ch1.xhtml', 'ch2.xhtml#start')).toBe('OEBPS/text/ch2.xhtml');
+        expect(resolveArchivePath('OEBPS/text/ch1.xhtml', '../images/My%20Cover.jpg')).toBe('OEBPS/images/My Cover.jpg');
+        expect(resolveArchivePath('content.opf', './text/ch1.xhtml')).toBe('text/ch1.xhtml');
+    });
+});
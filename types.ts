@@ -4,15 +4,49 @@ export enum AgentStatus {
   Running = 'Running',
   Success = 'Success',
   Error = 'Error',
+  InvalidOutput = 'InvalidOutput',
+  Retrying = 'Retrying',
+  Skipped = 'Skipped',
+  TimedOut = 'TimedOut',
+  Cancelled = 'Cancelled',
 }
 
 export enum DocumentType {
   EMPTY = 'EMPTY',
   PDF = 'PDF',
   TXT = 'TXT',
+  DOCX = 'DOCX',
+  HTML = 'HTML',
+  IMAGE = 'IMAGE',
+  EPUB = 'EPUB',
   PASTE = 'PASTE'
 }
 
+// 'auto' reads the PDF text layer and falls back to OCR when a page has (almost) no text.
+export type PageExtractionMode = 'auto' | 'text' | 'ocr';
+
+// 'layout' asks OCR for headings, paragraphs, lists and tables instead of free text.
+export type OcrOutputFormat = 'text' | 'layout';
+
+export type LayoutBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; rows: string[][] };
+
+export interface PageExtraction {
+  page: number;
+  method: 'text' | 'ocr';
+  status: 'queued' | 'running' | 'done' | 'failed';
+  text: string;
+  characters: number;
+  // Present when the page was OCRed in 'layout' format; `text` is then its plain-text rendering.
+  blocks?: LayoutBlock[];
+  // OCR text reused from an earlier run of the same file.
+  cached?: boolean;
+  error?: string;
+}
+
 export interface DocumentFile {
   id: string;
   name: string;
@@ -20,6 +54,111 @@ export interface DocumentFile {
   content: string;
   file?: File;
   pdfDoc?: any;
+  // SHA-256 of the file's bytes; keys the per-page OCR cache.
+  fileHash?: string;
+  // How each page of a PDF's `content` was obtained.
+  pageReport?: PageExtraction[];
+  // Markdown version of `content` (tables, headings) when any page was OCRed in 'layout' format.
+  structuredContent?: string;
+  // Per-document PDF state, kept while other documents of the workspace are shown.
+  selectedPages?: number[];
+  pageModes?: Record<number, PageExtractionMode>;
+  isExtracting?: boolean;
+}
+
+export type BatchItemStatus = 'queued' | 'loading' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// One file of a batch run, from the queue to its finished agents.
+export interface BatchItem {
+  id: string;
+  // Path inside the chosen folder, or the file name.
+  name: string;
+  file: File;
+  status: BatchItemStatus;
+  error?: string;
+  agents?: Agent[];
+  // Actual spend for this file: OCR plus all agent calls.
+  cost?: number;
+}
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// Limits in USD; null means no limit.
+export interface UsageBudget {
+  perRun: number | null;
+  perDay: number | null;
+  onExceed: 'warn' | 'block';
+}
+
+// 'each' runs the agent once per selected document; 'compare' runs it once on all selected documents together.
+export type DocumentMode = 'each' | 'compare';
+
+export interface AgentInputs {
+  document: boolean;
+  upstream: string[];
+  // Receive the layout-aware (Markdown) version of the document when OCR produced one.
+  structuredDocument?: boolean;
+}
+
+export interface RunPolicy {
+  maxRetries: number;
+  backoffMs: number;
+  timeoutMs: number;
+  onFailure: 'stop' | 'continue';
+}
+
+export interface LongDocumentSettings {
+  enabled: boolean;
+  chunkSize: number;
+  overlap: number;
+  concurrency: number;
+  reducePrompt: string;
+}
+
+// Retrieval mode: instead of the whole document, the agent gets the passages most similar to `query`
+// (its own prompt when empty), found through embeddings.
+export interface RetrievalSettings {
+  enabled: boolean;
+  topK: number;
+  query?: string;
+}
+
+export interface ChunkProgress {
+  index: number;
+  pages: [number, number] | null;
+  status: AgentStatus;
+  output: string | null;
+}
+
+export interface GenerationSettings {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+export type OutputMode = 'text' | 'json';
+
+export interface PromptVariable {
+  name: string;
+  type: 'text' | 'number' | 'select';
+  options?: string[];
+  defaultValue?: string;
+  value?: string;
 }
 
 export interface Agent {
@@ -31,12 +170,73 @@ export interface Agent {
   output: string | null;
   error: string | null;
   outputJson: any | null;
+  inputs?: AgentInputs;
+  outputSchema?: JsonSchema;
+  runPolicy?: Partial<RunPolicy>;
+  longDocument?: LongDocumentSettings;
+  retrieval?: RetrievalSettings;
+  chunks?: ChunkProgress[];
+  startedAt?: number;
+  finishedAt?: number;
+  systemInstruction?: string;
+  generation?: GenerationSettings;
+  outputMode?: OutputMode;
+  variables?: PromptVariable[];
+  // Actual tokens reported by the model, summed over every call the agent made (chunks, reduce step).
+  usage?: TokenUsage;
+  // Characters retrieval mode sent for embedding: the query, and the document when it had no index yet.
+  embeddedCharacters?: number;
+  documentMode?: DocumentMode;
+  // Ask the agent to cite a document passage for every claim; the citations are checked against the document.
+  citeSources?: boolean;
+  sources?: SourceCitation[];
+}
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface Citation {
+  page: number | null;
+  quote: string;
+  span: TextSpan | null;
+}
+
+// A claim of an agent's output and the passage it cites. Unverified citations quote text that is not in the
+// document: the claim may be made up. Their span, if any, is only the cited page.
+export interface SourceCitation extends Citation {
+  claim: string;
+  verified: boolean;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  citations?: Citation[];
+  isError?: boolean;
 }
 
+// How a keyword's text is matched: as a phrase, as a phrase only between word boundaries, or as a regular expression.
+export type KeywordMatchMode = 'text' | 'word' | 'regex';
+
 export interface Keyword {
   id: string;
   text: string;
   color: string;
+  // Missing on keywords saved before match modes existed, which behave as 'text'.
+  mode?: KeywordMatchMode;
+  caseSensitive?: boolean;
+  // Further phrases highlighted as this keyword, matched with the same word and case settings.
+  synonyms?: string[];
+}
+
+export interface KeywordSet {
+  id: string;
+  name: string;
+  keywords: Keyword[];
+  updatedAt: number;
 }
 
 export interface Theme {
@@ -46,9 +246,145 @@ export interface Theme {
   };
 }
 
-export interface AnalysisResult {
-    sentiment: { positive: number, negative: number, neutral: number } | null;
-    entities: { name: string, type: string }[] | null;
+export type WidgetType = 'bar' | 'pie' | 'table' | 'timeline' | 'keyValue' | 'network';
+
+// Field paths within each item of a widget's data. Which ones a widget uses depends on its type:
+// bar and pie use label and value (without value, items are counted per label), timeline date, label and
+// detail, network source and target, table and key-value cards columns (all fields when empty).
+export interface WidgetFields {
+  label?: string;
+  value?: string;
+  date?: string;
+  detail?: string;
+  source?: string;
+  target?: string;
+  columns?: string[];
+}
+
+// A dashboard widget bound to one agent's structured output.
+export interface DashboardWidget {
+  id: string;
+  type: WidgetType;
+  title: string;
+  agentId: string;
+  // Dotted path into the agent's `outputJson`; empty for the whole output. An array gives one item per
+  // element, an object one item per field ({ key, value }).
+  path: string;
+  fields: WidgetFields;
+}
+
+export type ReportFormat = 'pdf' | 'docx' | 'html' | 'md';
+
+export type ReportSectionKind = 'metadata' | 'agents' | 'dashboard' | 'followUp' | 'keywords' | 'document';
+
+// What a report contains and in which order, kept between exports.
+export interface ReportTemplate {
+  // Empty for the document name.
+  title: string;
+  // Sections left out are not in the report.
+  sections: ReportSectionKind[];
+  agentFields: { prompt: boolean; model: boolean; output: boolean };
+}
+
+// The configuration part of an agent: everything a workflow template needs to recreate it.
+export type AgentConfig = Pick<Agent, 'id' | 'name' | 'prompt' | 'model' | 'inputs' | 'outputSchema' | 'runPolicy' | 'longDocument' | 'retrieval'
+  | 'systemInstruction' | 'generation' | 'outputMode' | 'variables' | 'documentMode' | 'citeSources'>;
+
+// A reusable agent definition: the built-in DEFAULT_AGENTS and the user's personal library entries.
+export type AgentTemplate = Omit<AgentConfig, 'id' | 'model'> & { model?: string; libraryId?: string };
+
+export interface WorkflowTemplate {
+  id: string;
+  name: string;
+  version: number;
+  updatedAt: number;
+  agents: AgentConfig[];
+  runPolicy?: RunPolicy;
+  // Missing when the workflow uses the automatic dashboard.
+  dashboard?: DashboardWidget[];
+}
+
+export interface RunSnapshot {
+  id: string;
+  createdAt: number;
+  durationMs: number;
+  documentHash: string;
+  documentName: string;
+  agents: Agent[];
+  // The dashboard layout of the run; null or missing for the automatic one.
+  dashboard?: DashboardWidget[] | null;
+  followUpQuestions: string | null;
+}
+
+export type EvalMetric = 'exactMatch' | 'setF1' | 'jsonFields' | 'llmJudge';
+
+// A document of an evaluation dataset with the output expected for it: text, or JSON for structured agents.
+export interface EvalCase {
+  id: string;
+  name: string;
+  content: string;
+  expected: string;
+}
+
+export interface EvalDataset {
+  id: string;
+  name: string;
+  cases: EvalCase[];
+  metric: EvalMetric;
+  // exactMatch and setF1: where the compared value is in each output, e.g. "sentiment", or "name" for a list
+  // of entities (the output itself when empty). jsonFields: the compared field paths, every field of the
+  // expected output when empty. llmJudge: the rubric the judge grades by.
+  path?: string;
+  fields?: string[];
+  rubric?: string;
+  // The run later runs are compared with; the latest earlier run when unset.
+  baselineRunId?: string;
+  updatedAt: number;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  caseName: string;
+  output: string | null;
+  // From 0 to 1; a failed agent scores 0.
+  score: number;
+  detail: string;
+  // The agent's calls and the judge's, in USD.
+  cost: number;
+}
+
+export interface EvalRun {
+  id: string;
+  datasetId: string;
+  createdAt: number;
+  agent: AgentConfig;
+  metric: EvalMetric;
+  // Mean over all cases.
+  score: number;
+  results: EvalCaseResult[];
+  cost: number;
+}
+
+export type PiiDetectorKind = 'regex' | 'dictionary';
+
+// Finds one kind of personal data. Every distinct value found becomes a placeholder like [EMAIL_2].
+export interface PiiDetector {
+  id: string;
+  // The placeholder name, e.g. PERSON; several detectors may share one.
+  label: string;
+  kind: PiiDetectorKind;
+  // regex: matched case-sensitively.
+  pattern?: string;
+  // dictionary: matched as whole words, ignoring case.
+  terms?: string[];
+  enabled: boolean;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  detectors: PiiDetector[];
+  // Page images cannot be redacted, so OCR is refused unless this is set.
+  allowOcrImages: boolean;
 }
 
 export type Language = 'en' | 'zh-TW';